@@ -0,0 +1,15 @@
+//   Copy the non-TypeScript files the code loads at runtime next to the compiled output,
+//   since tsc only emits .js files. Run after "tsc" by "npm run build".
+
+const { cpSync, existsSync } = require("fs");
+const { join } = require("path");
+
+// Directories under src/ that hold runtime assets.
+const ASSET_DIRS = ["templates", "agents", "config"];
+
+const root = join(__dirname, "..");
+for (const dir of ASSET_DIRS) {
+    const from = join(root, "src", dir);
+    if (!existsSync(from)) continue;
+    cpSync(from, join(root, "dist", dir), { recursive: true });
+}
@@ -0,0 +1,92 @@
+//   "batch" command: plan every task in a JSONL, CSV or plain-text file.
+//
+//   Writes one JSON result per line (to --out or stdout) as items finish, failures included,
+//   and prints a summary to stderr. Uses the configured strategy; concurrency and the time limit
+//   default to the batch.concurrency and batch.timeout settings.
+//   Exits with 1 if any item failed.
+
+import { createWriteStream } from "fs";
+import { Analyzer, BatchInputFormat, ConfigValue, resolveConfig, indexWorkspace, readBatchFile, runBatch, formatBatchSummary } from "../core";
+import { createStrategy } from "./strategy";
+import { createUsageLog } from "./usage";
+import { createPlanLinter } from "./lint";
+import { createPlanCache } from "./cache";
+import { createPlanRepository } from "./plans";
+import { EXIT_CODES, reportError } from "./errors";
+
+export const BATCH_USAGE = "Usage: npm run start:cli batch <file> [--input jsonl|csv|text] [--concurrency <n>] [--timeout <seconds>] [--out <file>] [--no-cache] [--no-save]";
+
+//   Run "batch" and return the process exit code.
+export async function runBatchCommand(args: string[]): Promise<number> {
+    const positional: string[] = [];
+    const flags: Record<string, ConfigValue> = {};
+    let input: BatchInputFormat | undefined;
+    let out: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--input") input = args[++i] as BatchInputFormat;
+        else if (arg === "--concurrency" || arg === "-c") flags["batch.concurrency"] = args[++i] ?? "";
+        else if (arg === "--timeout") flags["batch.timeout"] = args[++i] ?? "";
+        else if (arg === "--out" || arg === "-o") out = args[++i];
+        else if (arg === "--no-cache") flags["cache.enabled"] = false;
+        else if (arg === "--no-save") flags["plans.save"] = false;
+        else positional.push(arg);
+    }
+
+    const validInput = input === undefined || ["jsonl", "csv", "text"].includes(input);
+    if (positional.length !== 1 || !validInput) {
+        console.error(BATCH_USAGE);
+        return EXIT_CODES.usage;
+    }
+
+    try {
+        // Step 1: Resolve the configuration (flags override the batch settings) and read the task list.
+        const { config, prices } = resolveConfig({ flags });
+        const { concurrency, timeout } = config.batch;
+        const items = readBatchFile(positional[0], input);
+        console.error(`Planning ${items.length} tasks (concurrency ${concurrency}, timeout ${timeout}s)...`);
+
+        // Step 2: Build one strategy and analyzer shared by every item.
+        const workspace = indexWorkspace(config.workspace || process.cwd());
+        const strategy = createStrategy(config.strategy, {
+            workspace,
+            cache: config.cache.enabled ? createPlanCache(config) : undefined,
+            llm: config.llm,
+            usageLog: createUsageLog(config),
+            prices,
+        });
+        const analyzer = new Analyzer(strategy, { linter: createPlanLinter(config) });
+        const plans = config.plans.save ? createPlanRepository(config) : undefined;
+
+        // Step 3: Plan the items, writing each result line as soon as it is ready.
+        const stream = out ? createWriteStream(out) : undefined;
+        const write = (line: string) => (stream ? stream.write(line + "\n") : process.stdout.write(line + "\n"));
+
+        const summary = await runBatch(items, {
+            plan: task => analyzer.runAsync(task),
+            concurrency,
+            timeoutMs: timeout * 1000,
+            onResult: result => {
+                // The parsed task is stored with the saved plan; the result line keeps just its type.
+                const { task, ...record } = result;
+                const planId = plans && task && result.breakdown
+                    ? plans.save({ task, breakdown: result.breakdown }).id
+                    : undefined;
+
+                write(JSON.stringify({ ...record, planId }));
+                if (!result.ok) console.error(`Item ${result.id} failed: ${result.error}`);
+            },
+        });
+
+        if (stream) {
+            await new Promise<void>(resolve => stream.end(resolve));
+        }
+
+        // Step 4: Summarize.
+        console.error(formatBatchSummary(summary));
+        return summary.failed > 0 ? 1 : 0;
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
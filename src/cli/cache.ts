@@ -0,0 +1,73 @@
+//   "cache" command: inspect, prune and clear the on-disk LLM plan cache.
+//
+//   Settings come from the "cache" section of the configuration (or ANALYZER_CACHE_* variables):
+//     cache.dir          cache directory (default .traycer/cache)
+//     cache.ttl          entry lifetime in seconds (default 7 days)
+//     cache.maxEntries   maximum number of entries (default 500)
+//     cache.maxBytes     maximum total size in bytes (default 50MB)
+
+import { PlanCache, AnalyzerConfig, resolveConfig } from "../core";
+import { EXIT_CODES, reportError } from "./errors";
+
+export const CACHE_USAGE = "Usage: npm run start:cli cache <stats|list|prune|clear>";
+
+//   Build the plan cache from the cache settings.
+export function createPlanCache(config: AnalyzerConfig = resolveConfig().config): PlanCache {
+    return new PlanCache({
+        dir: config.cache.dir,
+        ttlMs: config.cache.ttl * 1000,
+        maxEntries: config.cache.maxEntries,
+        maxBytes: config.cache.maxBytes,
+    });
+}
+
+//   Run "cache <stats|list|prune|clear>" and return the process exit code.
+export function runCacheCommand(args: string[]): number {
+    const action = args[0] || "stats";
+    let cache: PlanCache;
+    try {
+        cache = createPlanCache();
+    } catch (error: any) {
+        return reportError(error);
+    }
+
+    switch (action) {
+        case "stats": {
+            const stats = cache.stats();
+            console.log(`Cache directory: ${stats.dir}`);
+            console.log(`Entries: ${stats.entries} (${stats.expired} expired)`);
+            console.log(`Size: ${formatBytes(stats.bytes)}`);
+            return 0;
+        }
+        case "list": {
+            const entries = cache.list();
+            if (entries.length === 0) {
+                console.log("Cache is empty.");
+                return 0;
+            }
+            for (const entry of entries) {
+                const expired = entry.expired ? " [expired]" : "";
+                console.log(`${entry.key.slice(0, 12)}  ${entry.createdAt}  ${entry.provider}/${entry.model}  ${formatBytes(entry.bytes)}${expired}`);
+                console.log(`    ${entry.task}`);
+            }
+            return 0;
+        }
+        case "prune": {
+            console.log(`Removed ${cache.prune()} cache entries.`);
+            return 0;
+        }
+        case "clear": {
+            console.log(`Removed ${cache.clear()} cache entries.`);
+            return 0;
+        }
+        default:
+            console.error(`Unknown cache action "${action}".\n${CACHE_USAGE}`);
+            return EXIT_CODES.usage;
+    }
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
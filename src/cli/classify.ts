@@ -0,0 +1,71 @@
+//   "classify" command: show how a task is parsed, without planning it.
+//
+//   Prints the task type, scope and the ranked classification candidates with their evidence,
+//   and the error parsed from an attached (--trace) or pasted stack trace.
+
+import { parseTask, formatErrorReport } from "../core";
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+import { readTaskDescription, readTrace } from "./plan";
+
+export const CLASSIFY_USAGE = "Usage: npm run start:cli classify [--format text|json] [--file <path|->] [--trace <path|->] <task description>";
+
+//   Run "classify" and return the process exit code.
+export function runClassifyCommand(args: string[]): number {
+    const words: string[] = [];
+    let format = "text";
+    let file: string | undefined;
+    let trace: string | undefined;
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--format" || arg === "-f") format = args[++i] ?? "";
+            else if (arg === "--file" || arg === "-i") file = args[++i] ?? "";
+            else if (arg === "--trace") trace = args[++i] ?? "";
+            else if (arg === "--") {
+                words.push(...args.slice(i + 1));
+                break;
+            } else if (arg.startsWith("-") && arg !== "-") throw new UsageError(`Unknown option "${arg}"`);
+            else words.push(arg);
+        }
+        if (!["text", "json"].includes(format)) {
+            throw new UsageError(`Unknown format "${format}" (expected text or json)`);
+        }
+
+        if (file === "-" && trace === "-") {
+            throw new UsageError("--file and --trace cannot both read stdin");
+        }
+        const traceText = trace !== undefined ? readTrace(trace) : undefined;
+        const description = traceText !== undefined && words.length === 0 && file === undefined
+            ? ""
+            : readTaskDescription(words, file, { stdin: trace !== "-" });
+        const task = parseTask(description, { trace: traceText });
+
+        if (format === "json") {
+            console.log(JSON.stringify(task, null, 2));
+            return EXIT_CODES.ok;
+        }
+
+        const candidates = task.classifications ?? [];
+        console.log(`Task:  ${task.description}`);
+        console.log(`Type:  ${task.type}${candidates[0] ? ` (confidence ${candidates[0].confidence.toFixed(2)})` : ""}`);
+        console.log(`Scope: ${task.scope || "(none)"}`);
+
+        if (candidates.length > 0) {
+            console.log("Candidates:");
+            for (const candidate of candidates) {
+                const evidence = candidate.evidence.length > 0 ? `  ${candidate.evidence.join(", ")}` : "";
+                console.log(`  ${candidate.type.padEnd(16)} ${candidate.confidence.toFixed(2)}${evidence}`);
+            }
+        }
+        if (task.error) {
+            console.log(`Error (${task.error.language} stack trace):`);
+            console.log(formatErrorReport(task.error).replace(/^/gm, "  "));
+        }
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(CLASSIFY_USAGE);
+        return code;
+    }
+}
@@ -0,0 +1,199 @@
+//   The command table: every CLI command with its usage, completion words and handler.
+//   index.ts dispatches on it, "help" prints from it and "completion" generates scripts from it.
+
+import { runPlanCommand, PLAN_USAGE, REFINE_USAGE } from "./plan";
+import { runClassifyCommand, CLASSIFY_USAGE } from "./classify";
+import { runStrategiesCommand } from "./strategy";
+import { runTemplatesCommand, TEMPLATES_USAGE } from "./templates";
+import { runPlansCommand, PLANS_USAGE } from "./plans";
+import { runVerifyCommand, VERIFY_USAGE } from "./verify";
+import { runLintCommand, LINT_USAGE } from "./lint";
+import { runHandoffCommand, HANDOFF_USAGE } from "./handoff";
+import { runExportCommand, EXPORT_USAGE } from "./export";
+import { runBatchCommand, BATCH_USAGE } from "./batch";
+import { runScanCommand, SCAN_USAGE } from "./scan";
+import { runImportCommand, IMPORT_USAGE } from "./import";
+import { runCacheCommand, CACHE_USAGE } from "./cache";
+import { runConfigCommand, CONFIG_USAGE } from "./config";
+import { runUsageCommand, USAGE_USAGE } from "./usage";
+import { runCompletionCommand, CompletionSpec, COMPLETION_USAGE, SHELLS } from "./completion";
+import { EXIT_CODES } from "./errors";
+
+export interface CliCommand extends CompletionSpec {
+    usage: string;
+    run: (args: string[]) => number | Promise<number>;
+}
+
+const PLAN_OPTIONS = ["--strategy", "--format", "--out", "--model", "--file", "--trace", "--profile", "--no-cache", "--offline", "--no-stream", "--no-save"];
+
+export const COMMANDS: CliCommand[] = [
+    {
+        name: "plan",
+        summary: "Break a task down into steps",
+        usage: PLAN_USAGE,
+        options: PLAN_OPTIONS,
+        run: args => runPlanCommand(args),
+    },
+    {
+        name: "refine",
+        summary: "Plan a task, then revise it interactively",
+        usage: REFINE_USAGE,
+        options: PLAN_OPTIONS.filter(option => option !== "--out"),
+        run: args => runPlanCommand(args, { refine: true }),
+    },
+    {
+        name: "classify",
+        summary: "Show the task type and scope without planning",
+        usage: CLASSIFY_USAGE,
+        options: ["--format", "--file", "--trace"],
+        run: runClassifyCommand,
+    },
+    {
+        name: "strategies",
+        summary: "List the planning strategies",
+        usage: "Usage: npm run start:cli strategies",
+        run: runStrategiesCommand,
+    },
+    {
+        name: "templates",
+        summary: "List plan templates or preview one",
+        usage: TEMPLATES_USAGE,
+        actions: ["list", "show"],
+        options: ["--pack", "--task", "--format"],
+        run: runTemplatesCommand,
+    },
+    {
+        name: "plans",
+        summary: "Browse saved plans and track their steps",
+        usage: PLANS_USAGE,
+        actions: ["list", "show", "diff", "delete", "start", "done", "skip", "block", "reset", "note", "progress"],
+        options: ["--format", "--force"],
+        run: runPlansCommand,
+    },
+    {
+        name: "verify",
+        summary: "Check a saved plan against git changes",
+        usage: VERIFY_USAGE,
+        options: ["--judge", "--format"],
+        run: runVerifyCommand,
+    },
+    {
+        name: "lint",
+        summary: "Check saved plans for quality issues",
+        usage: LINT_USAGE,
+        actions: ["rules"],
+        options: ["--fix", "--disable", "--format"],
+        run: runLintCommand,
+    },
+    {
+        name: "handoff",
+        summary: "Export a saved plan as coding-agent prompts",
+        usage: HANDOFF_USAGE,
+        actions: ["profiles"],
+        options: ["--by", "--profile", "--format", "--out"],
+        run: runHandoffCommand,
+    },
+    {
+        name: "export",
+        summary: "Write a saved plan as GitHub, Jira or Linear tickets",
+        usage: EXPORT_USAGE,
+        options: ["--to", "--out", "--label"],
+        run: runExportCommand,
+    },
+    {
+        name: "batch",
+        summary: "Plan every task in a JSONL, CSV or text file",
+        usage: BATCH_USAGE,
+        options: ["--input", "--concurrency", "--timeout", "--out", "--no-cache", "--no-save"],
+        run: runBatchCommand,
+    },
+    {
+        name: "scan",
+        summary: "Turn TODO, FIXME and HACK comments into tasks and plans",
+        usage: SCAN_USAGE,
+        options: ["--markers", "--group", "--context", "--plan", "--strategy", "--format", "--no-cache", "--no-save"],
+        run: runScanCommand,
+    },
+    {
+        name: "import",
+        summary: "Turn GitHub, Jira or Markdown issues into tasks and plans",
+        usage: IMPORT_USAGE,
+        options: ["--from", "--id", "--plan", "--strategy", "--format", "--no-cache", "--no-save"],
+        run: runImportCommand,
+    },
+    {
+        name: "cache",
+        summary: "Inspect, prune or clear the LLM plan cache",
+        usage: CACHE_USAGE,
+        actions: ["stats", "list", "prune", "clear"],
+        run: runCacheCommand,
+    },
+    {
+        name: "usage",
+        summary: "Show LLM token usage, latency and cost",
+        usage: USAGE_USAGE,
+        options: ["--by", "--since", "--format"],
+        run: runUsageCommand,
+    },
+    {
+        name: "config",
+        summary: "Show the effective configuration and profiles",
+        usage: CONFIG_USAGE,
+        actions: ["show", "profiles"],
+        options: ["--resolved", "--profile"],
+        run: runConfigCommand,
+    },
+    {
+        name: "completion",
+        summary: "Print a shell completion script",
+        usage: COMPLETION_USAGE,
+        actions: SHELLS,
+        options: ["--name"],
+        run: args => runCompletionCommand(args, COMMANDS),
+    },
+    {
+        name: "help",
+        summary: "Show the commands, or the options of one command",
+        usage: "Usage: npm run start:cli help [<command>]",
+        run: runHelpCommand,
+    },
+];
+
+export function findCommand(name: string): CliCommand | undefined {
+    return COMMANDS.find(command => command.name === name);
+}
+
+//   The overview printed by "help", --help and a bare invocation.
+export function formatHelp(): string {
+    const width = Math.max(...COMMANDS.map(command => command.name.length));
+    return [
+        "Mini-Traycer: break coding tasks down into step-by-step plans.",
+        "",
+        "Usage: npm run start:cli <command> [options]",
+        "       npm run start:cli [plan options] <task description>   (same as \"plan\")",
+        "",
+        "Commands:",
+        ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+        "",
+        "Run \"npm run start:cli help <command>\" or \"<command> --help\" for its options.",
+        `Exit codes: ${Object.entries(EXIT_CODES).map(([name, code]) => `${code} ${name}`).join(", ")}.`,
+    ].join("\n");
+}
+
+//   Run "help [command]" and return the process exit code.
+function runHelpCommand(args: string[]): number {
+    if (args.length === 0) {
+        console.log(formatHelp());
+        return EXIT_CODES.ok;
+    }
+
+    const command = findCommand(args[0]);
+    if (!command) {
+        console.error(`Unknown command "${args[0]}".`);
+        console.error(formatHelp());
+        return EXIT_CODES.usage;
+    }
+
+    console.log(command.usage);
+    return EXIT_CODES.ok;
+}
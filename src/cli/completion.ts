@@ -0,0 +1,106 @@
+//   "completion" command: print a shell completion script for bash, zsh or fish.
+//
+//   The scripts are generated from the command table, so new commands and options complete
+//   without editing them. Install with e.g.:
+//     mini-traycer completion bash > /etc/bash_completion.d/mini-traycer
+//     mini-traycer completion zsh > "${fpath[1]}/_mini-traycer"
+//     mini-traycer completion fish > ~/.config/fish/completions/mini-traycer.fish
+
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+
+// What completion needs to know about a command.
+export interface CompletionSpec {
+    name: string;
+    summary: string;
+    actions?: string[];
+    options?: string[];
+}
+
+export const COMPLETION_USAGE = "Usage: npm run start:cli completion <bash|zsh|fish> [--name <program>]";
+
+export const SHELLS = ["bash", "zsh", "fish"];
+
+// Name of the installed binary (see "bin" in package.json).
+const DEFAULT_PROGRAM = "mini-traycer";
+
+//   Run "completion <shell>" and return the process exit code.
+export function runCompletionCommand(args: string[], commands: CompletionSpec[]): number {
+    try {
+        const positional: string[] = [];
+        let program = DEFAULT_PROGRAM;
+
+        for (let i = 0; i < args.length; i++) {
+            if (args[i] === "--name") program = args[++i] ?? "";
+            else positional.push(args[i]);
+        }
+
+        if (positional.length !== 1 || !SHELLS.includes(positional[0]) || !/^[\w.-]+$/.test(program)) {
+            throw new UsageError(`Expected one of ${SHELLS.join(", ")} and a plain program name`);
+        }
+
+        console.log(generateCompletion(positional[0], program, commands));
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(COMPLETION_USAGE);
+        return code;
+    }
+}
+
+//   Build the completion script for a shell.
+export function generateCompletion(shell: string, program: string, commands: CompletionSpec[]): string {
+    const fn = `_${program.replace(/\W/g, "_")}`;
+    const words = (command: CompletionSpec) => [...(command.actions ?? []), ...(command.options ?? [])].join(" ");
+
+    if (shell === "bash") {
+        return [
+            `# bash completion for ${program}`,
+            `${fn}() {`,
+            `    local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+            `    if [ "$COMP_CWORD" -eq 1 ]; then`,
+            `        COMPREPLY=($(compgen -W "${commands.map(c => c.name).join(" ")} --help --version" -- "$cur"))`,
+            `        return`,
+            `    fi`,
+            `    case "\${COMP_WORDS[1]}" in`,
+            ...commands.map(c => `        ${c.name}) COMPREPLY=($(compgen -W "${words(c)}" -- "$cur")) ;;`),
+            `        *) COMPREPLY=() ;;`,
+            `    esac`,
+            `}`,
+            `complete -o default -F ${fn} ${program}`,
+        ].join("\n");
+    }
+
+    if (shell === "zsh") {
+        return [
+            `#compdef ${program}`,
+            `${fn}() {`,
+            `    if (( CURRENT == 2 )); then`,
+            `        local -a commands`,
+            `        commands=(`,
+            ...commands.map(c => `            '${c.name}:${c.summary.replace(/'/g, "'\\''")}'`),
+            `        )`,
+            `        _describe 'command' commands`,
+            `        return`,
+            `    fi`,
+            `    case "$words[2]" in`,
+            ...commands.map(c => `        ${c.name}) compadd -- ${words(c)} ;;`),
+            `    esac`,
+            `    _files`,
+            `}`,
+            `compdef ${fn} ${program}`,
+        ].join("\n");
+    }
+
+    // fish
+    const lines = [`# fish completion for ${program}`, `complete -c ${program} -f`];
+    for (const command of commands) {
+        lines.push(`complete -c ${program} -n __fish_use_subcommand -a ${command.name} -d '${command.summary.replace(/'/g, "\\'")}'`);
+        for (const action of command.actions ?? []) {
+            lines.push(`complete -c ${program} -n '__fish_seen_subcommand_from ${command.name}' -a ${action}`);
+        }
+        for (const option of (command.options ?? []).filter(o => o.startsWith("--"))) {
+            lines.push(`complete -c ${program} -n '__fish_seen_subcommand_from ${command.name}' -l ${option.slice(2)}`);
+        }
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,73 @@
+//   "config" command: show the effective configuration and the available profiles.
+//
+//   Settings are merged from the built-in defaults, src/config/analyzer.config.json, the project's
+//   .traycer/config.json|yaml, the user's ~/.traycer/config.json|yaml, the selected profile,
+//   environment variables and command-line flags (highest precedence last).
+
+import { ConfigProfile, resolveConfig, formatConfig } from "../core";
+import { loadLLMConfig } from "../providers";
+import { EXIT_CODES, reportError } from "./errors";
+
+export const CONFIG_USAGE = [
+    "Usage: npm run start:cli config show [--resolved] [--profile <name>]",
+    "       npm run start:cli config profiles",
+].join("\n");
+
+//   Run "config <show|profiles>" and return the process exit code.
+export function runConfigCommand(args: string[]): number {
+    const action = args[0] || "show";
+    let resolved = false;
+    let profile: string | undefined;
+
+    for (let i = 1; i < args.length; i++) {
+        if (args[i] === "--resolved") resolved = true;
+        else if (args[i] === "--profile") profile = args[++i] ?? "";
+        else {
+            console.error(CONFIG_USAGE);
+            return EXIT_CODES.usage;
+        }
+    }
+
+    try {
+        const result = resolveConfig({ flags: { profile } });
+
+        switch (action) {
+            case "show": {
+                if (resolved) {
+                    // Show the model and base URL the provider falls back to instead of empty values.
+                    const llm = loadLLMConfig({ requireApiKey: false, settings: result.config.llm });
+                    for (const key of ["model", "baseUrl"] as const) {
+                        if (!result.config.llm[key]) {
+                            result.config.llm[key] = llm[key];
+                            result.sources[`llm.${key}`] = `default for ${llm.provider}`;
+                        }
+                    }
+                }
+
+                console.log(formatConfig(result, { sources: resolved }));
+                return 0;
+            }
+            case "profiles": {
+                for (const [name, settings] of Object.entries(result.profiles)) {
+                    const active = name === result.config.profile ? " (active)" : "";
+                    console.log(`${name}${active}: ${describeProfile(settings).join(", ")}`);
+                }
+                return 0;
+            }
+            default:
+                console.error(CONFIG_USAGE);
+                return EXIT_CODES.usage;
+        }
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
+
+// "llm.timeout=120000"-style entries for every setting in a profile.
+function describeProfile(profile: ConfigProfile, prefix: string = ""): string[] {
+    return Object.entries(profile).flatMap(([name, value]) =>
+        value !== null && typeof value === "object"
+            ? describeProfile(value as ConfigProfile, `${prefix}${name}.`)
+            : [`${prefix}${name}=${value}`]
+    );
+}
@@ -0,0 +1,54 @@
+//   Exit codes and error classes shared by the CLI commands.
+//
+//   Every command returns one of EXIT_CODES; unexpected errors are mapped by class in exitCodeFor,
+//   so scripts can tell a typo in the arguments from a broken config or an unreachable LLM.
+
+import { ConfigError, BudgetExceededError } from "../core";
+import { ProviderError } from "../providers";
+
+export const EXIT_CODES = {
+    ok: 0,
+    failure: 1,     // The command ran but reported a failure (e.g. verify found untouched files), or an unexpected error.
+    usage: 2,       // Unknown command, option or missing argument.
+    config: 3,      // Invalid configuration file, variable or flag value.
+    input: 4,       // Missing or unreadable input: task file, stdin, plan id.
+    provider: 5,    // The LLM provider failed (missing API key, network or API error, rate limit, open circuit, unusable response) or the daily budget is spent.
+} as const;
+
+// Wrong or missing command-line arguments.
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+// Input that does not exist or cannot be used, such as an empty task file.
+export class InputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InputError";
+    }
+}
+
+//   Map an error to its exit code.
+export function exitCodeFor(error: any): number {
+    if (error instanceof UsageError) return EXIT_CODES.usage;
+    if (error instanceof ConfigError) return EXIT_CODES.config;
+    if (error instanceof InputError || error?.code === "ENOENT" || error?.code === "EISDIR") return EXIT_CODES.input;
+    if (error instanceof ProviderError || error instanceof BudgetExceededError) return EXIT_CODES.provider;
+
+    // Every strategy of a composite failed: report the first failure that has a specific code.
+    if (error instanceof AggregateError) {
+        const codes = error.errors.map(exitCodeFor);
+        return codes.find(code => code !== EXIT_CODES.failure) ?? EXIT_CODES.failure;
+    }
+
+    return EXIT_CODES.failure;
+}
+
+//   Print an error on stderr and return its exit code.
+export function reportError(error: any): number {
+    console.error("Error:", error?.message || error);
+    return exitCodeFor(error);
+}
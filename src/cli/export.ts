@@ -0,0 +1,61 @@
+//   "export" command: write a saved plan as issue tracker tickets.
+//
+//   Writes a GitHub issues payload (a parent issue with a task list and one issue per step), a
+//   Jira bulk-import CSV or a Linear issues file to a local file (default
+//   .traycer/export/<plan id>/). Nothing is sent to the tracker; import the file from there.
+
+import { join } from "path";
+import { TicketFormat, TICKET_FORMATS, TICKET_FILES, resolveConfig, writeTickets } from "../core";
+import { createPlanRepository } from "./plans";
+import { EXIT_CODES, UsageError, InputError, reportError } from "./errors";
+
+export const EXPORT_USAGE = [
+    "Usage: npm run start:cli export <plan id> --to github|jira|linear [--out <file>] [--label <labels>]",
+    "",
+    "Options:",
+    "      --to <tracker>       github (issues JSON), jira (bulk-import CSV) or linear (issues JSON)",
+    "  -o, --out <file>         Write here instead of .traycer/export/<plan id>/",
+    "      --label <labels>     Comma-separated labels added to every ticket",
+].join("\n");
+
+//   Run "export" and return the process exit code.
+export function runExportCommand(args: string[]): number {
+    const positional: string[] = [];
+    let to: string | undefined;
+    let out: string | undefined;
+    let labels: string[] = [];
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--to") to = args[++i] ?? "";
+            else if (arg === "--out" || arg === "-o") out = args[++i] ?? "";
+            else if (arg === "--label") labels = (args[++i] ?? "").split(",").map(label => label.trim()).filter(Boolean);
+            else if (arg.startsWith("-")) throw new UsageError(`Unknown option "${arg}"`);
+            else positional.push(arg);
+        }
+        if (positional.length !== 1) throw new UsageError("Give exactly one plan id");
+        if (to === undefined) throw new UsageError(`--to is required (${TICKET_FORMATS.join(", ")})`);
+        if (!TICKET_FORMATS.includes(to as TicketFormat)) {
+            throw new UsageError(`--to takes ${TICKET_FORMATS.join(", ")}, not "${to}"`);
+        }
+        if (out === "") throw new UsageError("--out needs a file name");
+        const format = to as TicketFormat;
+
+        const { config } = resolveConfig();
+        const plan = createPlanRepository(config).get(positional[0]);
+        if (!plan) {
+            throw new InputError(`No saved plan with id "${positional[0]}"`);
+        }
+
+        const file = out ?? join(config.workspace || process.cwd(), ".traycer", "export", plan.id, TICKET_FILES[format]);
+        const count = writeTickets(plan.breakdown, format, file, { task: plan.task, planId: plan.id, labels });
+        console.error(`Wrote ${count} ${format === "github" ? "GitHub issues" : format === "jira" ? "Jira tickets" : "Linear issues"} (the task and ${count - 1} steps) to:`);
+        console.log(file);
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(EXPORT_USAGE);
+        return code;
+    }
+}
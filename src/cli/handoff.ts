@@ -0,0 +1,83 @@
+//   "handoff" command: turn a saved plan into prompts for coding agents.
+//
+//   Writes one Markdown file per step or wave (default .traycer/handoff/<plan id>/), or a single
+//   JSON bundle (to --out or stdout). Prompts are rendered with an agent profile; built-in profiles
+//   live in src/agents and projects add their own in .traycer/agents.
+
+import { join } from "path";
+import { writeFileSync } from "fs";
+import { HandoffUnit, resolveConfig, loadAgentProfiles, buildHandoffs, writeHandoffMarkdown } from "../core";
+import { createPlanRepository } from "./plans";
+import { EXIT_CODES, UsageError, InputError, reportError } from "./errors";
+
+export const HANDOFF_USAGE = [
+    "Usage: npm run start:cli handoff <plan id> [--by step|wave] [--profile <name>] [--format markdown|json] [--out <path>]",
+    "       npm run start:cli handoff profiles",
+].join("\n");
+
+//   Run "handoff" and return the process exit code.
+export function runHandoffCommand(args: string[]): number {
+    try {
+        const { config } = resolveConfig();
+        const root = config.workspace || process.cwd();
+        const profiles = loadAgentProfiles(root);
+
+        if (args[0] === "profiles") {
+            for (const profile of profiles) {
+                console.log(`${profile.name.padEnd(12)} ${profile.description ?? ""}`);
+            }
+            return 0;
+        }
+
+        const positional: string[] = [];
+        let unit: HandoffUnit = "step";
+        let profileName = "generic";
+        let format = "markdown";
+        let out: string | undefined;
+
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--by") unit = args[++i] as HandoffUnit;
+            else if (arg === "--profile") profileName = args[++i];
+            else if (arg === "--format" || arg === "-f") format = args[++i];
+            else if (arg === "--out" || arg === "-o") out = args[++i];
+            else positional.push(arg);
+        }
+
+        if (positional.length !== 1 || !["step", "wave"].includes(unit) || !["markdown", "md", "json"].includes(format)) {
+            console.error(HANDOFF_USAGE);
+            return EXIT_CODES.usage;
+        }
+
+        const profile = profiles.find(p => p.name === profileName);
+        if (!profile) {
+            throw new UsageError(`Unknown agent profile "${profileName}". Available profiles: ${profiles.map(p => p.name).join(", ")}`);
+        }
+
+        const plan = createPlanRepository(config).get(positional[0]);
+        if (!plan) {
+            throw new InputError(`No saved plan with id "${positional[0]}"`);
+        }
+
+        const bundle = buildHandoffs(plan.breakdown, { unit, profile });
+
+        if (format === "json") {
+            const json = JSON.stringify(bundle, null, 2);
+            if (out) {
+                writeFileSync(out, json + "\n");
+                console.error(`Wrote ${bundle.prompts.length} prompts to ${out}.`);
+            } else {
+                console.log(json);
+            }
+            return 0;
+        }
+
+        const dir = out ?? join(root, ".traycer", "handoff", plan.id);
+        const files = writeHandoffMarkdown(bundle, dir);
+        console.error(`Wrote ${files.length} prompts to ${dir}:`);
+        files.forEach(file => console.log(file));
+        return 0;
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
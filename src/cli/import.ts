@@ -0,0 +1,141 @@
+//   "import" command: read issues from a tracker export and turn them into tasks or plans.
+//
+//   Reads GitHub issues JSON, a Jira CSV export or Markdown issue files (one file or a directory)
+//   and lists each issue with its task type, labels, linked files and acceptance criteria. With
+//   --plan every issue is planned with the configured strategy and saved like "plan" does.
+
+import { statSync } from "fs";
+import { IssueTracker, Task, TaskBreakdown } from "../types/analysis";
+import { Analyzer, ConfigValue, resolveConfig, indexWorkspace, readIssues, formatBreakdown, listFormats } from "../core";
+import { createStrategy } from "./strategy";
+import { createPlanCache } from "./cache";
+import { createUsageLog } from "./usage";
+import { createPlanLinter } from "./lint";
+import { createPlanRepository, savePlan } from "./plans";
+import { EXIT_CODES, UsageError, InputError, reportError } from "./errors";
+
+const TRACKERS: IssueTracker[] = ["github", "jira", "markdown"];
+
+export const IMPORT_USAGE = [
+    "Usage: npm run start:cli import <export> [options]",
+    "",
+    "Options:",
+    "      --from <tracker>     github (issues JSON), jira (CSV) or markdown (files with front matter)",
+    "      --id <ids>           Only these issues, e.g. 42,57 or SHOP-17",
+    "      --plan               Plan each issue with the configured strategy",
+    "  -s, --strategy <name>    Strategy for --plan: Hardcoded, LLM, Fallback or Ensemble",
+    "  -f, --format <format>    text or json; with --plan any plan format (text, markdown, json, ...)",
+    "      --no-cache           Do not read or write the LLM plan cache",
+    "      --no-save            Do not save the plans to the plan history",
+    "",
+    "The tracker follows the export: a directory or .md file is Markdown, .csv is Jira, anything else GitHub JSON.",
+    "GitHub issues can be exported with: gh issue list --json number,title,body,labels,url > issues.json",
+].join("\n");
+
+//   Run "import" and return the process exit code.
+export async function runImportCommand(args: string[]): Promise<number> {
+    const flags: Record<string, ConfigValue> = {};
+    let path: string | undefined;
+    let from: string | undefined;
+    let ids: string[] | undefined;
+    let plan = false;
+    let format: string | undefined;
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--from") from = args[++i] ?? "";
+            else if (arg === "--id") ids = (args[++i] ?? "").split(",").map(id => id.trim().replace(/^#/, "")).filter(Boolean);
+            else if (arg === "--plan") plan = true;
+            else if (arg === "--strategy" || arg === "-s") flags.strategy = args[++i] ?? "";
+            else if (arg === "--format" || arg === "-f") format = (args[++i] ?? "").toLowerCase();
+            else if (arg === "--no-cache") flags["cache.enabled"] = false;
+            else if (arg === "--no-save") flags["plans.save"] = false;
+            else if (arg.startsWith("-")) throw new UsageError(`Unknown option "${arg}"`);
+            else if (path === undefined) path = arg;
+            else throw new UsageError(`Unexpected argument "${arg}"`);
+        }
+        if (path === undefined) throw new UsageError("No export file or directory given");
+        if (from !== undefined && !TRACKERS.includes(from as IssueTracker)) {
+            throw new UsageError(`--from takes ${TRACKERS.join(", ")}, not "${from}"`);
+        }
+        if (ids !== undefined && ids.length === 0) throw new UsageError("--id needs one or more issue ids");
+        const formats = plan ? listFormats() : ["text", "json"];
+        if (format !== undefined && !formats.includes(format)) {
+            throw new UsageError(`Unknown format "${format}" (expected ${formats.join(", ")})`);
+        }
+
+        // Step 1: Read the export and pick the requested issues.
+        try {
+            statSync(path);
+        } catch {
+            throw new InputError(`Cannot read ${path}: no such file or directory`);
+        }
+        let tasks: Task[];
+        try {
+            tasks = readIssues(path, from as IssueTracker | undefined);
+        } catch (error: any) {
+            // Invalid JSON, a malformed CSV or bad front matter: the export is the problem, not the tool.
+            throw new InputError(error.message);
+        }
+        if (ids) {
+            const wanted = ids;
+            const missing = wanted.filter(id => !tasks.some(task => task.source?.id === id));
+            if (missing.length > 0) throw new InputError(`No issue ${missing.join(", ")} in ${path}`);
+            tasks = tasks.filter(task => wanted.includes(task.source!.id));
+        }
+        console.error(`Imported ${tasks.length} ${tasks.length === 1 ? "issue" : "issues"} from ${path}.`);
+
+        if (!plan) {
+            printTasks(tasks, format ?? "text");
+            return EXIT_CODES.ok;
+        }
+
+        // Step 2: Plan every issue with the configured strategy, grounded in the workspace.
+        const { config, prices } = resolveConfig({ flags });
+        const strategy = createStrategy(config.strategy, {
+            workspace: indexWorkspace(config.workspace || process.cwd()),
+            cache: config.cache.enabled ? createPlanCache(config) : undefined,
+            llm: config.llm,
+            usageLog: createUsageLog(config),
+            prices,
+        });
+        const analyzer = new Analyzer(strategy, { linter: createPlanLinter(config) });
+        const plans = config.plans.save ? createPlanRepository(config) : undefined;
+
+        const results: Array<{ task: Task; breakdown: TaskBreakdown; planId?: string }> = [];
+        for (const task of tasks) {
+            const breakdown = await analyzer.runAsync(task);
+            const saved = plans && savePlan(plans, { task, breakdown });
+            results.push({ task, breakdown, planId: saved?.id });
+        }
+
+        // Step 3: Print the plans, one after the other (or as one JSON array).
+        if ((format ?? config.format).toLowerCase() === "json") {
+            console.log(JSON.stringify(results.map(({ task, breakdown, planId }) => ({ source: task.source, task, breakdown, planId })), null, 2));
+        } else {
+            console.log(results.map(result => formatBreakdown(result.breakdown, format ?? config.format)).join("\n\n"));
+        }
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(IMPORT_USAGE);
+        return code;
+    }
+}
+
+//   List the issues: id, task type, title and labels, then the linked files and acceptance criteria.
+function printTasks(tasks: Task[], format: string): void {
+    if (format === "json") {
+        console.log(JSON.stringify(tasks, null, 2));
+        return;
+    }
+
+    for (const task of tasks) {
+        const labels = task.labels?.length ? `  [${task.labels.join(", ")}]` : "";
+        console.log(`${task.source?.id ?? "?"}  ${task.type}  ${task.title ?? task.description}${labels}`);
+        if (task.files?.length) console.log(`  Files: ${task.files.join(", ")}`);
+        if (task.error) console.log(`  Error: ${task.error.errorType}${task.error.message ? `: ${task.error.message}` : ""}`);
+        for (const criterion of task.acceptanceCriteria ?? []) console.log(`  - ${criterion}`);
+    }
+}
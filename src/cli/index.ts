@@ -1,78 +1,61 @@
 #!/usr/bin/env node
 
 //   CLI entry point for Mini-Traycer.
-//   Supports both hardcoded templates and AI-powered planning using Groq.
+//   Supports both hardcoded templates and AI-powered planning (Groq, OpenAI-compatible, Ollama, Anthropic).
 
-import { parseTask, Analyzer, formatTaskBreakdown } from "../core";
-import { LLMStrategy } from "../strategies/LLMStrategy";
-import { HardcodedStrategy } from "../strategies/HardcodedStrategy";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { COMMANDS, findCommand, formatHelp } from "./commands";
+import { EXIT_CODES, exitCodeFor } from "./errors";
 import * as dotenv from "dotenv";
 
 // Load environment variables from .env file (if it exists).
 dotenv.config();
 
 //   Main CLI function that:
-//   1. Parses command-line arguments
-//   2. Selects strategy based on ANALYZER_STRATEGY env var
-//   3. Analyzes the task
-//   4. Formats and displays the breakdown
-
-async function main() {
-    // Step 1: Extract task description from command-line arguments,
-    // And Join all arguments to support multi-word descriptions.
-    const taskDescription = process.argv.slice(2).join(" ");
-
-    // Step 2: Validate that a task description was provided.
-    if (!taskDescription || taskDescription.trim() === "") {
-        console.error("Usage: npm run start:cli <task description>");
-        console.error("Example: npm run start:cli \"Add authentication to the app\"");
-        console.error("");
-        console.error("To use AI-powered planning:");
-        console.error("  ANALYZER_STRATEGY=LLM npm run start:cli \"your task\"");
-        process.exit(1);
+//   1. Handles the global options (--help, --version)
+//   2. Looks the first argument up in the command table (see commands.ts)
+//   3. Prints the command's usage for --help, or runs it
+//   4. Treats anything else as a task description for "plan", so "npm run start:cli <task>" keeps working
+//   5. Exits with the code the command returned (see EXIT_CODES in errors.ts)
+async function main(): Promise<number> {
+    const argv = process.argv.slice(2);
+    const first = argv[0];
+
+    // Step 1: Global options. Without arguments or piped input there is nothing to plan, so show the help.
+    if (first === "--help" || first === "-h" || (argv.length === 0 && process.stdin.isTTY)) {
+        console.log(formatHelp());
+        return argv.length === 0 ? EXIT_CODES.usage : EXIT_CODES.ok;
+    }
+    if (first === "--version" || first === "-V") {
+        console.log(readVersion());
+        return EXIT_CODES.ok;
     }
 
-    try {
-        // Step 3: Parse the task description into structured Task object.
-        const task = parseTask(taskDescription);
-
-        // Step 4: Select strategy based on environment variable.
-        // Default to "Hardcoded" if ANALYZER_STRATEGY is not set.
-        const strategyType = process.env.ANALYZER_STRATEGY || "Hardcoded";
-        let strategy;
-
-        if (strategyType === "LLM") {
-            console.log("Using LLM strategy (Groq API)...");
-            strategy = new LLMStrategy();
-        } else {
-            console.log("Using Hardcoded strategy (templates)...");
-            strategy = new HardcodedStrategy();
-        }
-
-        // Step 5: Create analyzer with selected strategy.
-        const analyzer = new Analyzer(strategy);
+    // Step 2: Find the command; a task description (or a plan option) means "plan".
+    const command = (first && findCommand(first)) || COMMANDS[0];
+    const args = command.name === first ? argv.slice(1) : argv;
 
-        // Step 6: Run analysis (await handles both sync and async strategies).
-        const breakdown = await analyzer.run(task);
+    // Step 3: "<command> --help" prints the command's usage (options after "--" belong to the task).
+    const options = args.includes("--") ? args.slice(0, args.indexOf("--")) : args;
+    if (options.includes("--help") || options.includes("-h")) {
+        console.log(command.usage);
+        return EXIT_CODES.ok;
+    }
 
-        // Step 7: Format and display the breakdown
-        console.log(formatTaskBreakdown(breakdown));
-    } catch (error: any) {
-        console.error("Error:", error.message || error);
-        
-        // Provide specific guidance for common LLM errors.
-        if (error.message && (error.message.includes("Groq") || error.message.includes("API key"))) {
-            console.error("");
-            console.error("Tip: Make sure you have set GROQ_API_KEY in your .env file.");
-        }
+    // Step 4: Run it.
+    return command.run(args);
+}
 
-        process.exit(1);
-    }
+function readVersion(): string {
+    const pkg = JSON.parse(readFileSync(join(__dirname, "../../package.json"), "utf-8"));
+    return `${pkg.name} ${pkg.version}`;
 }
 
 // Execute main function and handle any uncaught errors
-main().catch(error => {
-    console.error("Fatal error:", error);
-    process.exit(1);
-});
-//console.log("Hello World! Mini Traycer is running.");
\ No newline at end of file
+main()
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error("Fatal error:", error);
+        process.exit(exitCodeFor(error));
+    });
@@ -0,0 +1,113 @@
+//   "lint" command: check saved plans for quality issues, optionally fixing the safe ones.
+//
+//   The same linter runs on every generated plan (see the lint.* settings). Rules can be turned off
+//   per project with lint.disable (e.g. "step-count,near-duplicate"); --fix renumbers steps and
+//   normalizes file paths in the saved plan. Exits with 1 when an error-level issue remains.
+
+import { AnalyzerConfig, ConfigError, PlanLinter, LINT_RULES, StoredPlan, resolveConfig, computeWaves, findGraphProblems, formatLintIssues } from "../core";
+import { createPlanRepository } from "./plans";
+import { EXIT_CODES, UsageError, InputError, reportError } from "./errors";
+
+export const LINT_USAGE = [
+    "Usage: npm run start:cli lint [<plan id>...] [--fix] [--disable <rules>] [--format text|json]",
+    "       npm run start:cli lint rules",
+    "",
+    "Without plan ids every saved plan is checked.",
+].join("\n");
+
+//   Build the plan linter from the lint settings; undefined when linting is off.
+//   `fix` overrides lint.fix.
+export function createPlanLinter(config: AnalyzerConfig = resolveConfig().config, options: { fix?: boolean } = {}): PlanLinter | undefined {
+    if (!config.lint.enabled) return undefined;
+
+    try {
+        return new PlanLinter({
+            disabled: config.lint.disable.split(",").map(id => id.trim()).filter(Boolean),
+            minSteps: config.lint.minSteps,
+            maxSteps: config.lint.maxSteps,
+            fix: options.fix ?? config.lint.fix,
+        });
+    } catch (error: any) {
+        throw new ConfigError(`Invalid lint settings: ${error.message}`);
+    }
+}
+
+//   Run "lint" and return the process exit code.
+export function runLintCommand(args: string[]): number {
+    const ids: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+    let fix = false;
+    let format = "text";
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--fix") fix = true;
+            else if (arg === "--disable") flags["lint.disable"] = args[++i] ?? "";
+            else if (arg === "--format" || arg === "-f") format = args[++i] ?? "";
+            else if (arg.startsWith("-")) throw new UsageError(`Unknown option "${arg}"`);
+            else ids.push(arg);
+        }
+        if (!["text", "json"].includes(format)) {
+            throw new UsageError(`Unknown format "${format}" (expected text or json)`);
+        }
+
+        // The command lints even when lint.enabled turns linting of new plans off.
+        const { config } = resolveConfig({ flags: { ...flags, "lint.enabled": true } });
+        const linter = createPlanLinter(config, { fix })!;
+
+        // "lint rules" lists the rules instead of checking plans.
+        if (ids.length === 1 && ids[0] === "rules") {
+            for (const rule of LINT_RULES) {
+                const state = linter.rules.includes(rule) ? "" : " (disabled)";
+                const fixable = rule.fix ? ", fixable" : "";
+                console.log(`${rule.id.padEnd(16)} ${rule.severity}${fixable}${state}: ${rule.description}`);
+            }
+            return EXIT_CODES.ok;
+        }
+
+        // Step 1: Find the plans: the given ids, or every saved plan.
+        const repository = createPlanRepository(config);
+        const plans: StoredPlan[] = ids.length > 0
+            ? ids.map(id => {
+                const plan = repository.get(id);
+                if (!plan) throw new InputError(`No saved plan with id "${id}"`);
+                return plan;
+            })
+            : repository.list().map(summary => repository.get(summary.id)!);
+
+        // Step 2: Lint each one, saving the fixed plan in fix mode.
+        const results = plans.map(plan => {
+            const result = linter.lint(plan.breakdown, plan.task);
+            if (result.fixed.length > 0) {
+                const { lint, ...fixed } = result.breakdown;
+                repository.update(plan.id, {
+                    ...fixed,
+                    waves: findGraphProblems(fixed.steps).length === 0 ? computeWaves(fixed.steps) : fixed.waves,
+                    ...(result.issues.length > 0 ? { lint: result.issues } : {}),
+                });
+            }
+            return { id: plan.id, task: plan.breakdown.taskDescription, fixed: result.fixed, issues: result.issues };
+        });
+
+        // Step 3: Report.
+        if (format === "json") {
+            console.log(JSON.stringify(results, null, 2));
+        } else {
+            if (results.length === 0) console.log("No saved plans.");
+            for (const result of results) {
+                console.log(`Plan ${result.id}: ${result.task}`);
+                if (result.fixed.length > 0) console.log(`Fixed: ${result.fixed.join(", ")}`);
+                console.log(formatLintIssues(result.issues).replace(/^/gm, "  "));
+                console.log("");
+            }
+        }
+
+        const errors = results.reduce((sum, result) => sum + result.issues.filter(issue => issue.severity === "error").length, 0);
+        return errors > 0 ? EXIT_CODES.failure : EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(LINT_USAGE);
+        return code;
+    }
+}
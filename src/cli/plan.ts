@@ -0,0 +1,264 @@
+//   "plan" and "refine" commands: break a task down into steps and print (or write) the plan.
+//
+//   The task comes from the arguments, a file (--file <path>) or stdin (--file - or piped input).
+//   A stack trace or error log (--trace <path|->) turns it into a bugfix around the failing files.
+//   Flags override the configured strategy, format, model and profile for this run.
+//   "refine" plans the task as usual, then revises it interactively before printing.
+
+import { readFileSync, writeFileSync } from "fs";
+import { LLMCallUsage, RepairAttempt, TaskBreakdown } from "../types/analysis";
+import { parseTask, parseStackTrace, Analyzer, formatBreakdown, formatLintIssues, listFormats, indexWorkspace, resolveConfig, ConfigValue } from "../core";
+import { createStrategy } from "./strategy";
+import { createPlanCache } from "./cache";
+import { createUsageLog } from "./usage";
+import { createPlanLinter } from "./lint";
+import { runRefineSession } from "./refine";
+import { createPlanRepository, savePlan } from "./plans";
+import { EXIT_CODES, UsageError, InputError, reportError } from "./errors";
+
+export const PLAN_USAGE = [
+    "Usage: npm run start:cli plan [options] <task description>",
+    "       npm run start:cli plan [options] --file <path|->",
+    "",
+    "Options:",
+    "  -s, --strategy <name>   Hardcoded, LLM, Fallback or Ensemble",
+    "  -f, --format <format>   Output format (text, markdown, json, yaml, mermaid)",
+    "  -o, --out <file>        Write the plan to a file instead of stdout",
+    "  -m, --model <name>      LLM model to use",
+    "  -i, --file <path|->     Read the task description from a file, or from stdin with \"-\"",
+    "      --trace <path|->    Attach a stack trace or error log (Node, Python or Java) to plan a bugfix",
+    "      --profile <name>    Apply a configuration profile (e.g. fast, thorough)",
+    "      --no-cache          Do not read or write the LLM plan cache",
+    "      --offline           Replay LLM plans from the cache only",
+    "      --no-stream         Wait for the whole LLM plan instead of showing steps as they arrive",
+    "      --no-save           Do not save the plan to the plan history",
+].join("\n");
+
+export const REFINE_USAGE = PLAN_USAGE.replace(/start:cli plan/g, "start:cli refine");
+
+interface PlanArgs {
+    taskDescription: string;
+    trace?: string;
+    offline: boolean;
+    out?: string;
+
+    // Settings overridden on the command line, keyed by setting (e.g. "cache.enabled").
+    flags: Record<string, ConfigValue>;
+}
+
+//   Run "plan" (or "refine" with `refine`) and return the process exit code.
+export async function runPlanCommand(args: string[], options: { refine?: boolean } = {}): Promise<number> {
+    const refine = options.refine ?? false;
+
+    try {
+        // Step 1: Extract the options and the task description.
+        const { taskDescription, trace, offline, out, flags } = parseArgs(args, refine);
+
+        // Step 2: Resolve the configuration; flags override env vars, the profile and the config files.
+        const { config, prices } = resolveConfig({ flags });
+        const format = config.format;
+        if (!listFormats().includes(format.toLowerCase())) {
+            throw new UsageError(`Unknown format "${format}". Available formats: ${listFormats().join(", ")}`);
+        }
+        if (offline && !config.cache.enabled) {
+            throw new UsageError("--offline replays from the cache and cannot be combined with --no-cache.");
+        }
+
+        // Step 3: Parse the task and index the target repository so step files point at real paths.
+        const task = parseTask(taskDescription, { trace });
+        const workspace = indexWorkspace(config.workspace || process.cwd());
+
+        // Step 4: Select the configured strategy (default "Hardcoded").
+        // LLM plans are cached on disk unless caching is disabled; --offline replays from the cache only.
+        const strategy = createStrategy(config.strategy, {
+            workspace,
+            cache: config.cache.enabled ? createPlanCache(config) : undefined,
+            offline,
+            llm: config.llm,
+            usageLog: createUsageLog(config),
+            prices,
+        });
+
+        // Step 5: Run analysis. Strategies that stream (LLM) list each step on stderr as it arrives.
+        // Every plan is linted unless lint.enabled is off; the issues are listed on stderr.
+        let breakdown: TaskBreakdown | undefined;
+        const analyzer = new Analyzer(strategy, { linter: createPlanLinter(config) });
+        for await (const event of analyzer.analyzeStream(task)) {
+            if (event.type === "done") breakdown = event.breakdown;
+            else if (strategy.analyzeStream && config.llm.stream) console.error(`  + Step ${event.step.id}: ${event.step.title}`);
+        }
+        if (!breakdown) throw new Error("Analysis ended without a plan");
+        if (breakdown.usage) console.error(describeUsage(breakdown.usage, breakdown.repairs));
+        if (breakdown.lint) console.error(`Lint:\n${formatLintIssues(breakdown.lint).replace(/^/gm, "  ")}`);
+
+        // Step 6: Save the plan; a refined plan is saved again with the original as its parent.
+        const plans = config.plans.save ? createPlanRepository(config) : undefined;
+        const saved = plans && savePlan(plans, { task, breakdown });
+
+        if (refine) {
+            const refined = await runRefineSession(task, breakdown, strategy);
+            if (refined !== breakdown) {
+                breakdown = refined;
+                if (plans) savePlan(plans, { task, breakdown, parentId: saved?.id });
+            }
+        }
+
+        // Step 7: Format and print (or write) the breakdown.
+        const output = formatBreakdown(breakdown, format);
+        if (out) {
+            writeFileSync(out, output + "\n");
+            console.error(`Wrote plan to ${out}.`);
+        } else {
+            console.log(output);
+        }
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+
+        if (error instanceof UsageError) {
+            console.error("");
+            console.error(refine ? REFINE_USAGE : PLAN_USAGE);
+        }
+
+        // Provide specific guidance for common LLM errors.
+        if (error.message && (error.message.includes("API key") || error.message.includes("LLM provider"))) {
+            console.error("");
+            console.error("Tip: Set LLM_PROVIDER and its API key (e.g. GROQ_API_KEY) in your .env file.");
+        }
+
+        return code;
+    }
+}
+
+//   Read the task description from the argument words, a file, or stdin ("-", or piped input
+//   when there are no words and `stdin` is allowed).
+export function readTaskDescription(words: string[], file: string | undefined, options: { stdin?: boolean } = {}): string {
+    if (file !== undefined && words.length > 0) {
+        throw new UsageError("Give the task either as arguments or with --file, not both");
+    }
+
+    const fromStdin = file === "-" || (file === undefined && words.length === 0 && !process.stdin.isTTY && options.stdin !== false);
+
+    let text = words.join(" ");
+    if (fromStdin) {
+        text = readFileSync(0, "utf-8");
+    } else if (file !== undefined) {
+        try {
+            text = readFileSync(file, "utf-8");
+        } catch (error: any) {
+            throw new InputError(`Cannot read task file ${file}: ${error.code === "ENOENT" ? "no such file" : error.message}`);
+        }
+    }
+
+    text = text.trim();
+    if (!text) {
+        throw fromStdin || file !== undefined
+            ? new InputError(`No task description in ${fromStdin ? "stdin" : file}`)
+            : new UsageError("No task description given");
+    }
+    return text;
+}
+
+//   Read a stack trace or error log from a file or stdin ("-").
+//   Throws InputError if it cannot be read or holds neither stack frames nor an error line.
+export function readTrace(file: string): string {
+    let text: string;
+    try {
+        text = readFileSync(file === "-" ? 0 : file, "utf-8");
+    } catch (error: any) {
+        throw new InputError(`Cannot read stack trace ${file}: ${error.code === "ENOENT" ? "no such file" : error.message}`);
+    }
+
+    if (!parseStackTrace(text)) {
+        throw new InputError(`No stack trace or error found in ${file === "-" ? "stdin" : file}`);
+    }
+    return text;
+}
+
+//   One status line for the LLM calls behind a plan, e.g. "LLM usage: 150 tokens (100 prompt + 50 completion), 1.2s, ~$0.0001".
+//   Calls asking for a corrected plan are added in and counted, e.g. "..., 2 calls (1 repair)".
+function describeUsage(first: LLMCallUsage, repairs: RepairAttempt[] = []): string {
+    const calls = [first, ...repairs.flatMap(repair => repair.usage ? [repair.usage] : [])];
+    const sum = (pick: (usage: LLMCallUsage) => number) => calls.reduce((total, usage) => total + pick(usage), 0);
+    const promptTokens = sum(usage => usage.promptTokens);
+    const completionTokens = sum(usage => usage.completionTokens);
+    const retryCount = sum(usage => usage.retries);
+    const costs = calls.filter(usage => usage.cost !== undefined);
+
+    const repaired = calls.length > 1 ? `, ${calls.length} calls (${calls.length - 1} ${calls.length === 2 ? "repair" : "repairs"})` : "";
+    const retries = retryCount > 0 ? `, ${retryCount} ${retryCount === 1 ? "retry" : "retries"}` : "";
+    const cost = costs.length > 0 ? `, ~$${costs.reduce((total, usage) => total + usage.cost!, 0).toFixed(4)}` : "";
+    return `LLM usage: ${promptTokens + completionTokens} tokens (${promptTokens} prompt + ${completionTokens} completion), ${(sum(usage => usage.latencyMs) / 1000).toFixed(1)}s${repaired}${retries}${cost}`;
+}
+
+//   Split the options from the words of the task description; "--" ends the options.
+//   Without words or --file, piped stdin is read as the task.
+function parseArgs(args: string[], refine: boolean): PlanArgs {
+    const words: string[] = [];
+    const flags: Record<string, ConfigValue> = {};
+    let offline = false;
+    let out: string | undefined;
+    let file: string | undefined;
+    let trace: string | undefined;
+
+    const value = (option: string, next: string | undefined): string => {
+        if (next === undefined) throw new UsageError(`${option} needs a value`);
+        return next;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const [name, inline] = arg.startsWith("--") && arg.includes("=") ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)] : [arg, undefined];
+        const next = () => inline ?? value(name, args[++i]);
+
+        if (name === "--") {
+            words.push(...args.slice(i + 1));
+            break;
+        } else if (name === "--format" || name === "-f") {
+            flags.format = next();
+        } else if (name === "--strategy" || name === "-s") {
+            flags.strategy = next();
+        } else if (name === "--model" || name === "-m") {
+            flags["llm.model"] = next();
+        } else if (name === "--profile") {
+            flags.profile = next();
+        } else if (name === "--out" || name === "-o") {
+            out = next();
+        } else if (name === "--file" || name === "-i") {
+            file = next();
+        } else if (name === "--trace") {
+            trace = next();
+        } else if (name === "--no-cache") {
+            flags["cache.enabled"] = false;
+        } else if (name === "--no-stream") {
+            flags["llm.stream"] = false;
+        } else if (name === "--offline") {
+            offline = true;
+        } else if (name === "--no-save") {
+            flags["plans.save"] = false;
+        } else if (name.startsWith("-") && name !== "-") {
+            throw new UsageError(`Unknown option "${name}"`);
+        } else {
+            words.push(arg);
+        }
+    }
+
+    // The refinement session reads its commands from stdin, so the task cannot come from there.
+    if (refine && file === "-") {
+        throw new UsageError("refine reads commands from stdin; give the task as arguments or with --file <path>");
+    }
+    if (refine && trace === "-") {
+        throw new UsageError("refine reads commands from stdin; give the stack trace with --trace <path>");
+    }
+    if (file === "-" && trace === "-") {
+        throw new UsageError("--file and --trace cannot both read stdin");
+    }
+
+    // With a stack trace the description is optional; it defaults to the error line.
+    const traceText = trace !== undefined ? readTrace(trace) : undefined;
+    const taskDescription = traceText !== undefined && words.length === 0 && file === undefined
+        ? ""
+        : readTaskDescription(words, file, { stdin: !refine && trace !== "-" });
+
+    return { taskDescription, trace: traceText, offline, out, flags };
+}
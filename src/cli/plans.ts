@@ -0,0 +1,213 @@
+//   "plans" command: browse the history of generated plans.
+//
+//   Plans are saved to the plans.dir setting (default .traycer/plans) unless --no-save is given.
+//   Steps of a saved plan are tracked with start/done/skip/block/reset, note and progress.
+
+import { StepStatus } from "../types/analysis";
+import {
+    AnalyzerConfig,
+    resolveConfig,
+    FilePlanRepository,
+    PlanRepository,
+    NewPlan,
+    StoredPlan,
+    formatBreakdown,
+    listFormats,
+    diffBreakdowns,
+    formatPlanDiff,
+    setStepStatus,
+    addStepNote,
+    statusOf,
+    readySteps,
+    computeProgress,
+    describeProgress,
+} from "../core";
+import { EXIT_CODES, InputError, reportError } from "./errors";
+
+export const PLANS_USAGE = [
+    "Usage: npm run start:cli plans <list | show <id> [--format <format>] | diff <a> <b> | delete <id...>>",
+    "       npm run start:cli plans <start|done|skip|block|reset> <id> <step> [--force] [note]",
+    "       npm run start:cli plans note <id> <step> <text>",
+    "       npm run start:cli plans progress <id>",
+].join("\n");
+
+// Status change actions and the status each one sets.
+const STATUS_ACTIONS: Record<string, StepStatus> = {
+    start: "in-progress",
+    done: "done",
+    skip: "skipped",
+    block: "blocked",
+    reset: "pending",
+};
+
+//   Build the plan repository from the plans.dir setting (or ANALYZER_PLANS_DIR).
+export function createPlanRepository(config: AnalyzerConfig = resolveConfig().config): PlanRepository {
+    return new FilePlanRepository(config.plans.dir);
+}
+
+//   Save a plan and report its id on stderr.
+export function savePlan(repository: PlanRepository, plan: NewPlan): StoredPlan {
+    const stored = repository.save(plan);
+    const refined = stored.parentId ? ` (refined from ${stored.parentId})` : "";
+    console.error(`Saved plan ${stored.id}${refined}.`);
+    return stored;
+}
+
+//   Run "plans <action> ..." (see PLANS_USAGE) and return the process exit code.
+export function runPlansCommand(args: string[]): number {
+    const action = args[0] || "list";
+
+    try {
+        const repository = createPlanRepository();
+
+        switch (action) {
+            case "list": {
+                const plans = repository.list();
+                if (plans.length === 0) {
+                    console.log("No saved plans.");
+                    return 0;
+                }
+                for (const plan of plans) {
+                    const model = plan.model ? `/${plan.model}` : "";
+                    const parent = plan.parentId ? `  (refined from ${plan.parentId})` : "";
+                    const progress = plan.percent !== undefined ? `, ${plan.percent}% done` : "";
+                    console.log(`${plan.id}  ${plan.createdAt}  ${plan.strategy ?? "unknown"}${model}  ${plan.steps} steps${progress}${parent}`);
+                    console.log(`    ${plan.taskDescription}`);
+                }
+                return 0;
+            }
+            case "show": {
+                const { ids, format } = parseShowArgs(args.slice(1));
+                if (ids.length !== 1) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                if (!listFormats().includes(format.toLowerCase())) {
+                    console.error(`Unknown format "${format}". Available formats: ${listFormats().join(", ")}`);
+                    return EXIT_CODES.usage;
+                }
+
+                const plan = findPlan(repository, ids[0]);
+
+                // Metadata goes to stderr so stdout carries only the formatted plan.
+                console.error(`Plan ${plan.id}, created ${plan.createdAt}`);
+                console.error(`Strategy: ${plan.strategy ?? "unknown"}${plan.model ? ` (${plan.model})` : ""}`);
+                console.error(`Task type: ${plan.task.type}, scope: ${plan.task.scope}`);
+                if (plan.parentId) console.error(`Refined from: ${plan.parentId}`);
+                console.log(formatBreakdown(plan.breakdown, format));
+                return 0;
+            }
+            case "diff": {
+                if (args.length !== 3) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                const before = findPlan(repository, args[1]);
+                const after = findPlan(repository, args[2]);
+                console.log(`Plan ${before.id} -> ${after.id}`);
+                console.log(formatPlanDiff(diffBreakdowns(before.breakdown, after.breakdown)));
+                return 0;
+            }
+            case "delete": {
+                const ids = args.slice(1);
+                if (ids.length === 0) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                // Resolve every id first so a typo does not leave a partial deletion.
+                const plans = ids.map(id => findPlan(repository, id));
+                plans.forEach(plan => repository.delete(plan.id));
+                console.log(`Deleted ${plans.length} plan(s).`);
+                return 0;
+            }
+            case "start":
+            case "done":
+            case "skip":
+            case "block":
+            case "reset": {
+                const { id, stepId, text, force } = parseStepArgs(args.slice(1));
+                if (!id || stepId === undefined) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                const plan = findPlan(repository, id);
+                const breakdown = setStepStatus(plan.breakdown, stepId, STATUS_ACTIONS[action], { note: text, force });
+                repository.update(plan.id, breakdown);
+                console.log(`Step ${stepId} is now ${STATUS_ACTIONS[action]}. ${describeProgress(computeProgress(breakdown))}.`);
+                return 0;
+            }
+            case "note": {
+                const { id, stepId, text } = parseStepArgs(args.slice(1));
+                if (!id || stepId === undefined || !text) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                const plan = findPlan(repository, id);
+                repository.update(plan.id, addStepNote(plan.breakdown, stepId, text));
+                console.log(`Added a note to step ${stepId}.`);
+                return 0;
+            }
+            case "progress": {
+                if (args.length !== 2) {
+                    console.error(PLANS_USAGE);
+                    return EXIT_CODES.usage;
+                }
+                const plan = findPlan(repository, args[1]);
+                const breakdown = plan.breakdown;
+
+                console.log(`Plan ${plan.id}: ${breakdown.taskDescription}`);
+                console.log(describeProgress(computeProgress(breakdown)));
+                console.log("");
+                for (const step of breakdown.steps) {
+                    console.log(`  ${step.id}. [${statusOf(step)}] ${step.title}`);
+                }
+
+                const ready = readySteps(breakdown);
+                if (ready.length > 0) {
+                    console.log("");
+                    console.log(`Ready to start: ${ready.map(s => `step ${s.id}`).join(", ")}`);
+                }
+                return 0;
+            }
+            default:
+                console.error(`Unknown plans action "${action}".\n${PLANS_USAGE}`);
+                return EXIT_CODES.usage;
+        }
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
+
+function findPlan(repository: PlanRepository, id: string): StoredPlan {
+    const plan = repository.get(id);
+    if (!plan) {
+        throw new InputError(`No saved plan with id "${id}"`);
+    }
+    return plan;
+}
+
+//   Parse "<id> <step> [--force] [note words...]".
+function parseStepArgs(args: string[]): { id?: string; stepId?: number; text?: string; force: boolean } {
+    const force = args.includes("--force");
+    const [id, step, ...words] = args.filter(arg => arg !== "--force");
+    const stepId = step !== undefined && /^\d+$/.test(step) ? Number(step) : undefined;
+
+    return { id, stepId, text: words.join(" ") || undefined, force };
+}
+
+function parseShowArgs(args: string[]): { ids: string[]; format: string } {
+    const ids: string[] = [];
+    let format = "text";
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--format" || args[i] === "-f") {
+            format = args[++i] || format;
+        } else if (args[i].startsWith("--format=")) {
+            format = args[i].slice("--format=".length);
+        } else {
+            ids.push(args[i]);
+        }
+    }
+
+    return { ids, format };
+}
@@ -0,0 +1,63 @@
+//   "refine" command: an interactive session that revises a plan from follow-up instructions.
+//
+//   Edit commands (remove, move, insert, add, edit) work with every strategy; other instructions
+//   are sent to the LLM with the conversation so far. The diff against the previous version is
+//   shown after each change, and the final plan is returned for the CLI to save and print.
+
+import * as readline from "readline";
+import { Task, TaskBreakdown, AnalyzerStrategy } from "../types/analysis";
+import { formatBreakdown, formatPlanDiff, RefinementSession, isPlanRefiner, EDIT_COMMAND_HELP } from "../core";
+
+const SESSION_HELP = [
+    "show                                            Print the current plan",
+    "undo                                            Revert the last change",
+    "done | exit | quit                              Finish and print the final plan",
+].join("\n");
+
+//   Run the refinement loop on stdin until "done" (or end of input).
+//   Returns the final plan, which is `initial` itself when nothing was changed.
+export async function runRefineSession(task: Task, initial: TaskBreakdown, strategy: AnalyzerStrategy): Promise<TaskBreakdown> {
+    const session = new RefinementSession(task, initial, isPlanRefiner(strategy) ? strategy : undefined);
+
+    // Everything except the final plan goes to stderr so stdout can be redirected.
+    console.error(formatBreakdown(initial, "text"));
+    console.error("");
+    console.error(session.canRefineFreely
+        ? "Describe a change, or use an edit command. Type \"help\" for the list."
+        : "Templates only: use edit commands. Type \"help\" for the list.");
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: Boolean(process.stdin.isTTY) });
+    rl.setPrompt("refine> ");
+    rl.prompt();
+
+    for await (const line of rl) {
+        const input = line.trim();
+
+        if (["done", "exit", "quit"].includes(input.toLowerCase())) {
+            break;
+        }
+
+        if (input === "") {
+            // Nothing to do.
+        } else if (input.toLowerCase() === "help") {
+            console.error(`${EDIT_COMMAND_HELP}\n${SESSION_HELP}`);
+        } else if (input.toLowerCase() === "show") {
+            console.error(formatBreakdown(session.current, "text"));
+        } else if (input.toLowerCase() === "undo") {
+            console.error(session.undo() ? `Reverted to version ${session.versionCount}.` : "Nothing to undo.");
+        } else {
+            try {
+                const { diff } = await session.apply(input);
+                console.error(formatPlanDiff(diff));
+                console.error(`Version ${session.versionCount}.`);
+            } catch (error: any) {
+                console.error("Error:", error.message || error);
+            }
+        }
+
+        rl.prompt();
+    }
+
+    rl.close();
+    return session.current;
+}
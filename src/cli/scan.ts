@@ -0,0 +1,142 @@
+//   "scan" command: find TODO, FIXME and HACK comments and turn them into tasks or plans.
+//
+//   Lists every marker with its location, enclosing function or class and task type. With --plan
+//   each marker (or each file with --group file) is planned with the configured strategy, the
+//   marker's file is put into the plan's steps, and the plans are saved like "plan" does.
+
+import { TaskBreakdown } from "../types/analysis";
+import {
+    Analyzer, ConfigValue, MarkerGroup, MarkerGrouping, MarkerKind, MARKER_KINDS,
+    resolveConfig, indexWorkspace, scanMarkers, groupMarkers, prefillMarkerFile, formatBreakdown, listFormats,
+} from "../core";
+import { createStrategy } from "./strategy";
+import { createPlanCache } from "./cache";
+import { createUsageLog } from "./usage";
+import { createPlanLinter } from "./lint";
+import { createPlanRepository, savePlan } from "./plans";
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+
+export const SCAN_USAGE = [
+    "Usage: npm run start:cli scan [<directory>] [options]",
+    "",
+    "Options:",
+    "      --markers <list>     Marker words to look for (default TODO,FIXME,HACK)",
+    "      --group marker|file  One task per marker (default) or per file",
+    "      --context <n>        Lines of code kept around each marker (default 3)",
+    "      --plan               Plan each task with the configured strategy",
+    "  -s, --strategy <name>    Strategy for --plan: Hardcoded, LLM, Fallback or Ensemble",
+    "  -f, --format <format>    text or json; with --plan any plan format (text, markdown, json, ...)",
+    "      --no-cache           Do not read or write the LLM plan cache",
+    "      --no-save            Do not save the plans to the plan history",
+    "",
+    "The directory defaults to the workspace setting, or the current directory.",
+].join("\n");
+
+//   Run "scan" and return the process exit code.
+export async function runScanCommand(args: string[]): Promise<number> {
+    const flags: Record<string, ConfigValue> = {};
+    let directory: string | undefined;
+    let markers: MarkerKind[] = MARKER_KINDS;
+    let group: MarkerGrouping = "marker";
+    let contextLines = 3;
+    let plan = false;
+    let format: string | undefined;
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--markers") markers = parseMarkers(args[++i] ?? "");
+            else if (arg === "--group") group = args[++i] as MarkerGrouping;
+            else if (arg === "--context") contextLines = Number(args[++i]);
+            else if (arg === "--plan") plan = true;
+            else if (arg === "--strategy" || arg === "-s") flags.strategy = args[++i] ?? "";
+            else if (arg === "--format" || arg === "-f") format = args[++i] ?? "";
+            else if (arg === "--no-cache") flags["cache.enabled"] = false;
+            else if (arg === "--no-save") flags["plans.save"] = false;
+            else if (arg.startsWith("-")) throw new UsageError(`Unknown option "${arg}"`);
+            else if (directory === undefined) directory = arg;
+            else throw new UsageError(`Unexpected argument "${arg}"`);
+        }
+        if (group !== "marker" && group !== "file") {
+            throw new UsageError(`--group takes marker or file, not "${group}"`);
+        }
+        if (!Number.isInteger(contextLines) || contextLines < 0) {
+            throw new UsageError("--context needs a whole number of lines");
+        }
+        const formats = plan ? listFormats() : ["text", "json"];
+        if (format !== undefined && !formats.includes(format.toLowerCase())) {
+            throw new UsageError(`Unknown format "${format}" (expected ${formats.join(", ")})`);
+        }
+
+        // Step 1: Find the markers and group them into tasks.
+        const { config, prices } = resolveConfig({ flags });
+        const root = directory ?? (config.workspace || process.cwd());
+        const groups = groupMarkers(scanMarkers(root, { markers, contextLines }), group);
+        const markerCount = groups.reduce((sum, g) => sum + g.markers.length, 0);
+        const fileCount = new Set(groups.map(g => g.file)).size;
+        console.error(`Found ${markerCount} ${markerCount === 1 ? "marker" : "markers"} in ${fileCount} ${fileCount === 1 ? "file" : "files"}.`);
+
+        if (!plan) {
+            printGroups(groups, group, format ?? "text");
+            return EXIT_CODES.ok;
+        }
+
+        // Step 2: Plan every group with the configured strategy, grounded in the scanned directory.
+        const strategy = createStrategy(config.strategy, {
+            workspace: indexWorkspace(root),
+            cache: config.cache.enabled ? createPlanCache(config) : undefined,
+            llm: config.llm,
+            usageLog: createUsageLog(config),
+            prices,
+        });
+        const analyzer = new Analyzer(strategy, { linter: createPlanLinter(config) });
+        const plans = config.plans.save ? createPlanRepository(config) : undefined;
+
+        const results: Array<{ group: MarkerGroup; breakdown: TaskBreakdown; planId?: string }> = [];
+        for (const current of groups) {
+            const breakdown = prefillMarkerFile(await analyzer.runAsync(current.task), current);
+            const saved = plans && savePlan(plans, { task: current.task, breakdown });
+            results.push({ group: current, breakdown, planId: saved?.id });
+        }
+
+        // Step 3: Print the plans, one after the other (or as one JSON array).
+        if ((format ?? config.format).toLowerCase() === "json") {
+            console.log(JSON.stringify(results.map(({ group: g, breakdown, planId }) => ({ id: g.id, task: g.task, markers: g.markers, breakdown, planId })), null, 2));
+        } else {
+            console.log(results.map(result => formatBreakdown(result.breakdown, format ?? config.format)).join("\n\n"));
+        }
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(SCAN_USAGE);
+        return code;
+    }
+}
+
+//   List the markers, paths relative to the scanned directory; with --group file, under their file's task.
+function printGroups(groups: MarkerGroup[], grouping: MarkerGrouping, format: string): void {
+    if (format === "json") {
+        console.log(JSON.stringify(groups, null, 2));
+        return;
+    }
+
+    for (const group of groups) {
+        if (grouping === "file") console.log(`${group.file}  ${group.task.type}  ${group.task.description}`);
+        for (const marker of group.markers) {
+            const indent = grouping === "file" ? "  " : "";
+            const symbol = marker.symbol ? `  (${marker.symbol.kind} ${marker.symbol.name})` : "";
+            const type = grouping === "marker" ? `  -> ${group.task.type}` : "";
+            console.log(`${indent}${marker.file}:${marker.line}  ${marker.kind}  ${marker.text || "(no text)"}${symbol}${type}`);
+        }
+    }
+}
+
+// "todo,FIXME" -> ["TODO", "FIXME"]
+function parseMarkers(value: string): MarkerKind[] {
+    const markers = value.split(",").map(part => part.trim().toUpperCase()).filter(Boolean);
+    const unknown = markers.filter(marker => !MARKER_KINDS.includes(marker as MarkerKind));
+    if (markers.length === 0 || unknown.length > 0) {
+        throw new UsageError(`--markers takes a comma-separated list of ${MARKER_KINDS.join(", ")}`);
+    }
+    return markers as MarkerKind[];
+}
@@ -0,0 +1,96 @@
+//   Strategy selection shared by the CLI commands.
+
+import { AnalyzerStrategy, WorkspaceIndex } from "../types/analysis";
+import { PlanCache, LLMSettings, StrategyName, UsageLog, PriceTable, resolveConfig } from "../core";
+import { createProvider, loadLLMConfig } from "../providers";
+import { LLMStrategy } from "../strategies/LLMStrategy";
+import { HardcodedStrategy } from "../strategies/HardcodedStrategy";
+import { CompositeStrategy } from "../strategies/CompositeStrategy";
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+
+export interface StrategySettings {
+    workspace?: WorkspaceIndex;
+    cache?: PlanCache;       // Omitted when --no-cache is given.
+    offline?: boolean;       // Replay LLM plans from the cache only.
+    llm?: LLMSettings;       // Resolved LLM settings (default: resolve the configuration).
+    usageLog?: UsageLog;     // Log LLM calls and enforce the daily budget (omitted when usage logging is off).
+    prices?: PriceTable;     // Model prices for cost estimates.
+}
+
+// The strategies createStrategy can build.
+export const STRATEGIES: Array<{ name: StrategyName; description: string; usesLLM: boolean }> = [
+    { name: "Hardcoded", description: "Template-based plans, no API key needed", usesLLM: false },
+    { name: "LLM", description: "AI-powered plans from the configured provider", usesLLM: true },
+    { name: "Fallback", description: "LLM first, templates when the LLM fails", usesLLM: true },
+    { name: "Ensemble", description: "Merges the LLM and template plans", usesLLM: true },
+];
+
+//   Build the strategy named by the "strategy" setting (Hardcoded, LLM, Fallback, Ensemble).
+//   Status messages go to stderr so stdout only carries the formatted plan.
+export function createStrategy(strategyType: string, settings: StrategySettings): AnalyzerStrategy {
+    const { workspace, cache, offline, llm, usageLog, prices } = settings;
+
+    // Offline replays never reach the provider, so a missing API key is fine.
+    const createLLMStrategy = () => new LLMStrategy({
+        workspace,
+        cache,
+        offline,
+        stream: llm?.stream ?? true,
+        maxRepairs: llm?.maxRepairs,
+        usageLog,
+        prices,
+        strategyName: strategyType,
+        provider: createProvider(loadLLMConfig({ requireApiKey: !offline, settings: llm })),
+    });
+
+    if (strategyType === "LLM") {
+        const llmStrategy = createLLMStrategy();
+        console.error(`Using LLM strategy (${llmStrategy.describe()})...`);
+        return llmStrategy;
+    }
+
+    // "Fallback" tries the LLM first and falls back to templates; "Ensemble" merges both plans.
+    if (strategyType === "Fallback" || strategyType === "Ensemble") {
+        const chain: AnalyzerStrategy[] = [];
+        try {
+            chain.push(createLLMStrategy());
+        } catch (error: any) {
+            // A missing API key should not stop the template plan from being produced.
+            console.error(`LLM strategy unavailable (${error.message}); using templates only.`);
+        }
+        chain.push(new HardcodedStrategy({ workspace }));
+
+        const composite = new CompositeStrategy(chain, { mode: strategyType === "Ensemble" ? "ensemble" : "fallback" });
+        console.error(`Using ${composite.name} strategy...`);
+        return composite;
+    }
+
+    console.error("Using Hardcoded strategy (templates)...");
+    return new HardcodedStrategy({ workspace });
+}
+
+//   Run "strategies": list the registered strategies, marking the configured one,
+//   and say which LLM the LLM-based ones would use.
+export function runStrategiesCommand(args: string[]): number {
+    try {
+        if (args.length > 0) throw new UsageError("Usage: npm run start:cli strategies");
+
+        const { config } = resolveConfig();
+        for (const strategy of STRATEGIES) {
+            const marker = strategy.name === config.strategy ? "*" : " ";
+            const uses = strategy.usesLLM ? " (uses the LLM)" : "";
+            console.log(`${marker} ${strategy.name.padEnd(10)} ${strategy.description}${uses}`);
+        }
+
+        try {
+            const llm = loadLLMConfig({ settings: config.llm });
+            console.log(`LLM: ${llm.provider}, ${llm.model}`);
+        } catch (error: any) {
+            console.log(`LLM: unavailable (${error.message})`);
+        }
+        console.error("* = configured strategy; change it with --strategy, ANALYZER_STRATEGY or the strategy setting.");
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
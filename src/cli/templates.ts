@@ -0,0 +1,100 @@
+//   "templates" command: list the plan templates and preview one.
+//
+//   Templates come from the built-in packs (src/templates) and the project's .traycer/templates,
+//   where a template with the same name replaces the built-in one. A preview prints the raw steps,
+//   or renders them for a sample task with --task.
+
+import { PlanTemplate } from "../types/analysis";
+import { loadTemplates, listBuiltInPacks, renderTemplate, parseTask, resolveConfig } from "../core";
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+
+export const TEMPLATES_USAGE = [
+    "Usage: npm run start:cli templates list [--pack <name>]",
+    "       npm run start:cli templates show <name> [--pack <name>] [--task <description>] [--format text|json]",
+].join("\n");
+
+//   Run "templates <list|show>" and return the process exit code.
+export function runTemplatesCommand(args: string[]): number {
+    const action = args[0] || "list";
+    const positional: string[] = [];
+    const packs: string[] = [];
+    let sampleTask: string | undefined;
+    let format = "text";
+
+    try {
+        for (let i = 1; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--pack") packs.push(args[++i] ?? "");
+            else if (arg === "--task") sampleTask = args[++i] ?? "";
+            else if (arg === "--format" || arg === "-f") format = args[++i] ?? "";
+            else if (arg.startsWith("-")) throw new UsageError(`Unknown option "${arg}"`);
+            else positional.push(arg);
+        }
+        if (!["text", "json"].includes(format)) {
+            throw new UsageError(`Unknown format "${format}" (expected text or json)`);
+        }
+
+        const { config } = resolveConfig();
+        const templates = loadTemplates({
+            projectRoot: config.workspace || process.cwd(),
+            packs: packs.length > 0 ? packs : undefined,
+        });
+
+        switch (action) {
+            case "list": {
+                if (positional.length > 0) throw new UsageError("templates list takes no arguments");
+
+                for (const template of templates) {
+                    const types = template.match?.types?.join(", ") || "manual only";
+                    console.log(`${template.name.padEnd(20)} ${String(template.steps.length).padStart(2)} steps  [${types}]  ${template.description ?? ""}`.trimEnd());
+                }
+                console.error(`${templates.length} templates (built-in packs: ${listBuiltInPacks().join(", ")}).`);
+                return EXIT_CODES.ok;
+            }
+            case "show": {
+                if (positional.length !== 1) throw new UsageError("templates show needs exactly one template name");
+
+                const template = templates.find(t => t.name === positional[0]);
+                if (!template) {
+                    throw new UsageError(`Unknown template "${positional[0]}". Available templates: ${templates.map(t => t.name).join(", ")}`);
+                }
+
+                console.log(format === "json" ? JSON.stringify(previewJSON(template, sampleTask), null, 2) : previewText(template, sampleTask));
+                return EXIT_CODES.ok;
+            }
+            default:
+                throw new UsageError(`Unknown templates action "${action}"`);
+        }
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(TEMPLATES_USAGE);
+        return code;
+    }
+}
+
+// The template as loaded, plus its steps rendered for the sample task when one is given.
+function previewJSON(template: PlanTemplate, sampleTask?: string): object {
+    return sampleTask ? { ...template, rendered: renderTemplate(template, parseTask(sampleTask)) } : template;
+}
+
+function previewText(template: PlanTemplate, sampleTask?: string): string {
+    const lines = [`Template: ${template.name}`];
+    if (template.description) lines.push(`Description: ${template.description}`);
+    if (template.match?.types?.length) lines.push(`Types: ${template.match.types.join(", ")}`);
+    if (template.match?.keywords?.length) lines.push(`Keywords: ${template.match.keywords.join(", ")}`);
+    if (template.priority !== undefined) lines.push(`Priority: ${template.priority}`);
+    if (template.source) lines.push(`Source: ${template.source}`);
+
+    // Raw steps keep their {{placeholders}}; with a sample task they are rendered like a real plan.
+    const steps = sampleTask ? renderTemplate(template, parseTask(sampleTask)) : template.steps;
+    lines.push("");
+    lines.push(sampleTask ? `Steps for "${sampleTask}":` : "Steps:");
+    for (const step of steps) {
+        const deps = step.dependsOn?.length ? ` (after ${step.dependsOn.join(", ")})` : "";
+        lines.push(`Step ${step.id}: ${step.title}${deps}`);
+        lines.push(`  ${step.description}`);
+        if (step.files.length > 0) lines.push(`  Files: ${step.files.join(", ")}`);
+    }
+
+    return lines.join("\n");
+}
@@ -0,0 +1,106 @@
+//   "usage" command: token usage, latency and estimated cost of LLM calls from the usage log.
+//
+//   Every LLM call is appended to the usage log (usage.file, default .traycer/usage.jsonl).
+//   This command totals the log by day, model and strategy, or any subset with --by, and shows
+//   today's spending against the daily budget (usage.dailyBudget, or ANALYZER_DAILY_BUDGET).
+
+import { AnalyzerConfig, UsageLog, UsageDimension, UsageSummary, USAGE_DIMENSIONS, resolveConfig, summarizeUsage } from "../core";
+import { EXIT_CODES, UsageError, reportError } from "./errors";
+
+export const USAGE_USAGE = "Usage: npm run start:cli usage [--by day,model,strategy] [--since <YYYY-MM-DD>] [--format text|json]";
+
+//   Build the usage log from the usage settings; undefined when usage logging is off.
+export function createUsageLog(config: AnalyzerConfig = resolveConfig().config): UsageLog | undefined {
+    if (!config.usage.enabled) return undefined;
+    return new UsageLog({ file: config.usage.file, dailyBudget: config.usage.dailyBudget });
+}
+
+//   Run "usage" and return the process exit code.
+export function runUsageCommand(args: string[]): number {
+    let by: UsageDimension[] = USAGE_DIMENSIONS;
+    let since: string | undefined;
+    let format = "text";
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--by") by = parseDimensions(args[++i] ?? "");
+            else if (arg === "--since") since = args[++i] ?? "";
+            else if (arg === "--format" || arg === "-f") format = args[++i] ?? "";
+            else throw new UsageError(`Unknown argument "${arg}"`);
+        }
+        if (since !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+            throw new UsageError(`--since needs a date like 2026-01-31, not "${since}"`);
+        }
+        if (!["text", "json"].includes(format)) {
+            throw new UsageError(`Unknown format "${format}" (expected text or json)`);
+        }
+
+        // Step 1: Read the log, keeping the records from --since on (UTC days).
+        const { config } = resolveConfig();
+        const log = new UsageLog({ file: config.usage.file, dailyBudget: config.usage.dailyBudget });
+        const records = log.read().filter(record => !since || record.timestamp.slice(0, 10) >= since);
+
+        // Step 2: Total them per group.
+        const summaries = summarizeUsage(records, by);
+        const total = summarizeUsage(records, [])[0];
+        const today = log.spentOn();
+
+        // Step 3: Print the table (or JSON) with the totals and the budget.
+        if (format === "json") {
+            console.log(JSON.stringify({ groups: summaries, total: total ?? null, today, dailyBudget: log.dailyBudget }, null, 2));
+            return EXIT_CODES.ok;
+        }
+
+        if (records.length === 0) {
+            console.log(`No LLM calls logged${since ? ` since ${since}` : ""} (${log.file}).`);
+        } else {
+            console.log(formatUsageTable(summaries, by));
+            console.log("");
+            console.log(`Total: ${total.calls} calls, ${total.promptTokens + total.completionTokens} tokens, ${formatCost(total.cost)}`);
+        }
+        console.log(log.dailyBudget > 0
+            ? `Today: ${formatCost(today)} of the ${formatCost(log.dailyBudget)} daily budget`
+            : `Today: ${formatCost(today)} (no daily budget)`);
+        return EXIT_CODES.ok;
+    } catch (error: any) {
+        const code = reportError(error);
+        if (error instanceof UsageError) console.error(USAGE_USAGE);
+        return code;
+    }
+}
+
+// "day,model" -> ["day", "model"]
+function parseDimensions(value: string): UsageDimension[] {
+    const dimensions = value.split(",").map(part => part.trim()).filter(Boolean);
+    const unknown = dimensions.filter(dimension => !USAGE_DIMENSIONS.includes(dimension as UsageDimension));
+    if (dimensions.length === 0 || unknown.length > 0) {
+        throw new UsageError(`--by takes a comma-separated list of ${USAGE_DIMENSIONS.join(", ")}`);
+    }
+    return dimensions as UsageDimension[];
+}
+
+function formatUsageTable(summaries: UsageSummary[], by: UsageDimension[]): string {
+    const header = [...by.map(dimension => dimension.toUpperCase()), "CALLS", "PROMPT", "COMPLETION", "COST", "LATENCY", "RETRIES"];
+    const rows = summaries.map(summary => [
+        ...by.map(dimension => summary.group[dimension] ?? ""),
+        String(summary.calls),
+        String(summary.promptTokens),
+        String(summary.completionTokens),
+        formatCost(summary.cost),
+        `${(summary.latencyMs / 1000).toFixed(1)}s`,
+        String(summary.retries),
+    ]);
+
+    // Group columns are left-aligned, numbers right-aligned.
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells
+        .map((cell, column) => column < by.length ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+        .join("  ");
+
+    return [line(header), ...rows.map(line)].join("\n");
+}
+
+function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost >= 1 ? 2 : 4)}`;
+}
@@ -0,0 +1,77 @@
+//   "verify" command: check a saved plan against the changes in git.
+//
+//   Compares the planned files of every step with the files changed in a git range
+//   (e.g. main..HEAD) or, without a range, in the working tree. With --judge the LLM
+//   also decides per step whether the diff does what the step describes.
+//   Exits with 1 when a planned file was not touched.
+
+import { StepJudge, resolveConfig, getChangedFiles, getDiff, verifyPlan, formatVerificationReport } from "../core";
+import { LLMStrategy } from "../strategies/LLMStrategy";
+import { createPlanRepository } from "./plans";
+import { createUsageLog } from "./usage";
+import { EXIT_CODES, InputError, reportError } from "./errors";
+
+export const VERIFY_USAGE = "Usage: npm run start:cli verify <plan id> [<git range>] [--judge] [--format text|json]";
+
+//   Run "verify" and return the process exit code.
+export async function runVerifyCommand(args: string[]): Promise<number> {
+    const positional: string[] = [];
+    let judge = false;
+    let format = "text";
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--judge") {
+            judge = true;
+        } else if (args[i] === "--format" || args[i] === "-f") {
+            format = args[++i] || format;
+        } else if (args[i].startsWith("--format=")) {
+            format = args[i].slice("--format=".length);
+        } else {
+            positional.push(args[i]);
+        }
+    }
+
+    const [planId, range] = positional;
+    if (!planId || positional.length > 2 || !["text", "json"].includes(format)) {
+        console.error(VERIFY_USAGE);
+        return EXIT_CODES.usage;
+    }
+
+    try {
+        // Step 1: Load the plan.
+        const { config, prices } = resolveConfig();
+        const plan = createPlanRepository(config).get(planId);
+        if (!plan) {
+            throw new InputError(`No saved plan with id "${planId}"`);
+        }
+
+        // Step 2: Read the changes from the workspace the plan's paths are relative to.
+        const root = config.workspace || process.cwd();
+        const changes = getChangedFiles(root, range);
+        console.error(`Verifying plan ${plan.id} against ${range ? `git range ${range}` : "the working tree"} (${changes.length} changed files)...`);
+
+        // Step 3: Match planned files with changed files.
+        const report = verifyPlan(plan.breakdown, changes);
+
+        // Step 4: Optionally let the LLM judge each step that touched something.
+        if (judge) {
+            const judgeStrategy: StepJudge = new LLMStrategy({ usageLog: createUsageLog(config), prices });
+            for (const result of report.steps) {
+                if (result.skipped || result.touched.length === 0) continue;
+
+                const step = plan.breakdown.steps.find(s => s.id === result.stepId)!;
+                try {
+                    result.judgment = await judgeStrategy.judgeStep(step, getDiff(root, result.touched, range));
+                } catch (error: any) {
+                    console.error(`Could not judge step ${step.id}: ${error.message || error}`);
+                }
+            }
+        }
+
+        // Step 5: Print the report.
+        console.log(format === "json" ? JSON.stringify(report, null, 2) : formatVerificationReport(report));
+        return report.complete ? 0 : 1;
+    } catch (error: any) {
+        return reportError(error);
+    }
+}
@@ -1,11 +1,29 @@
-import { AnalyzerStrategy, Task, TaskBreakdown } from "../types/analysis";
+import { AnalyzerStrategy, Step, Task, TaskBreakdown } from "../types/analysis";
 import { HardcodedStrategy } from "../strategies/HardcodedStrategy";
+import { computeWaves, findGraphProblems } from "./graph";
+import { PlanLinter } from "./lint";
+
+// Events of Analyzer.analyzeStream: each step as it is generated, then the finished breakdown.
+export type AnalyzerEvent =
+    | { type: "step"; step: Step }
+    | { type: "done"; breakdown: TaskBreakdown };
+
+// Optional settings for the Analyzer.
+export interface AnalyzerOptions {
+    // Check (and in fix mode repair) every plan; the remaining issues are attached as `lint`.
+    linter?: PlanLinter;
+}
+
+// Lint rules that report the problems computeWaves rejects.
+const GRAPH_RULES = ["duplicate-id", "dependency-graph"];
 
 export class Analyzer {
     private strategy: AnalyzerStrategy;
+    private linter?: PlanLinter;
 
-    constructor(strategy?: AnalyzerStrategy) {
+    constructor(strategy?: AnalyzerStrategy, options: AnalyzerOptions = {}) {
         this.strategy = strategy || new HardcodedStrategy();
+        this.linter = options.linter;
     }
 
     /**
@@ -22,13 +40,20 @@ export class Analyzer {
      *   // Asynchronous (LLMStrategy)
      *   const breakdown = await analyzer.run(task);
      * 
+     * The plan is linted when a linter is configured, then the step dependency graph is validated
+     * and the parallel waves are attached.
+     *
      * @param task - The task to analyze
      * @returns TaskBreakdown or Promise<TaskBreakdown>
+     * @throws Error if the strategy produced an invalid dependency graph (and no linter reported it)
      */
     run(task: Task): TaskBreakdown | Promise<TaskBreakdown> {
-        // Delegate to the strategy's analyze method
-        // The return type is automatically handled by TypeScript's union type
-        return this.strategy.analyze(task);
+        // Delegate to the strategy's analyze method, keeping sync strategies synchronous.
+        const result = this.strategy.analyze(task);
+        if (result instanceof Promise) {
+            return result.then(breakdown => this.finalize(breakdown, task));
+        }
+        return this.finalize(result, task);
     }
 
     /**
@@ -44,7 +69,90 @@ export class Analyzer {
      */
     async runAsync(task: Task): Promise<TaskBreakdown> {
         // Promise.resolve() wraps both sync and async results in a Promise..
-        return Promise.resolve(this.strategy.analyze(task));
+        return Promise.resolve(this.run(task));
+    }
+
+    /**
+     * Run the analyzer and yield each step as soon as the strategy produces it, followed by
+     * a "done" event with the validated breakdown (the same result as runAsync).
+     * Streamed steps are a preview: the final breakdown is authoritative. Strategies that cannot
+     * stream, or that reported no steps (e.g. a cached plan), have all their steps yielded at once.
+     *
+     * Usage:
+     *   for await (const event of analyzer.analyzeStream(task)) {
+     *     if (event.type === "step") show(event.step);
+     *     else breakdown = event.breakdown;
+     *   }
+     *
+     * @param task - The task to analyze
+     * @returns AsyncGenerator of AnalyzerEvent
+     * @throws Error if the strategy fails or produced an invalid dependency graph
+     */
+    async *analyzeStream(task: Task): AsyncGenerator<AnalyzerEvent> {
+        const queue: Step[] = [];
+        let wake: (() => void) | undefined;
+        let finished = false;
+        let result: TaskBreakdown | undefined;
+        let failure: unknown;
+
+        // Collect streamed steps in a queue and wake the loop below when one arrives or the run ends.
+        const onStep = (step: Step) => {
+            queue.push(step);
+            wake?.();
+        };
+        const running = this.strategy.analyzeStream
+            ? this.strategy.analyzeStream(task, onStep)
+            : Promise.resolve(this.strategy.analyze(task));
+        running
+            .then(breakdown => { result = breakdown; }, error => { failure = error; })
+            .finally(() => {
+                finished = true;
+                wake?.();
+            });
+
+        let streamed = 0;
+        while (true) {
+            while (queue.length > 0) {
+                streamed++;
+                yield { type: "step", step: queue.shift()! };
+            }
+            if (finished) break;
+            await new Promise<void>(resolve => { wake = resolve; });
+            wake = undefined;
+        }
+
+        if (failure !== undefined) throw failure;
+        const breakdown = this.finalize(result!, task);
+
+        if (streamed === 0) {
+            for (const step of breakdown.steps) yield { type: "step", step };
+        }
+        yield { type: "done", breakdown };
+    }
+
+    /**
+     * Lint the plan (applying the linter's safe fixes first), validate the step graph
+     * (unique ids, no dangling references, no cycles), attach the topological waves of steps
+     * that can run in parallel and record the strategy name.
+     * A broken graph the linter reported (duplicate-id, dependency-graph) is left to its findings
+     * and the plan gets no waves; without such findings it is an error.
+     */
+    private finalize(breakdown: TaskBreakdown, task: Task): TaskBreakdown {
+        if (this.linter) {
+            const { breakdown: linted, issues } = this.linter.lint(breakdown, task);
+            breakdown = issues.length > 0 ? { ...linted, lint: issues } : linted;
+        }
+
+        const reported = breakdown.lint?.some(issue => GRAPH_RULES.includes(issue.rule));
+        if (reported && findGraphProblems(breakdown.steps).length > 0) {
+            return { ...breakdown, strategy: breakdown.strategy ?? this.strategy.name };
+        }
+
+        return {
+            ...breakdown,
+            waves: computeWaves(breakdown.steps),
+            strategy: breakdown.strategy ?? this.strategy.name,
+        };
     }
 }
 
@@ -0,0 +1,198 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { Task, TaskType, TaskBreakdown } from "../types/analysis";
+import { parseTask } from "./parser";
+import { parseCSVRecords } from "./csv";
+
+/**
+ * Batch planning: plan many tasks from a JSONL, CSV or plain-text file with bounded
+ * concurrency and a time limit per item. A failing item is recorded and the rest carry on.
+ */
+
+export type BatchInputFormat = "jsonl" | "csv" | "text";
+
+export interface BatchItem {
+    // Position in the input (1-based), used when the input has no ids.
+    index: number;
+    id: string;
+    description: string;
+}
+
+export interface BatchResult {
+    index: number;
+    id: string;
+    description: string;
+    ok: boolean;
+    type?: TaskType;
+
+    // The parsed task (absent only if parsing itself failed).
+    task?: Task;
+
+    breakdown?: TaskBreakdown;
+    error?: string;
+    durationMs: number;
+}
+
+export interface BatchSummary {
+    total: number;
+    succeeded: number;
+    failed: number;
+    byType: Partial<Record<TaskType, number>>;
+    durationMs: number;
+}
+
+export interface BatchOptions {
+    // Plans one parsed task.
+    plan: (task: Task) => TaskBreakdown | Promise<TaskBreakdown>;
+
+    // Items processed at the same time (default 4).
+    concurrency?: number;
+
+    // Time limit per item in ms (default 60000).
+    timeoutMs?: number;
+
+    // Called as soon as each item finishes, in completion order. If it throws (say the plan
+    // cannot be saved), the item counts as failed and the callback gets its failed result instead.
+    onResult?: (result: BatchResult) => void | Promise<void>;
+}
+
+// Fields that may hold the task text (first match wins) and the item id, for JSONL and CSV input.
+const DESCRIPTION_FIELDS = ["description", "task", "title", "summary", "body"];
+const ID_FIELDS = ["id", "request_id", "key"];
+
+/**
+ * Read batch items from a file. The format follows the extension (.jsonl/.ndjson, .csv,
+ * anything else is plain text) unless given explicitly.
+ * @throws Error if the file cannot be read or a line or row has no task description.
+ */
+export function readBatchFile(file: string, format?: BatchInputFormat): BatchItem[] {
+    return parseBatchInput(readFileSync(file, "utf-8"), format ?? detectBatchFormat(file));
+}
+
+export function detectBatchFormat(file: string): BatchInputFormat {
+    const ext = extname(file).toLowerCase();
+    if (ext === ".jsonl" || ext === ".ndjson") return "jsonl";
+    if (ext === ".csv") return "csv";
+    return "text";
+}
+
+/**
+ * Parse batch input.
+ * JSONL: one object (or string) per line. CSV: a header row naming the description column.
+ * Text: one task per line; blank lines and lines starting with "#" are ignored.
+ * @throws Error naming the line or row without a task description.
+ */
+export function parseBatchInput(content: string, format: BatchInputFormat): BatchItem[] {
+    if (format === "text") {
+        return content
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith("#"))
+            .map((description, i) => ({ index: i + 1, id: String(i + 1), description }));
+    }
+
+    const records: Array<{ where: string; value: any }> = format === "csv"
+        ? parseCSVRecords(content).map((value, i) => ({ where: `row ${i + 2}`, value }))
+        : content.split(/\r?\n/).flatMap((line, i) => {
+            if (!line.trim()) return [];
+            try {
+                return [{ where: `line ${i + 1}`, value: JSON.parse(line) }];
+            } catch (error: any) {
+                throw new Error(`Invalid JSONL at line ${i + 1}: ${error.message}`);
+            }
+        });
+
+    return records.map(({ where, value }, i) => {
+        const record = typeof value === "string" ? { description: value } : value ?? {};
+        const field = DESCRIPTION_FIELDS.find(name => typeof record[name] === "string" && record[name].trim());
+        if (!field) {
+            throw new Error(`No task description at ${where} (expected one of: ${DESCRIPTION_FIELDS.join(", ")})`);
+        }
+
+        const idField = ID_FIELDS.find(name => record[name] !== undefined && String(record[name]).trim());
+        return {
+            index: i + 1,
+            id: idField ? String(record[idField]).trim() : String(i + 1),
+            description: record[field].trim(),
+        };
+    });
+}
+
+/**
+ * Plan every item with at most `concurrency` items in flight.
+ * @returns Counts per task type, failures and the total duration.
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions): Promise<BatchSummary> {
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    const timeoutMs = options.timeoutMs ?? 60000;
+    const started = Date.now();
+    const summary: BatchSummary = { total: items.length, succeeded: 0, failed: 0, byType: {}, durationMs: 0 };
+
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const item = items[next++];
+            let result = await planItem(item, options.plan, timeoutMs);
+
+            try {
+                await options.onResult?.(result);
+            } catch (error: any) {
+                result = { ...result, ok: false, breakdown: undefined, error: error.message || String(error) };
+                // Report the failure in its place; if that throws as well the item is still counted.
+                await Promise.resolve().then(() => options.onResult?.(result)).catch(() => undefined);
+            }
+
+            if (result.ok) summary.succeeded++;
+            else summary.failed++;
+            if (result.type) summary.byType[result.type] = (summary.byType[result.type] ?? 0) + 1;
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+    summary.durationMs = Date.now() - started;
+    return summary;
+}
+
+/**
+ * Render a batch summary as text.
+ */
+export function formatBatchSummary(summary: BatchSummary): string {
+    const lines = [
+        `Planned ${summary.total} tasks in ${(summary.durationMs / 1000).toFixed(1)}s: ${summary.succeeded} succeeded, ${summary.failed} failed.`,
+    ];
+
+    const types = Object.entries(summary.byType).sort((a, b) => b[1] - a[1]);
+    if (types.length > 0) {
+        lines.push("By type:");
+        types.forEach(([type, count]) => lines.push(`  ${type.padEnd(16)} ${count}`));
+    }
+
+    return lines.join("\n");
+}
+
+async function planItem(item: BatchItem, plan: BatchOptions["plan"], timeoutMs: number): Promise<BatchResult> {
+    const started = Date.now();
+    const base = { index: item.index, id: item.id, description: item.description };
+    let task: Task | undefined;
+
+    try {
+        task = parseTask(item.description);
+        const parsed = task;
+
+        const breakdown = await withTimeout(Promise.resolve().then(() => plan(parsed)), timeoutMs);
+        return { ...base, ok: true, type: task.type, task, breakdown, durationMs: Date.now() - started };
+    } catch (error: any) {
+        return { ...base, ok: false, type: task?.type, task, error: error.message || String(error), durationMs: Date.now() - started };
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
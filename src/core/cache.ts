@@ -0,0 +1,231 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Content-addressed on-disk cache for LLM plan responses.
+ *
+ * Entries are keyed by the normalized task, prompt version, provider and model, and hold
+ * the raw response text so cached plans go through the same parsing and grounding as fresh ones.
+ * Each entry is one JSON file named after its key.
+ */
+
+export interface PlanCacheOptions {
+    // Directory holding the cache files (default ".traycer/cache" in the current directory).
+    dir?: string;
+
+    // Entries older than this are treated as missing and removed on prune (default 7 days).
+    ttlMs?: number;
+
+    // Keep at most this many entries (default 500); the oldest are pruned first.
+    maxEntries?: number;
+
+    // Keep at most this many bytes on disk (default 50MB); the oldest are pruned first.
+    maxBytes?: number;
+}
+
+// What identifies a cached plan.
+export interface CacheKeyParts {
+    task: string;
+    promptVersion: string;
+    provider: string;
+    model: string;
+}
+
+export interface CacheEntry extends CacheKeyParts {
+    key: string;
+    createdAt: string;
+    content: string;
+}
+
+// Listing information about an entry, without its content.
+export interface CacheEntryInfo {
+    key: string;
+    task: string;
+    provider: string;
+    model: string;
+    createdAt: string;
+    bytes: number;
+    expired: boolean;
+}
+
+export interface CacheStats {
+    dir: string;
+    entries: number;
+    expired: number;
+    bytes: number;
+}
+
+export const DEFAULT_CACHE_DIR = join(".traycer", "cache");
+
+/**
+ * Normalize a task description so trivially different phrasings share a cache entry:
+ * case, whitespace and trailing punctuation are ignored.
+ */
+export function normalizeTaskText(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, " ").trim().replace(/[.!?;,\s]+$/, "");
+}
+
+export class PlanCache {
+    readonly dir: string;
+    private ttlMs: number;
+    private maxEntries: number;
+    private maxBytes: number;
+
+    constructor(options: PlanCacheOptions = {}) {
+        this.dir = options.dir ?? DEFAULT_CACHE_DIR;
+        this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000;
+        this.maxEntries = options.maxEntries ?? 500;
+        this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+    }
+
+    /**
+     * Compute the content address for a plan request.
+     */
+    static keyFor(parts: CacheKeyParts): string {
+        const canonical = JSON.stringify([
+            normalizeTaskText(parts.task),
+            parts.promptVersion,
+            parts.provider.toLowerCase(),
+            parts.model,
+        ]);
+        return createHash("sha256").update(canonical).digest("hex");
+    }
+
+    /**
+     * Look up a cached response.
+     * @returns The entry, or undefined if it is missing, unreadable or expired.
+     */
+    get(parts: CacheKeyParts): CacheEntry | undefined {
+        const file = this.fileFor(PlanCache.keyFor(parts));
+        if (!existsSync(file)) return undefined;
+
+        try {
+            const entry: CacheEntry = JSON.parse(readFileSync(file, "utf-8"));
+            if (this.isExpired(entry.createdAt)) {
+                unlinkSync(file);
+                return undefined;
+            }
+            return entry;
+        } catch {
+            // A corrupt entry is as good as a miss.
+            return undefined;
+        }
+    }
+
+    /**
+     * Store a response and enforce the size limits.
+     */
+    set(parts: CacheKeyParts, content: string): CacheEntry {
+        const entry: CacheEntry = {
+            ...parts,
+            key: PlanCache.keyFor(parts),
+            createdAt: new Date().toISOString(),
+            content,
+        };
+
+        mkdirSync(this.dir, { recursive: true });
+        writeFileSync(this.fileFor(entry.key), JSON.stringify(entry, null, 2));
+        this.prune();
+
+        return entry;
+    }
+
+    /**
+     * List entries, newest first.
+     */
+    list(): CacheEntryInfo[] {
+        if (!existsSync(this.dir)) return [];
+
+        const infos: CacheEntryInfo[] = [];
+        for (const name of readdirSync(this.dir)) {
+            if (!name.endsWith(".json")) continue;
+
+            const file = join(this.dir, name);
+            try {
+                const entry: CacheEntry = JSON.parse(readFileSync(file, "utf-8"));
+                infos.push({
+                    key: entry.key,
+                    task: entry.task,
+                    provider: entry.provider,
+                    model: entry.model,
+                    createdAt: entry.createdAt,
+                    bytes: statSync(file).size,
+                    expired: this.isExpired(entry.createdAt),
+                });
+            } catch {
+                // Skip files that are not cache entries.
+            }
+        }
+
+        return infos.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Summarize the cache contents.
+     */
+    stats(): CacheStats {
+        const entries = this.list();
+        return {
+            dir: this.dir,
+            entries: entries.length,
+            expired: entries.filter(e => e.expired).length,
+            bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+        };
+    }
+
+    /**
+     * Remove expired entries, then the oldest entries until the size limits hold.
+     * @returns Number of entries removed.
+     */
+    prune(): number {
+        let removed = 0;
+        const kept: CacheEntryInfo[] = [];
+
+        for (const entry of this.list()) {
+            if (entry.expired) {
+                this.remove(entry.key);
+                removed++;
+            } else {
+                kept.push(entry);
+            }
+        }
+
+        // kept is newest first, so drop from the end.
+        let bytes = kept.reduce((sum, e) => sum + e.bytes, 0);
+        while (kept.length > 0 && (kept.length > this.maxEntries || bytes > this.maxBytes)) {
+            const oldest = kept.pop() as CacheEntryInfo;
+            this.remove(oldest.key);
+            bytes -= oldest.bytes;
+            removed++;
+        }
+
+        return removed;
+    }
+
+    /**
+     * Remove every entry.
+     * @returns Number of entries removed.
+     */
+    clear(): number {
+        const entries = this.list();
+        entries.forEach(entry => this.remove(entry.key));
+        return entries.length;
+    }
+
+    private remove(key: string): void {
+        try {
+            unlinkSync(this.fileFor(key));
+        } catch {
+            // Already gone.
+        }
+    }
+
+    private fileFor(key: string): string {
+        return join(this.dir, `${key}.json`);
+    }
+
+    private isExpired(createdAt: string): boolean {
+        return Date.now() - Date.parse(createdAt) > this.ttlMs;
+    }
+}
@@ -0,0 +1,488 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join, extname, resolve } from "path";
+import { parse as parseYAML } from "yaml";
+import { ProviderName } from "../providers/LLMProvider";
+import { DEFAULT_CACHE_DIR } from "./cache";
+import { DEFAULT_PLANS_DIR } from "./plans";
+import { DEFAULT_USAGE_FILE, DEFAULT_PRICES, PriceTable } from "./usage";
+
+/**
+ * Central configuration. Sources are merged in this order, each overriding the previous one:
+ *   1. Built-in defaults and src/config/analyzer.config.json.
+ *   2. The project config file (.traycer/config.json or .yaml in the workspace).
+ *   3. The user config file (~/.traycer/config.json or .yaml).
+ *   4. The selected profile (built-in "fast" and "thorough", or "profiles" from the config files).
+ *   5. Environment variables (ANALYZER_*, LLM_* and the provider-specific GROQ_*, OPENAI_*, ...).
+ *   6. Command-line flags.
+ * Every value is validated against CONFIG_SETTINGS and remembers the source it came from.
+ */
+
+// Raised for invalid config files, values and profiles, so callers can tell configuration mistakes apart.
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigError";
+    }
+}
+
+export type StrategyName = "Hardcoded" | "LLM" | "Fallback" | "Ensemble";
+
+export interface LLMSettings {
+    provider: ProviderName;
+    apiKey: string;
+
+    // Empty means the provider's default model and base URL.
+    model: string;
+    baseUrl: string;
+
+    maxRetries: number;
+    timeout: number;        // Request timeout in ms.
+    maxRepairs: number;     // Calls asking the model to fix a reply that fails validation.
+    requestsPerMinute: number;  // Client-side rate limit; 0 for none.
+    circuitThreshold: number;   // Failed requests in a row before requests are refused for a while; 0 never.
+    circuitCooldown: number;    // How long requests are refused once the circuit opens, in ms.
+    stream: boolean;        // Stream plans so steps show up as they are generated.
+}
+
+export interface AnalyzerConfig {
+    // Named profile applied on top of the config files (empty for none).
+    profile: string;
+
+    strategy: StrategyName;
+
+    // Repository to ground file paths in (empty for the current directory).
+    workspace: string;
+
+    // Default output format for plans.
+    format: string;
+
+    llm: LLMSettings;
+    cache: { enabled: boolean; dir: string; ttl: number; maxEntries: number; maxBytes: number };
+    plans: { save: boolean; dir: string };
+    batch: { concurrency: number; timeout: number };
+    usage: { enabled: boolean; file: string; dailyBudget: number };
+    lint: { enabled: boolean; fix: boolean; disable: string; minSteps: number; maxSteps: number };
+}
+
+export type ConfigValue = string | number | boolean;
+
+export interface ConfigSetting {
+    // Dotted path of the setting, e.g. "llm.timeout".
+    key: string;
+    type: "string" | "number" | "boolean";
+    default: ConfigValue;
+    description: string;
+
+    // Allowed values (matched case-insensitively and stored with this spelling).
+    values?: string[];
+    integer?: boolean;
+    min?: number;
+
+    // Environment variables, highest precedence first; {PROVIDER} is the upper-case provider name.
+    env?: string[];
+
+    // Masked when the configuration is printed.
+    secret?: boolean;
+}
+
+export const CONFIG_SETTINGS: ConfigSetting[] = [
+    { key: "profile", type: "string", default: "", env: ["ANALYZER_PROFILE"], description: "Named profile to apply" },
+    {
+        key: "strategy", type: "string", default: "Hardcoded", values: ["Hardcoded", "LLM", "Fallback", "Ensemble"],
+        env: ["ANALYZER_STRATEGY"], description: "Planning strategy",
+    },
+    { key: "workspace", type: "string", default: "", env: ["ANALYZER_WORKSPACE"], description: "Repository to ground file paths in" },
+    { key: "format", type: "string", default: "text", env: ["ANALYZER_FORMAT"], description: "Default output format" },
+    {
+        key: "llm.provider", type: "string", default: "groq", values: ["groq", "openai", "ollama", "anthropic"],
+        env: ["LLM_PROVIDER"], description: "LLM provider",
+    },
+    { key: "llm.apiKey", type: "string", default: "", env: ["LLM_API_KEY", "{PROVIDER}_API_KEY"], secret: true, description: "LLM API key" },
+    { key: "llm.model", type: "string", default: "", env: ["LLM_MODEL", "{PROVIDER}_MODEL"], description: "LLM model (empty for the provider default)" },
+    { key: "llm.baseUrl", type: "string", default: "", env: ["LLM_BASE_URL", "{PROVIDER}_BASE_URL"], description: "LLM API base URL (empty for the provider default)" },
+    { key: "llm.maxRetries", type: "number", default: 3, integer: true, min: 0, env: ["LLM_MAX_RETRIES"], description: "Retries per LLM request" },
+    { key: "llm.timeout", type: "number", default: 30000, integer: true, min: 1, env: ["LLM_TIMEOUT"], description: "LLM request timeout in ms" },
+    { key: "llm.maxRepairs", type: "number", default: 2, integer: true, min: 0, env: ["LLM_MAX_REPAIRS"], description: "Repair calls for a reply that fails validation" },
+    { key: "llm.requestsPerMinute", type: "number", default: 0, min: 0, env: ["LLM_REQUESTS_PER_MINUTE"], description: "Client-side LLM rate limit (0 for none)" },
+    { key: "llm.circuitThreshold", type: "number", default: 5, integer: true, min: 0, env: ["LLM_CIRCUIT_THRESHOLD"], description: "Failed LLM requests in a row that open the circuit breaker (0 to disable)" },
+    { key: "llm.circuitCooldown", type: "number", default: 30000, integer: true, min: 0, env: ["LLM_CIRCUIT_COOLDOWN"], description: "Time the open circuit refuses LLM requests, in ms" },
+    { key: "llm.stream", type: "boolean", default: true, env: ["LLM_STREAM"], description: "Stream LLM plans step by step" },
+    { key: "cache.enabled", type: "boolean", default: true, env: ["ANALYZER_CACHE"], description: "Cache LLM plans on disk" },
+    { key: "cache.dir", type: "string", default: DEFAULT_CACHE_DIR, env: ["ANALYZER_CACHE_DIR"], description: "Plan cache directory" },
+    { key: "cache.ttl", type: "number", default: 7 * 24 * 60 * 60, min: 0, env: ["ANALYZER_CACHE_TTL"], description: "Cache entry lifetime in seconds" },
+    { key: "cache.maxEntries", type: "number", default: 500, integer: true, min: 1, env: ["ANALYZER_CACHE_MAX_ENTRIES"], description: "Maximum cache entries" },
+    { key: "cache.maxBytes", type: "number", default: 50 * 1024 * 1024, integer: true, min: 1, env: ["ANALYZER_CACHE_MAX_BYTES"], description: "Maximum cache size in bytes" },
+    { key: "plans.save", type: "boolean", default: true, env: ["ANALYZER_SAVE_PLANS"], description: "Save generated plans to the plan history" },
+    { key: "plans.dir", type: "string", default: DEFAULT_PLANS_DIR, env: ["ANALYZER_PLANS_DIR"], description: "Plan history directory" },
+    { key: "batch.concurrency", type: "number", default: 4, integer: true, min: 1, env: ["ANALYZER_BATCH_CONCURRENCY"], description: "Batch items planned at the same time" },
+    { key: "batch.timeout", type: "number", default: 60, min: 0.001, env: ["ANALYZER_BATCH_TIMEOUT"], description: "Time limit per batch item in seconds" },
+    { key: "usage.enabled", type: "boolean", default: true, env: ["ANALYZER_USAGE_LOG"], description: "Log token usage, latency and cost of LLM calls" },
+    { key: "usage.file", type: "string", default: DEFAULT_USAGE_FILE, env: ["ANALYZER_USAGE_FILE"], description: "Usage log file (JSON Lines)" },
+    { key: "usage.dailyBudget", type: "number", default: 0, min: 0, env: ["ANALYZER_DAILY_BUDGET"], description: "Daily LLM budget in USD (0 for no limit)" },
+    { key: "lint.enabled", type: "boolean", default: true, env: ["ANALYZER_LINT"], description: "Lint every generated plan" },
+    { key: "lint.fix", type: "boolean", default: false, env: ["ANALYZER_LINT_FIX"], description: "Apply safe lint fixes (renumbering, path normalization) to generated plans" },
+    { key: "lint.disable", type: "string", default: "", env: ["ANALYZER_LINT_DISABLE"], description: "Comma-separated lint rules to skip" },
+    { key: "lint.minSteps", type: "number", default: 3, integer: true, min: 1, env: ["ANALYZER_LINT_MIN_STEPS"], description: "Fewest steps before step-count warns" },
+    { key: "lint.maxSteps", type: "number", default: 7, integer: true, min: 1, env: ["ANALYZER_LINT_MAX_STEPS"], description: "Most steps before step-count warns" },
+];
+
+// A profile holds any settings except "profile" itself, nested like a config file.
+export type ConfigProfile = Record<string, unknown>;
+
+export const BUILT_IN_PROFILES: Record<string, ConfigProfile> = {
+    // Try the LLM briefly and fall back to templates rather than wait.
+    fast: { strategy: "Fallback", llm: { maxRetries: 0, maxRepairs: 0, timeout: 15000 } },
+
+    // Merge LLM and template plans, giving the LLM time and retries.
+    thorough: { strategy: "Ensemble", llm: { maxRetries: 5, timeout: 120000 }, batch: { concurrency: 2, timeout: 300 } },
+};
+
+export interface ResolvedConfig {
+    config: AnalyzerConfig;
+
+    // Where each setting's value came from, e.g. { "llm.model": "env LLM_MODEL" }.
+    sources: Record<string, string>;
+
+    // Config files that were read, lowest precedence first.
+    files: string[];
+
+    // Every known profile, built-in ones included.
+    profiles: Record<string, ConfigProfile>;
+
+    // Model prices for cost estimates: DEFAULT_PRICES with the config files' "prices" on top.
+    prices: PriceTable;
+}
+
+export interface ResolveConfigOptions {
+    // Directory used when no workspace is configured (default process.cwd()).
+    cwd?: string;
+
+    // Environment to read (default process.env).
+    env?: NodeJS.ProcessEnv;
+
+    // Values given on the command line, keyed by setting. Strings are converted like env values.
+    flags?: Record<string, ConfigValue | undefined>;
+}
+
+// The configuration shipped with the tool.
+export const BUNDLED_CONFIG_FILE = join(__dirname, "../config/analyzer.config.json");
+
+// Project-level config file name (without extension), relative to the project root.
+export const PROJECT_CONFIG_FILE = join(".traycer", "config");
+
+const CONFIG_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+interface ConfigLayer {
+    source: string;
+    values: Map<string, ConfigValue>;
+
+    // Per-setting sources that are more specific than `source` (the variable name for env values).
+    keySources?: Map<string, string>;
+}
+
+/**
+ * Resolve the effective configuration from every source.
+ * The project file is looked up in the workspace given by a flag or ANALYZER_WORKSPACE (default cwd);
+ * ANALYZER_CONFIG and ANALYZER_USER_CONFIG point at other project and user config files.
+ * @throws ConfigError naming the source and setting of the first invalid value or unknown profile.
+ */
+export function resolveConfig(options: ResolveConfigOptions = {}): ResolvedConfig {
+    const env = options.env ?? process.env;
+    const cwd = options.cwd ?? process.cwd();
+    const profiles: Record<string, ConfigProfile> = { ...BUILT_IN_PROFILES };
+    const prices: PriceTable = { ...DEFAULT_PRICES };
+    const files: string[] = [];
+
+    // Step 1: Defaults and config files, lowest precedence first.
+    const defaults = new Map(CONFIG_SETTINGS.map(setting => [setting.key, setting.default] as [string, ConfigValue]));
+    const layers: ConfigLayer[] = [{ source: "default", values: defaults }];
+
+    const root = String(options.flags?.workspace || env.ANALYZER_WORKSPACE || cwd);
+    const projectFile = env.ANALYZER_CONFIG ? resolve(cwd, env.ANALYZER_CONFIG) : findConfigFile(join(root, PROJECT_CONFIG_FILE));
+    const userFile = env.ANALYZER_USER_CONFIG ? resolve(cwd, env.ANALYZER_USER_CONFIG) : findConfigFile(join(homedir(), PROJECT_CONFIG_FILE));
+
+    const candidates: Array<{ label: string; file?: string; required: boolean }> = [
+        { label: "bundled", file: BUNDLED_CONFIG_FILE, required: false },
+        { label: "project", file: projectFile, required: Boolean(env.ANALYZER_CONFIG) },
+        { label: "user", file: userFile !== projectFile ? userFile : undefined, required: Boolean(env.ANALYZER_USER_CONFIG) },
+    ];
+
+    for (const { label, file, required } of candidates) {
+        if (!file || (!required && !existsSync(file))) continue;
+
+        const loaded = loadConfigFile(file);
+        layers.push({ source: `${label} ${file}`, values: loaded.values });
+        Object.assign(profiles, loaded.profiles);
+        Object.assign(prices, loaded.prices);
+        files.push(file);
+    }
+
+    // Step 2: Flags, and the environment without the provider-specific variables for now.
+    const flags: ConfigLayer = { source: "command line", values: readFlags(options.flags ?? {}) };
+    let envLayer = readEnv(env, undefined);
+
+    // Step 3: Apply the selected profile between the files and the environment.
+    const profileName = String(lookup([...layers, envLayer, flags], "profile") ?? "");
+    if (profileName) {
+        const profile = profiles[profileName];
+        if (!profile) {
+            throw new ConfigError(`Unknown config profile "${profileName}". Available profiles: ${Object.keys(profiles).join(", ")}`);
+        }
+        layers.push({ source: `profile ${profileName}`, values: flattenSettings(profile, `profile "${profileName}"`, false) });
+    }
+
+    // Step 4: Now that the provider is known, read its GROQ_*, OPENAI_*, ... variables too.
+    const provider = String(lookup([...layers, envLayer, flags], "llm.provider"));
+    envLayer = readEnv(env, provider);
+    layers.push(envLayer, flags);
+
+    // Step 5: Take each setting from the highest-precedence layer that defines it.
+    const sources: Record<string, string> = {};
+    const config: any = {};
+    for (const setting of CONFIG_SETTINGS) {
+        const layer = [...layers].reverse().find(l => l.values.has(setting.key))!;
+        setPath(config, setting.key, layer.values.get(setting.key));
+        sources[setting.key] = layer.keySources?.get(setting.key) ?? layer.source;
+    }
+
+    return { config: config as AnalyzerConfig, sources, files, profiles, prices };
+}
+
+/**
+ * Load and validate a JSON or YAML config file.
+ * Besides the settings, a file may define "profiles", model "prices" (USD per million prompt and
+ * completion tokens) and, for compatibility, a "groq" section that fills in llm settings the file
+ * does not set itself.
+ * @returns The file's settings keyed by dotted path, its profiles and its prices.
+ * @throws ConfigError naming the file and the invalid setting.
+ */
+export function loadConfigFile(file: string): { values: Map<string, ConfigValue>; profiles: Record<string, ConfigProfile>; prices: PriceTable } {
+    let raw: any;
+    try {
+        const content = readFileSync(file, "utf-8");
+        raw = extname(file).toLowerCase() === ".json" ? JSON.parse(content) : parseYAML(content);
+    } catch (error: any) {
+        throw new ConfigError(`Invalid config file ${file}: ${error.message}`);
+    }
+
+    if (raw === null || raw === undefined) {
+        return { values: new Map(), profiles: {}, prices: {} };
+    }
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        throw new ConfigError(`Invalid config file ${file}: expected an object`);
+    }
+
+    const { profiles = {}, prices = {}, groq, ...settings } = raw;
+    const values = flattenSettings(settings, `config file ${file}`, true);
+
+    if (groq !== undefined) {
+        const legacy = flattenSettings({ llm: groq }, `config file ${file} ("groq" section)`, false);
+        legacy.forEach((value, key) => {
+            if (!values.has(key)) values.set(key, value);
+        });
+    }
+
+    if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) {
+        throw new ConfigError(`Invalid config file ${file}: "profiles" must map profile names to settings`);
+    }
+    for (const [name, profile] of Object.entries(profiles)) {
+        if (typeof profile !== "object" || profile === null || Array.isArray(profile)) {
+            throw new ConfigError(`Invalid config file ${file}: profile "${name}" must be an object of settings`);
+        }
+        flattenSettings(profile as ConfigProfile, `config file ${file} (profile "${name}")`, false);
+    }
+
+    if (typeof prices !== "object" || prices === null || Array.isArray(prices)) {
+        throw new ConfigError(`Invalid config file ${file}: "prices" must map model names to { prompt, completion } prices`);
+    }
+    for (const [model, price] of Object.entries(prices as Record<string, any>)) {
+        const valid = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n >= 0;
+        if (typeof price !== "object" || price === null || !valid(price.prompt) || !valid(price.completion)) {
+            throw new ConfigError(`Invalid config file ${file}: price of "${model}" needs non-negative "prompt" and "completion" numbers (USD per million tokens)`);
+        }
+    }
+
+    return { values, profiles, prices };
+}
+
+/**
+ * Render the configuration, one setting per line. With sources, each line also says where the value came from.
+ * Secrets are masked.
+ */
+export function formatConfig(resolved: ResolvedConfig, options: { sources?: boolean } = {}): string {
+    const width = Math.max(...CONFIG_SETTINGS.map(setting => setting.key.length));
+    const rows = CONFIG_SETTINGS.map(setting => {
+        const value = getConfigValue(resolved.config, setting.key);
+        const shown = setting.secret ? maskSecret(String(value)) : value === "" ? '""' : String(value);
+        return { key: setting.key, shown, source: resolved.sources[setting.key] };
+    });
+
+    const valueWidth = Math.max(...rows.map(row => row.shown.length));
+    const lines = rows.map(row => {
+        const line = `${row.key.padEnd(width)} = ${row.shown}`;
+        return options.sources ? `${line.padEnd(width + 3 + valueWidth)}  (${row.source})` : line;
+    });
+
+    if (options.sources) {
+        lines.push("");
+        lines.push(resolved.files.length > 0 ? `Config files: ${resolved.files.join(", ")}` : "Config files: none");
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Read a setting by its dotted path, e.g. "llm.timeout".
+ */
+export function getConfigValue(config: AnalyzerConfig, key: string): ConfigValue {
+    return key.split(".").reduce((value: any, part) => value?.[part], config);
+}
+
+function findConfigFile(base: string): string | undefined {
+    return CONFIG_EXTENSIONS.map(ext => base + ext).find(file => existsSync(file));
+}
+
+// Walk a nested settings object, validating every value. Empty strings count as unset.
+function flattenSettings(raw: Record<string, unknown>, where: string, allowProfile: boolean): Map<string, ConfigValue> {
+    const values = new Map<string, ConfigValue>();
+
+    const walk = (object: Record<string, unknown>, prefix: string) => {
+        for (const [name, value] of Object.entries(object)) {
+            const key = prefix + name;
+            const setting = CONFIG_SETTINGS.find(s => s.key === key);
+
+            if (setting && (allowProfile || key !== "profile")) {
+                if (value === undefined || value === null || value === "") continue;
+                values.set(key, checkValue(setting, value, `Invalid config in ${where}: "${key}"`));
+            } else if (!setting && isSection(key) && value !== null && typeof value === "object" && !Array.isArray(value)) {
+                walk(value as Record<string, unknown>, key + ".");
+            } else {
+                throw new ConfigError(`Invalid config in ${where}: unknown setting "${key}"${suggestSetting(key)}`);
+            }
+        }
+    };
+
+    walk(raw, "");
+    return values;
+}
+
+function readEnv(env: NodeJS.ProcessEnv, provider: string | undefined): ConfigLayer {
+    const values = new Map<string, ConfigValue>();
+    const keySources = new Map<string, string>();
+
+    for (const setting of CONFIG_SETTINGS) {
+        for (const pattern of setting.env ?? []) {
+            if (pattern.includes("{PROVIDER}") && !provider) continue;
+
+            const name = pattern.replace("{PROVIDER}", (provider ?? "").toUpperCase());
+            const raw = env[name];
+            if (raw === undefined || raw === "") continue;
+
+            values.set(setting.key, checkValue(setting, coerce(setting, raw), `Invalid config in env ${name}: "${setting.key}"`, raw));
+            keySources.set(setting.key, `env ${name}`);
+            break;
+        }
+    }
+
+    return { source: "env", values, keySources };
+}
+
+function readFlags(flags: Record<string, ConfigValue | undefined>): Map<string, ConfigValue> {
+    const values = new Map<string, ConfigValue>();
+
+    for (const [key, value] of Object.entries(flags)) {
+        if (value === undefined) continue;
+
+        const setting = CONFIG_SETTINGS.find(s => s.key === key);
+        if (!setting) {
+            throw new ConfigError(`Unknown setting "${key}"`);
+        }
+        const where = `Invalid config on the command line: "${key}"`;
+        values.set(key, typeof value === "string"
+            ? checkValue(setting, coerce(setting, value), where, value)
+            : checkValue(setting, value, where));
+    }
+
+    return values;
+}
+
+function lookup(layers: ConfigLayer[], key: string): ConfigValue | undefined {
+    const layer = [...layers].reverse().find(l => l.values.has(key));
+    return layer?.values.get(key);
+}
+
+function coerce(setting: ConfigSetting, raw: string): unknown {
+    if (setting.type === "number") {
+        return raw.trim() === "" ? raw : Number(raw);
+    }
+    if (setting.type === "boolean") {
+        const normalized = raw.trim().toLowerCase();
+        if (["true", "1", "yes", "on"].includes(normalized)) return true;
+        if (["false", "0", "no", "off"].includes(normalized)) return false;
+    }
+    return raw;
+}
+
+// Validate one value, returning it in canonical form (e.g. "llm" becomes "LLM").
+// `raw` is the text the value was coerced from (env vars, flags), quoted in errors as given.
+function checkValue(setting: ConfigSetting, value: unknown, where: string, raw?: string): ConfigValue {
+    const got = `(got ${raw !== undefined ? `"${raw}"` : value === undefined ? "nothing" : JSON.stringify(value)})`;
+
+    if (setting.type === "boolean") {
+        if (typeof value !== "boolean") throw new ConfigError(`${where} must be true or false ${got}`);
+        return value;
+    }
+
+    if (setting.type === "number") {
+        if (typeof value !== "number" || !Number.isFinite(value)) throw new ConfigError(`${where} must be a number ${got}`);
+        if (setting.integer && !Number.isInteger(value)) throw new ConfigError(`${where} must be a whole number ${got}`);
+        if (setting.min !== undefined && value < setting.min) throw new ConfigError(`${where} must be at least ${setting.min} ${got}`);
+        return value;
+    }
+
+    if (typeof value !== "string") throw new ConfigError(`${where} must be a string ${got}`);
+    if (setting.values) {
+        const match = setting.values.find(allowed => allowed.toLowerCase() === value.trim().toLowerCase());
+        if (!match) throw new ConfigError(`${where} must be one of ${setting.values.join(", ")} ${got}`);
+        return match;
+    }
+    return value;
+}
+
+function isSection(key: string): boolean {
+    return CONFIG_SETTINGS.some(setting => setting.key.startsWith(key + "."));
+}
+
+function suggestSetting(key: string): string {
+    let best: { key: string; distance: number } | undefined;
+    for (const setting of CONFIG_SETTINGS) {
+        const distance = editDistance(key.toLowerCase(), setting.key.toLowerCase());
+        if (distance <= 2 && (!best || distance < best.distance)) best = { key: setting.key, distance };
+    }
+    return best ? ` (did you mean "${best.key}"?)` : "";
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function setPath(target: any, key: string, value: unknown): void {
+    const parts = key.split(".");
+    const last = parts.pop()!;
+    const parent = parts.reduce((object, part) => (object[part] ??= {}), target);
+    parent[last] = value;
+}
+
+function maskSecret(value: string): string {
+    if (!value) return '""';
+    return value.length > 8 ? `****${value.slice(-4)}` : "****";
+}
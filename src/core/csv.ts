@@ -0,0 +1,86 @@
+/**
+ * Minimal CSV support (RFC 4180): comma-separated, double-quoted fields,
+ * doubled quotes as escapes and line breaks inside quoted fields.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ * @throws Error if a quoted field is never closed.
+ */
+export function parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    let i = 0;
+
+    // Strip a UTF-8 byte order mark, common in spreadsheet exports.
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== "") rows.push(row);
+        row = [];
+        field = "";
+    };
+
+    while (i < input.length) {
+        const ch = input[i];
+
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                field += '"';
+                i += 2;
+                continue;
+            }
+            if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+            i++;
+            continue;
+        }
+
+        if (ch === '"' && field === "") {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            endRow();
+            if (ch === "\r" && input[i + 1] === "\n") i++;
+        } else {
+            field += ch;
+        }
+        i++;
+    }
+
+    if (quoted) {
+        throw new Error("Invalid CSV: unterminated quoted field");
+    }
+    if (field !== "" || row.length > 0) endRow();
+
+    return rows;
+}
+
+/**
+ * Parse CSV with a header row into one record per data row, keyed by header name.
+ * Missing trailing fields become empty strings.
+ */
+export function parseCSVRecords(text: string): Record<string, string>[] {
+    const [header, ...rows] = parseCSV(text);
+    if (!header) return [];
+
+    const names = header.map(name => name.trim());
+    return rows.map(row => Object.fromEntries(names.map((name, index) => [name, row[index] ?? ""])));
+}
+
+/**
+ * Write rows as CSV with CRLF line endings. Fields holding a comma, quote or line break are
+ * quoted, with quotes doubled.
+ */
+export function formatCSV(rows: string[][]): string {
+    const field = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+    return rows.map(row => row.map(field).join(",")).join("\r\n") + "\r\n";
+}
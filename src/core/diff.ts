@@ -0,0 +1,175 @@
+import { TaskBreakdown, Step } from "../types/analysis";
+import { stepSimilarity } from "./similarity";
+
+/**
+ * Structural diff between two versions of a plan.
+ * Steps are paired by title (exact first, then fuzzy, then by id), so renumbering alone
+ * shows up as a move rather than as a removal plus an addition.
+ */
+
+export type StepChangeKind = "added" | "removed" | "modified" | "moved";
+
+export interface StepChange {
+    kind: StepChangeKind;
+
+    // The step in the old version (absent for additions).
+    before?: Step;
+
+    // The step in the new version (absent for removals).
+    after?: Step;
+
+    // Fields that differ for modified steps, e.g. ["title", "files"].
+    fields?: string[];
+}
+
+export interface PlanDiff {
+    changes: StepChange[];
+
+    // Number of steps present in both versions without any change.
+    unchanged: number;
+}
+
+/**
+ * Compare two versions of a plan.
+ * @param before The previous version.
+ * @param after The revised version.
+ * @param threshold Minimum title similarity to pair renamed steps (default 0.5).
+ */
+export function diffBreakdowns(before: TaskBreakdown, after: TaskBreakdown, threshold: number = 0.5): PlanDiff {
+    const pairs = new Map<Step, Step>();
+    const unpairedOld = new Set(before.steps);
+    const unpairedNew = new Set(after.steps);
+
+    // Pass 1: identical titles.
+    for (const next of after.steps) {
+        const prev = [...unpairedOld].find(s => normalizeTitle(s.title) === normalizeTitle(next.title));
+        if (prev) {
+            pairs.set(prev, next);
+            unpairedOld.delete(prev);
+            unpairedNew.delete(next);
+        }
+    }
+
+    // Pass 2: most similar remaining titles.
+    for (const next of [...unpairedNew]) {
+        let best: { step: Step; score: number } | undefined;
+        for (const prev of unpairedOld) {
+            const score = stepSimilarity(prev, next);
+            if (score >= threshold && (!best || score > best.score)) {
+                best = { step: prev, score };
+            }
+        }
+        if (best) {
+            pairs.set(best.step, next);
+            unpairedOld.delete(best.step);
+            unpairedNew.delete(next);
+        }
+    }
+
+    // Pass 3: a step renamed beyond recognition usually keeps its position.
+    for (const next of [...unpairedNew]) {
+        const prev = [...unpairedOld].find(s => s.id === next.id);
+        if (prev) {
+            pairs.set(prev, next);
+            unpairedOld.delete(prev);
+            unpairedNew.delete(next);
+        }
+    }
+
+    const changes: StepChange[] = [];
+    let unchanged = 0;
+
+    const oldPosition = new Map(before.steps.map((s, i) => [s, i]));
+    const newPosition = new Map(after.steps.map((s, i) => [s, i]));
+    const moved = findMovedSteps(pairs, oldPosition, newPosition);
+
+    for (const [prev, next] of pairs) {
+        const fields = changedFields(prev, next);
+        if (fields.length > 0) {
+            changes.push({ kind: "modified", before: prev, after: next, fields });
+        } else if (moved.has(prev)) {
+            changes.push({ kind: "moved", before: prev, after: next });
+        } else {
+            unchanged++;
+        }
+    }
+
+    for (const prev of unpairedOld) changes.push({ kind: "removed", before: prev });
+    for (const next of unpairedNew) changes.push({ kind: "added", after: next });
+
+    // Report in the order of the new plan, removals last.
+    const order = (c: StepChange) => (c.after ? newPosition.get(c.after) as number : Number.MAX_SAFE_INTEGER);
+    changes.sort((a, b) => order(a) - order(b));
+
+    return { changes, unchanged };
+}
+
+/**
+ * Render a plan diff as text, one line per change.
+ */
+export function formatPlanDiff(diff: PlanDiff): string {
+    if (diff.changes.length === 0) {
+        return "No changes.";
+    }
+
+    const lines = diff.changes.map(change => {
+        switch (change.kind) {
+            case "added":
+                return `+ Step ${change.after!.id}: ${change.after!.title}`;
+            case "removed":
+                return `- Step ${change.before!.id}: ${change.before!.title}`;
+            case "moved":
+                return `> Step ${change.after!.id}: ${change.after!.title} (moved from step ${change.before!.id})`;
+            case "modified": {
+                const renamed = change.fields!.includes("title") ? ` (was "${change.before!.title}")` : "";
+                return `~ Step ${change.after!.id}: ${change.after!.title}${renamed} [${change.fields!.join(", ")}]`;
+            }
+        }
+    });
+
+    lines.push(`${diff.unchanged} step(s) unchanged.`);
+    return lines.join("\n");
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function changedFields(prev: Step, next: Step): string[] {
+    const fields: string[] = [];
+    if (prev.title !== next.title) fields.push("title");
+    if (prev.description !== next.description) fields.push("description");
+    if (JSON.stringify(prev.files) !== JSON.stringify(next.files)) fields.push("files");
+    return fields;
+}
+
+// Paired steps outside the longest run that kept its relative order are the ones that moved.
+function findMovedSteps(
+    pairs: Map<Step, Step>,
+    oldPosition: Map<Step, number>,
+    newPosition: Map<Step, number>
+): Set<Step> {
+    const ordered = [...pairs.keys()].sort((a, b) => (oldPosition.get(a) as number) - (oldPosition.get(b) as number));
+    const values = ordered.map(prev => newPosition.get(pairs.get(prev) as Step) as number);
+
+    // Longest increasing subsequence (O(n^2) is plenty for plans of a few dozen steps).
+    const length = values.map(() => 1);
+    const previous = values.map(() => -1);
+    for (let i = 0; i < values.length; i++) {
+        for (let j = 0; j < i; j++) {
+            if (values[j] < values[i] && length[j] + 1 > length[i]) {
+                length[i] = length[j] + 1;
+                previous[i] = j;
+            }
+        }
+    }
+
+    const kept = new Set<Step>();
+    let index = length.indexOf(Math.max(0, ...length));
+    while (index >= 0) {
+        kept.add(ordered[index]);
+        index = previous[index];
+    }
+
+    return new Set(ordered.filter(step => !kept.has(step)));
+}
@@ -1,4 +1,16 @@
-import { TaskBreakdown, Step } from "../types/analysis";
+import { stringify as stringifyYAML } from "yaml";
+import { TaskBreakdown, Step, StepStatus } from "../types/analysis";
+import { resolveDependencies } from "./graph";
+import { isTracked, statusOf, computeProgress, describeProgress } from "./progress";
+
+// Status markers shown in front of steps once a plan is being tracked.
+const STATUS_MARKERS: Record<StepStatus, string> = {
+    "pending": "[ ]",
+    "in-progress": "[~]",
+    "done": "[x]",
+    "skipped": "[-]",
+    "blocked": "[!]",
+};
 
 /**
  * A utility to format a TaskBreakdown into a human-readable string.
@@ -17,24 +29,62 @@ export function formatTaskBreakdown(breakdown: TaskBreakdown): string {
     lines.push("");
     lines.push("");
     lines.push(`Task: ${breakdown.taskDescription}`);
+
+    // Status markers and progress only appear once someone has started working on the plan.
+    const tracked = isTracked(breakdown);
+    if (tracked) {
+        lines.push(`Progress: ${describeProgress(computeProgress(breakdown))}`);
+    }
+
     lines.push("");
     lines.push("");
 
     for (const step of breakdown.steps) {
         lines.push(stepSep);
-        lines.push(`Step ${step.id}: ${step.title}`);
+        lines.push(tracked
+            ? `${STATUS_MARKERS[statusOf(step)]} Step ${step.id}: ${step.title} (${statusOf(step)})`
+            : `Step ${step.id}: ${step.title}`);
         lines.push(stepSep);
         lines.push(`Description: ${step.description}`);
 
         if (step.files && step.files.length > 0) {
             lines.push("Files:");
             for (const file of step.files) {
-                lines.push(`  - ${file}`);
+                // Grounded plans say whether each file already exists or would be created.
+                const status = step.fileStatus?.[file];
+                lines.push(status ? `  - ${file} (${status})` : `  - ${file}`);
             }
         } else {
             lines.push("Files: None specified");
         }
 
+        if (step.dependsOn && step.dependsOn.length > 0) {
+            lines.push(`Depends on: ${step.dependsOn.map(id => `Step ${id}`).join(", ")}`);
+        }
+
+        if (step.source) {
+            lines.push(`Source: ${step.source}`);
+        }
+
+        if (step.notes && step.notes.length > 0) {
+            lines.push("Notes:");
+            for (const note of step.notes) {
+                lines.push(`  - ${note.at}: ${note.text}`);
+            }
+        }
+
+        lines.push("");
+        lines.push("");
+    }
+
+    // Parallel groups are only interesting when some wave holds more than one step.
+    if (breakdown.waves && breakdown.waves.some(wave => wave.length > 1)) {
+        lines.push(stepSep);
+        lines.push("Parallel Waves");
+        lines.push(stepSep);
+        breakdown.waves.forEach((wave, index) => {
+            lines.push(`Wave ${index + 1}: ${wave.map(id => `Step ${id}`).join(", ")}`);
+        });
         lines.push("");
         lines.push("");
     }
@@ -42,4 +92,173 @@ export function formatTaskBreakdown(breakdown: TaskBreakdown): string {
     lines.push(headerSep);
 
     return lines.join("\n");
-}
\ No newline at end of file
+}
+
+/**
+ * A formatter turns a TaskBreakdown into the text of one output format.
+ */
+export type BreakdownFormatter = (breakdown: TaskBreakdown) => string;
+
+// Registered formatters keyed by format name (lowercase).
+const formatters = new Map<string, BreakdownFormatter>();
+
+/**
+ * Register (or replace) an output format.
+ * @param name Format name used by callers and the CLI --format option.
+ * @param formatter Function producing the formatted output.
+ */
+export function registerFormatter(name: string, formatter: BreakdownFormatter): void {
+    formatters.set(name.toLowerCase(), formatter);
+}
+
+/**
+ * List the names of all registered output formats.
+ */
+export function listFormats(): string[] {
+    return [...formatters.keys()];
+}
+
+/**
+ * Format a breakdown using a registered output format.
+ * @param breakdown The breakdown to format.
+ * @param format Format name (default "text").
+ * @throws Error if the format is not registered.
+ */
+export function formatBreakdown(breakdown: TaskBreakdown, format: string = "text"): string {
+    const formatter = formatters.get(format.toLowerCase());
+    if (!formatter) {
+        throw new Error(`Unknown output format "${format}". Available formats: ${listFormats().join(", ")}`);
+    }
+    return formatter(breakdown);
+}
+
+/**
+ * GitHub-flavoured Markdown with a checkbox per step, ready to paste into a PR.
+ */
+export function formatMarkdown(breakdown: TaskBreakdown): string {
+    const lines: string[] = [];
+
+    lines.push("## Task Breakdown");
+    lines.push("");
+    lines.push(`**Task:** ${breakdown.taskDescription}`);
+    lines.push("");
+
+    const tracked = isTracked(breakdown);
+    if (tracked) {
+        lines.push(`**Progress:** ${describeProgress(computeProgress(breakdown))}`);
+        lines.push("");
+    }
+
+    for (const step of breakdown.steps) {
+        // Finished steps are checked; other non-pending states are named after the title.
+        const status = statusOf(step);
+        const checked = status === "done" || status === "skipped" ? "x" : " ";
+        const label = tracked && status !== "pending" && status !== "done" ? ` _(${status})_` : "";
+        lines.push(`- [${checked}] **Step ${step.id}: ${step.title}**${label}`);
+        lines.push(`  ${step.description}`);
+
+        if (step.files && step.files.length > 0) {
+            const files = step.files.map(file => {
+                const status = step.fileStatus?.[file];
+                return status ? `\`${file}\` (${status})` : `\`${file}\``;
+            });
+            lines.push(`  Files: ${files.join(", ")}`);
+        }
+
+        if (step.dependsOn && step.dependsOn.length > 0) {
+            lines.push(`  Depends on: ${step.dependsOn.map(id => `Step ${id}`).join(", ")}`);
+        }
+
+        if (step.source) {
+            lines.push(`  Source: ${step.source}`);
+        }
+
+        for (const note of step.notes || []) {
+            lines.push(`  Note (${note.at}): ${note.text}`);
+        }
+    }
+
+    if (breakdown.waves && breakdown.waves.some(wave => wave.length > 1)) {
+        lines.push("");
+        lines.push("### Parallel Waves");
+        lines.push("");
+        breakdown.waves.forEach((wave, index) => {
+            lines.push(`${index + 1}. ${wave.map(id => `Step ${id}`).join(", ")}`);
+        });
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * JSON with recursively sorted keys, so the same breakdown always produces the same bytes.
+ */
+export function formatJSON(breakdown: TaskBreakdown): string {
+    return JSON.stringify(sortKeys(breakdown), null, 2);
+}
+
+/**
+ * YAML rendering of the breakdown (string values are always double-quoted to stay unambiguous).
+ */
+export function formatYAML(breakdown: TaskBreakdown): string {
+    return stringifyYAML(sortKeys(breakdown), { defaultStringType: "QUOTE_DOUBLE", defaultKeyType: "PLAIN", lineWidth: 0 }).trimEnd();
+}
+
+/**
+ * Mermaid flowchart with one node per step and an edge per dependency.
+ */
+export function formatMermaid(breakdown: TaskBreakdown): string {
+    const lines: string[] = ["flowchart TD"];
+
+    for (const step of breakdown.steps) {
+        lines.push(`    S${step.id}["${escapeMermaid(`${step.id}. ${step.title}`)}"]`);
+    }
+
+    for (const [id, prerequisites] of resolveDependencies(breakdown.steps)) {
+        for (const dep of prerequisites) {
+            lines.push(`    S${dep} --> S${id}`);
+        }
+    }
+
+    // Colour nodes by status once the plan is being tracked.
+    if (isTracked(breakdown)) {
+        lines.push("    classDef done fill:#d4edda,stroke:#28a745");
+        lines.push("    classDef inProgress fill:#fff3cd,stroke:#ffc107");
+        lines.push("    classDef skipped fill:#e2e3e5,stroke:#6c757d");
+        lines.push("    classDef blocked fill:#f8d7da,stroke:#dc3545");
+        for (const step of breakdown.steps) {
+            const status = statusOf(step);
+            if (status !== "pending") {
+                lines.push(`    class S${step.id} ${status === "in-progress" ? "inProgress" : status}`);
+            }
+        }
+    }
+
+    return lines.join("\n");
+}
+
+function escapeMermaid(label: string): string {
+    return label.replace(/"/g, "#quot;").replace(/[<>]/g, ch => (ch === "<" ? "#lt;" : "#gt;"));
+}
+
+function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === "object") {
+        const sorted: Record<string, any> = {};
+        for (const key of Object.keys(value).sort()) {
+            if (value[key] !== undefined) sorted[key] = sortKeys(value[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
+
+registerFormatter("text", formatTaskBreakdown);
+registerFormatter("markdown", formatMarkdown);
+registerFormatter("md", formatMarkdown);
+registerFormatter("json", formatJSON);
+registerFormatter("yaml", formatYAML);
+registerFormatter("yml", formatYAML);
+registerFormatter("mermaid", formatMermaid);
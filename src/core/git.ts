@@ -0,0 +1,104 @@
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Read-only access to local git changes through the git CLI.
+ * Paths are reported relative to the directory the functions are called with,
+ * matching the workspace-relative paths in grounded plans.
+ */
+
+export type ChangeKind = "added" | "modified" | "deleted" | "renamed";
+
+export interface ChangedFile {
+    path: string;
+    kind: ChangeKind;
+
+    // Previous path of a renamed file.
+    oldPath?: string;
+}
+
+// Largest diff handed back by getDiff (in characters); anything beyond is cut off.
+const MAX_DIFF_CHARS = 20000;
+
+/**
+ * List files changed in a git range (e.g. "main..HEAD", "HEAD~3") or, without a range,
+ * in the working tree compared with HEAD, including untracked files.
+ * @throws Error if the directory is not inside a git repository or git fails.
+ */
+export function getChangedFiles(root: string, range?: string): ChangedFile[] {
+    if (range) {
+        return parseNameStatus(git(root, ["diff", "--name-status", "--relative", "-M", range]));
+    }
+
+    const head = hasHead(root);
+    const changes = head
+        ? parseNameStatus(git(root, ["diff", "--name-status", "--relative", "-M", "HEAD"]))
+        : [];
+
+    // New files nobody has staged yet are changes too; before the first commit, everything is new.
+    const untracked = git(root, ["ls-files", "--others", "--exclude-standard", ...(head ? [] : ["--cached"])]);
+    for (const path of splitLines(untracked)) {
+        if (!changes.some(c => c.path === path)) {
+            changes.push({ path, kind: "added" });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Unified diff of the given files for a range or the working tree.
+ * Untracked files are shown as entirely added. Long diffs are truncated.
+ */
+export function getDiff(root: string, files: string[], range?: string): string {
+    if (files.length === 0) return "";
+
+    let diff = git(root, ["diff", "--relative", range || (hasHead(root) ? "HEAD" : "--cached"), "--", ...files]);
+
+    if (!range) {
+        const untracked = new Set(splitLines(git(root, ["ls-files", "--others", "--exclude-standard", "--", ...files])));
+        for (const file of files) {
+            if (!untracked.has(file) || !existsSync(join(root, file))) continue;
+            const added = readFileSync(join(root, file), "utf-8").split("\n").map(line => `+${line}`).join("\n");
+            diff += `--- /dev/null\n+++ b/${file}\n${added}\n`;
+        }
+    }
+
+    return diff.length > MAX_DIFF_CHARS ? `${diff.slice(0, MAX_DIFF_CHARS)}\n[diff truncated]` : diff;
+}
+
+function parseNameStatus(output: string): ChangedFile[] {
+    return splitLines(output).map(line => {
+        const [status, first, second] = line.split("\t");
+        switch (status[0]) {
+            case "A": return { path: first, kind: "added" as const };
+            case "D": return { path: first, kind: "deleted" as const };
+            case "R": return { path: second, kind: "renamed" as const, oldPath: first };
+            // Copies, type changes and the like all count as modifications.
+            default: return { path: second ?? first, kind: "modified" as const };
+        }
+    });
+}
+
+function hasHead(root: string): boolean {
+    try {
+        git(root, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function git(root: string, args: string[]): string {
+    try {
+        return execFileSync("git", args, { cwd: root, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], maxBuffer: 64 * 1024 * 1024 });
+    } catch (error: any) {
+        const message = (error.stderr && String(error.stderr).trim()) || error.message;
+        throw new Error(`git ${args[0]} failed: ${message}`);
+    }
+}
+
+function splitLines(output: string): string[] {
+    return output.split("\n").map(line => line.trim()).filter(Boolean);
+}
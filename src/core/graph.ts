@@ -0,0 +1,110 @@
+import { Step } from "../types/analysis";
+
+/**
+ * Step dependency graph utilities.
+ * Resolves each step's prerequisites, validates the graph and groups steps into
+ * topological "waves" whose members can be worked on in parallel.
+ */
+
+/**
+ * Resolve the prerequisites of every step.
+ * Steps without `dependsOn` implicitly depend on the step listed before them,
+ * so plans from strategies that know nothing about dependencies stay a straight line.
+ * @param steps Steps in plan order.
+ * @returns Map from step id to the ids it depends on.
+ */
+export function resolveDependencies(steps: Step[]): Map<number, number[]> {
+    const deps = new Map<number, number[]>();
+
+    steps.forEach((step, index) => {
+        if (step.dependsOn) {
+            deps.set(step.id, [...new Set(step.dependsOn)]);
+        } else {
+            deps.set(step.id, index > 0 ? [steps[index - 1].id] : []);
+        }
+    });
+
+    return deps;
+}
+
+/**
+ * Check that the step graph is well formed: unique ids, no dangling references,
+ * no self-dependencies and no cycles.
+ * @param steps Steps to check.
+ * @returns List of problems (empty when the graph is valid).
+ */
+export function findGraphProblems(steps: Step[]): string[] {
+    const problems: string[] = [];
+
+    const seen = new Set<number>();
+    for (const step of steps) {
+        if (seen.has(step.id)) {
+            problems.push(`Duplicate step id ${step.id}`);
+        }
+        seen.add(step.id);
+    }
+
+    const deps = resolveDependencies(steps);
+    for (const [id, prerequisites] of deps) {
+        for (const dep of prerequisites) {
+            if (dep === id) {
+                problems.push(`Step ${id} depends on itself`);
+            } else if (!seen.has(dep)) {
+                problems.push(`Step ${id} depends on unknown step ${dep}`);
+            }
+        }
+    }
+
+    // Cycle detection only makes sense once ids and references are sound.
+    if (problems.length === 0) {
+        const { remaining } = layer(deps);
+        if (remaining.length > 0) {
+            problems.push(`Steps ${remaining.join(", ")} can never start because of a dependency cycle`);
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Validate the step graph.
+ * @param steps Steps to check.
+ * @throws Error listing every problem found.
+ */
+export function validateStepGraph(steps: Step[]): void {
+    const problems = findGraphProblems(steps);
+    if (problems.length > 0) {
+        throw new Error(`Invalid step dependency graph: ${problems.join("; ")}`);
+    }
+}
+
+/**
+ * Group steps into topological waves. Every step in a wave only depends on steps
+ * from earlier waves, so the members of one wave can run side by side.
+ * @param steps Steps with a valid dependency graph.
+ * @returns Arrays of step ids, in execution order.
+ * @throws Error if the graph is invalid.
+ */
+export function computeWaves(steps: Step[]): number[][] {
+    validateStepGraph(steps);
+    return layer(resolveDependencies(steps)).waves;
+}
+
+// Kahn's algorithm, one layer at a time. Ids left over belong to a cycle.
+function layer(deps: Map<number, number[]>): { waves: number[][]; remaining: number[] } {
+    const waves: number[][] = [];
+    const done = new Set<number>();
+    let pending = [...deps.keys()];
+
+    while (pending.length > 0) {
+        const ready = pending.filter(id => (deps.get(id) || []).every(dep => done.has(dep)));
+        if (ready.length === 0) break;
+
+        ready.sort((a, b) => a - b);
+        waves.push(ready);
+        ready.forEach(id => done.add(id));
+        pending = pending.filter(id => !done.has(id));
+    }
+
+    return { waves, remaining: pending.sort((a, b) => a - b) };
+}
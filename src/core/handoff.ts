@@ -0,0 +1,240 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join, extname } from "path";
+import { parse as parseYAML } from "yaml";
+import { TaskBreakdown, Step } from "../types/analysis";
+import { computeWaves } from "./graph";
+import { statusOf, isTracked } from "./progress";
+import { sanitizeScope } from "./templates";
+
+/**
+ * Agent handoff: turns a plan into self-contained prompts, one per step or per wave,
+ * that can be pasted into (or piped to) a coding agent.
+ *
+ * Prompts are rendered from agent profiles: built-in profiles live in src/agents and a
+ * project can add or override them in .traycer/agents (JSON or YAML).
+ */
+
+export interface AgentProfile {
+    name: string;
+    description?: string;
+
+    // Prompt text with {{placeholders}} (see PROFILE_PLACEHOLDERS).
+    template: string;
+
+    // Extra rules added to the default constraints.
+    constraints?: string[];
+
+    // File the profile was loaded from.
+    source?: string;
+}
+
+export type HandoffUnit = "step" | "wave";
+
+export interface HandoffOptions {
+    // One prompt per step (default) or per parallel wave.
+    unit?: HandoffUnit;
+
+    profile: AgentProfile;
+}
+
+export interface HandoffPrompt {
+    // "step-3" or "wave-2".
+    id: string;
+    title: string;
+    stepIds: number[];
+    files: string[];
+    prompt: string;
+}
+
+export interface HandoffBundle {
+    taskDescription: string;
+    profile: string;
+    unit: HandoffUnit;
+    prompts: HandoffPrompt[];
+}
+
+// Directory holding the built-in agent profiles.
+const BUILT_IN_PROFILES_DIR = join(__dirname, "../agents");
+
+// Project-level profile directory, relative to the project root.
+export const PROJECT_AGENTS_DIR = join(".traycer", "agents");
+
+const PROFILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const PROFILE_PLACEHOLDERS = ["task", "title", "steps", "priorSteps", "files", "acceptanceCriteria", "constraints"];
+
+/**
+ * Load the built-in agent profiles and the project's .traycer/agents profiles.
+ * A project profile replaces a built-in profile with the same name.
+ * @throws Error naming the file and field of the first invalid profile.
+ */
+export function loadAgentProfiles(projectRoot?: string): AgentProfile[] {
+    const directories = [BUILT_IN_PROFILES_DIR];
+    if (projectRoot) directories.push(join(projectRoot, PROJECT_AGENTS_DIR));
+
+    const byName = new Map<string, AgentProfile>();
+    for (const dir of directories) {
+        if (!existsSync(dir)) continue;
+
+        const files = readdirSync(dir).filter(name => PROFILE_EXTENSIONS.includes(extname(name).toLowerCase())).sort();
+        for (const name of files) {
+            const profile = loadAgentProfileFile(join(dir, name));
+            byName.set(profile.name, profile);
+        }
+    }
+
+    return [...byName.values()];
+}
+
+/**
+ * Load and validate a single JSON or YAML agent profile.
+ * @throws Error naming the file and the invalid field.
+ */
+export function loadAgentProfileFile(file: string): AgentProfile {
+    const fail = (field: string, problem: string): never => {
+        throw new Error(`Invalid agent profile ${file}: field "${field}" ${problem}`);
+    };
+
+    let raw: any;
+    try {
+        const content = readFileSync(file, "utf-8");
+        raw = extname(file).toLowerCase() === ".json" ? JSON.parse(content) : parseYAML(content);
+    } catch (error: any) {
+        throw new Error(`Invalid agent profile ${file}: ${error.message}`);
+    }
+
+    if (!raw || typeof raw !== "object") {
+        throw new Error(`Invalid agent profile ${file}: expected an object`);
+    }
+    if (typeof raw.name !== "string" || !raw.name.trim()) fail("name", "must be a non-empty string");
+    if (typeof raw.template !== "string" || !raw.template.trim()) fail("template", "must be a non-empty string");
+    if (raw.description !== undefined && typeof raw.description !== "string") fail("description", "must be a string");
+    if (raw.constraints !== undefined && (!Array.isArray(raw.constraints) || raw.constraints.some((c: any) => typeof c !== "string"))) {
+        fail("constraints", "must be an array of strings");
+    }
+
+    for (const m of (raw.template as string).matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+        if (!PROFILE_PLACEHOLDERS.includes(m[1])) {
+            fail("template", `uses unknown placeholder {{${m[1]}}} (known: ${PROFILE_PLACEHOLDERS.join(", ")})`);
+        }
+    }
+
+    return {
+        name: raw.name.trim(),
+        description: raw.description,
+        template: raw.template,
+        constraints: raw.constraints,
+        source: file,
+    };
+}
+
+/**
+ * Build one prompt per step or per wave.
+ * Each prompt carries the task, what earlier waves already did, the target files,
+ * acceptance criteria and constraints, so it can be handed to an agent on its own.
+ */
+export function buildHandoffs(breakdown: TaskBreakdown, options: HandoffOptions): HandoffBundle {
+    const unit = options.unit ?? "step";
+    const waves = breakdown.waves ?? computeWaves(breakdown.steps);
+    const byId = new Map(breakdown.steps.map(step => [step.id, step]));
+    const tracked = isTracked(breakdown);
+
+    // Group steps into units, remembering the wave each unit starts in.
+    const units: Array<{ id: string; title: string; steps: Step[]; wave: number }> = [];
+    waves.forEach((wave, index) => {
+        const steps = wave.map(id => byId.get(id)).filter((s): s is Step => s !== undefined);
+        if (unit === "wave") {
+            const title = steps.length === 1
+                ? `Wave ${index + 1}: Step ${steps[0].id}: ${steps[0].title}`
+                : `Wave ${index + 1}: Steps ${steps.map(s => s.id).join(", ")}`;
+            units.push({ id: `wave-${index + 1}`, title, steps, wave: index });
+        } else {
+            steps.forEach(step => units.push({ id: `step-${step.id}`, title: `Step ${step.id}: ${step.title}`, steps: [step], wave: index }));
+        }
+    });
+
+    const prompts = units.map(current => {
+        const prior = waves.slice(0, current.wave).flat().map(id => byId.get(id)).filter((s): s is Step => s !== undefined);
+        const later = waves.slice(current.wave + 1).flat().map(id => byId.get(id)).filter((s): s is Step => s !== undefined);
+        const files = [...new Set(current.steps.flatMap(step => step.files))];
+
+        const vars: Record<string, string> = {
+            task: breakdown.taskDescription,
+            title: current.title,
+            steps: current.steps.map(step => `Step ${step.id}: ${step.title}\n${step.description}`).join("\n\n"),
+            priorSteps: bulletList(prior.map(step => {
+                const status = tracked ? ` [${statusOf(step)}]` : "";
+                const touched = step.files.length > 0 ? ` (${step.files.join(", ")})` : "";
+                return `Step ${step.id}: ${step.title}${touched}${status}`;
+            }), "Nothing yet; this is the first part of the plan."),
+            files: bulletList(files.map(file => `${file}${describeFileStatus(current.steps, file)}`), "No specific files; decide based on the repository."),
+            acceptanceCriteria: bulletList(acceptanceCriteria(current.steps)),
+            constraints: bulletList(constraints(options.profile, files, later)),
+        };
+
+        return {
+            id: current.id,
+            title: current.title,
+            stepIds: current.steps.map(step => step.id),
+            files,
+            prompt: options.profile.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => vars[name] ?? "").trimEnd() + "\n",
+        };
+    });
+
+    return { taskDescription: breakdown.taskDescription, profile: options.profile.name, unit, prompts };
+}
+
+/**
+ * Write one Markdown file per prompt, named in execution order (e.g. "01-step-1-create-model.md").
+ * @returns The written file paths.
+ */
+export function writeHandoffMarkdown(bundle: HandoffBundle, dir: string): string[] {
+    mkdirSync(dir, { recursive: true });
+
+    return bundle.prompts.map((prompt, index) => {
+        const slug = sanitizeScope(prompt.title.replace(/^(Step|Wave) \d+:\s*/, "")).slice(0, 40).replace(/-+$/, "");
+        const name = `${String(index + 1).padStart(2, "0")}-${prompt.id}${slug ? `-${slug}` : ""}.md`;
+        const file = join(dir, name);
+        writeFileSync(file, prompt.prompt);
+        return file;
+    });
+}
+
+function acceptanceCriteria(steps: Step[]): string[] {
+    const criteria: string[] = [];
+
+    for (const step of steps) {
+        criteria.push(`Step ${step.id} (${step.title}) is implemented as described`);
+        for (const file of step.files) {
+            const status = step.fileStatus?.[file];
+            criteria.push(status === "existing" ? `\`${file}\` is updated` : status === "new" ? `\`${file}\` is created` : `\`${file}\` is created or updated`);
+        }
+    }
+
+    criteria.push("The project builds and its existing tests pass");
+    return criteria;
+}
+
+function constraints(profile: AgentProfile, files: string[], later: Step[]): string[] {
+    const rules = [
+        files.length > 0
+            ? "Only change the files listed above; explain why if another file has to change"
+            : "Keep the change as small as the step allows",
+        "Follow the existing code style and conventions of the repository",
+    ];
+
+    if (later.length > 0) {
+        rules.push(`Leave later steps for later: ${later.map(step => step.title).join("; ")}`);
+    }
+
+    return [...rules, ...(profile.constraints ?? [])];
+}
+
+function describeFileStatus(steps: Step[], file: string): string {
+    const status = steps.map(step => step.fileStatus?.[file]).find(s => s !== undefined);
+    return status ? ` (${status})` : "";
+}
+
+function bulletList(items: string[], empty: string = "None."): string {
+    return items.length > 0 ? items.map(item => `- ${item}`).join("\n") : empty;
+}
@@ -2,6 +2,121 @@
  * Public API module for core functionalities.
  * So callers don't have to import from individual files.
  */
-export { parseTask } from "./parser";
+export { parseTask, classifyTask, secondaryTypes, typeFromLabels } from "./parser";
 export { Analyzer } from "./analyzer";
-export { formatTaskBreakdown } from "./formatter";
\ No newline at end of file
+export type { AnalyzerEvent, AnalyzerOptions } from "./analyzer";
+export { PlanLinter, LINT_RULES, formatLintIssues } from "./lint";
+export type { LintRule, LintFinding, LintContext, PlanLinterOptions, LintResult } from "./lint";
+export { StepStreamParser } from "./stream";
+export {
+    formatTaskBreakdown,
+    formatBreakdown,
+    registerFormatter,
+    listFormats,
+    formatMarkdown,
+    formatJSON,
+    formatYAML,
+    formatMermaid,
+} from "./formatter";
+export type { BreakdownFormatter } from "./formatter";
+export { tokenize, stepSimilarity, areSimilarSteps } from "./similarity";
+export { resolveDependencies, findGraphProblems, validateStepGraph, computeWaves } from "./graph";
+export { indexWorkspace, groundSteps, resolveFilePath, describeWorkspace } from "./workspace";
+export {
+    loadTemplates,
+    loadTemplateDirectory,
+    loadTemplateFile,
+    validateTemplate,
+    selectTemplate,
+    renderTemplate,
+    listBuiltInPacks,
+    PROJECT_TEMPLATES_DIR,
+} from "./templates";
+export { PlanCache, normalizeTaskText, DEFAULT_CACHE_DIR } from "./cache";
+export type { PlanCacheOptions, CacheKeyParts, CacheEntry, CacheEntryInfo, CacheStats } from "./cache";
+export { diffBreakdowns, formatPlanDiff } from "./diff";
+export type { PlanDiff, StepChange, StepChangeKind } from "./diff";
+export {
+    RefinementSession,
+    parseEditCommand,
+    applyEditCommand,
+    isPlanRefiner,
+    EDIT_COMMAND_HELP,
+} from "./refine";
+export type { PlanRefiner, RefinementResult, EditCommand } from "./refine";
+export { FilePlanRepository, DEFAULT_PLANS_DIR } from "./plans";
+export type { PlanRepository, StoredPlan, StoredPlanSummary, NewPlan } from "./plans";
+export {
+    STEP_STATUSES,
+    statusOf,
+    isTracked,
+    setStepStatus,
+    addStepNote,
+    unfinishedPrerequisites,
+    readySteps,
+    computeProgress,
+    describeProgress,
+} from "./progress";
+export type { StatusChangeOptions, PlanProgress } from "./progress";
+export { getChangedFiles, getDiff } from "./git";
+export type { ChangedFile, ChangeKind } from "./git";
+export { verifyPlan, formatVerificationReport } from "./verify";
+export type { StepJudge, StepJudgment, StepVerdict, StepVerification, VerificationReport } from "./verify";
+export {
+    loadAgentProfiles,
+    loadAgentProfileFile,
+    buildHandoffs,
+    writeHandoffMarkdown,
+    PROJECT_AGENTS_DIR,
+    PROFILE_PLACEHOLDERS,
+} from "./handoff";
+export type { AgentProfile, HandoffUnit, HandoffOptions, HandoffPrompt, HandoffBundle } from "./handoff";
+export { parseCSV, parseCSVRecords, formatCSV } from "./csv";
+export { scanMarkers, findMarkers, findEnclosingSymbol, markerToTask, groupMarkers, prefillMarkerFile, MARKER_KINDS } from "./scan";
+export type { CodeMarker, MarkerKind, MarkerGroup, MarkerGrouping, EnclosingSymbol, SymbolKind, ScanOptions } from "./scan";
+export { parseStackTrace, splitStackTrace, locateFrames, suspectFiles, failingFrame, describeCallSite, formatErrorReport } from "./stacktrace";
+export { readIssues, detectIssueFormat, parseGitHubIssues, parseJiraCSV, parseMarkdownIssue, issueToTask, extractAcceptanceCriteria, extractLinkedFiles } from "./issues";
+export type { IssueFields } from "./issues";
+export { exportGitHubIssues, exportJiraCSV, exportLinearIssues, exportTickets, writeTickets, TICKET_FORMATS, TICKET_FILES } from "./tickets";
+export type { TicketFormat, TicketExportOptions, GitHubIssuePayload, GitHubIssueExport, LinearIssue, LinearRelation, LinearExport } from "./tickets";
+export { readBatchFile, detectBatchFormat, parseBatchInput, runBatch, formatBatchSummary } from "./batch";
+export type { BatchInputFormat, BatchItem, BatchResult, BatchSummary, BatchOptions } from "./batch";
+export {
+    UsageLog,
+    BudgetExceededError,
+    estimateCost,
+    summarizeUsage,
+    DEFAULT_USAGE_FILE,
+    DEFAULT_PRICES,
+    USAGE_DIMENSIONS,
+} from "./usage";
+export type {
+    ModelPrice,
+    PriceTable,
+    UsageOperation,
+    UsageRecord,
+    UsageDimension,
+    UsageSummary,
+    UsageLogOptions,
+} from "./usage";
+export {
+    ConfigError,
+    resolveConfig,
+    loadConfigFile,
+    formatConfig,
+    getConfigValue,
+    CONFIG_SETTINGS,
+    BUILT_IN_PROFILES,
+    BUNDLED_CONFIG_FILE,
+    PROJECT_CONFIG_FILE,
+} from "./config";
+export type {
+    AnalyzerConfig,
+    LLMSettings,
+    StrategyName,
+    ConfigValue,
+    ConfigSetting,
+    ConfigProfile,
+    ResolvedConfig,
+    ResolveConfigOptions,
+} from "./config";
@@ -0,0 +1,290 @@
+import { readFileSync, readdirSync, statSync } from "fs";
+import { basename, extname, join, posix } from "path";
+import { parse as parseYAML } from "yaml";
+import { Task, IssueTracker, TaskSource } from "../types/analysis";
+import { parseTask } from "./parser";
+import { parseStackTrace, splitStackTrace } from "./stacktrace";
+import { parseCSV } from "./csv";
+
+/**
+ * Issue tracker importers.
+ * Reads offline exports (GitHub issues JSON from the API or `gh issue list --json`, Jira CSV and
+ * Markdown issue files with YAML front matter) into tasks that carry the issue's title, body,
+ * labels, linked files and acceptance criteria. Labels feed the classification, a stack trace in
+ * the body becomes the task's error, and the body is passed on to the LLM prompt.
+ */
+
+// The tracker-neutral fields an importer extracts from one issue.
+export interface IssueFields {
+    title: string;
+    body: string;
+    labels: string[];
+
+    // Files and criteria listed outside the body (front matter, a Jira custom field); the body is searched as well.
+    files?: string[];
+    acceptanceCriteria?: string[];
+
+    source: TaskSource;
+}
+
+// Headings that start the acceptance criteria section: "## Acceptance criteria", "h3. Acceptance Criteria", "**Acceptance criteria:**".
+const CRITERIA_HEADING = /^\s*(?:#{1,6}\s*|h[1-6]\.\s*)?(?:\*\*|__)?\s*(?:acceptance criteria|definition of done)\s*:?\s*(?:\*\*|__)?\s*:?\s*$/i;
+
+// Any other heading ends the section.
+const MARKDOWN_HEADING = /^\s*(?:#{1,6}\s+\S|(?:\*\*|__)[^*_]+(?:\*\*|__)\s*:?\s*$)/;
+const JIRA_HEADING = /^\s*h[1-6]\.\s/;
+
+// "- item", "* [ ] item", "1. item", "# item" (a Jira numbered list).
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)]|#+(?=\s))\s+(?:\[[ xX]\]\s+)?(.+?)\s*$/;
+
+// Relative paths with a directory ("src/cart/service.ts", "app/main.py:12", Jira's "{{lib/x.js}}");
+// inside backticks a bare file name counts too.
+const PATH_IN_TEXT = /(?:^|[\s("'[{])((?:[\w.-]+\/)+[\w.-]+\.[A-Za-z]\w{0,4})(?::\d+)*(?=$|[\s)"'\]},;:.!?])/g;
+const FILE_IN_CODE = /`([\w./-]+\.[A-Za-z]\w{0,4})(?::\d+)*`/g;
+
+// Jira CSV columns holding acceptance criteria, matched in lower case.
+const JIRA_CRITERIA_COLUMNS = ["acceptance criteria", "custom field (acceptance criteria)"];
+
+/**
+ * The tracker an export comes from, by its path: a directory or .md file holds Markdown issues,
+ * a .csv file is a Jira export and anything else is GitHub JSON.
+ */
+export function detectIssueFormat(path: string): IssueTracker {
+    if (statSync(path).isDirectory()) return "markdown";
+    const ext = extname(path).toLowerCase();
+    if (ext === ".md" || ext === ".markdown") return "markdown";
+    if (ext === ".csv") return "jira";
+    return "github";
+}
+
+/**
+ * Read an export into tasks, one per issue, in the order of the export.
+ * A directory is read as Markdown issues: every .md file in it, sorted by name.
+ * @param path Export file, or a directory of Markdown issues.
+ * @param format Tracker of the export (detected from the path when omitted).
+ * @throws Error if the file cannot be read or is not a valid export of that tracker.
+ */
+export function readIssues(path: string, format: IssueTracker = detectIssueFormat(path)): Task[] {
+    if (format === "markdown" && statSync(path).isDirectory()) {
+        return readdirSync(path)
+            .filter(name => /\.(md|markdown)$/i.test(name))
+            .sort()
+            .map(name => parseMarkdownIssue(readFileSync(join(path, name), "utf-8"), name));
+    }
+
+    const content = readFileSync(path, "utf-8");
+    if (format === "jira") return parseJiraCSV(content);
+    if (format === "markdown") return [parseMarkdownIssue(content, basename(path))];
+    return parseGitHubIssues(content);
+}
+
+/**
+ * Parse GitHub issues: an array or a single issue as returned by the REST API or
+ * `gh issue list --json number,title,body,labels,url`, or a search result ({ items: [...] }).
+ * Pull requests (entries with a "pull_request" field) are left out.
+ * @throws Error if the text is not JSON or an issue has no title.
+ */
+export function parseGitHubIssues(text: string): Task[] {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`Invalid GitHub issues JSON: ${error.message}`);
+    }
+
+    const issues: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+    return issues
+        .filter(issue => !issue?.pull_request)
+        .map((issue, index) => {
+            if (!issue || typeof issue.title !== "string" || !issue.title.trim()) {
+                throw new Error(`GitHub issue ${index + 1} has no title`);
+            }
+
+            const id = String(issue.number ?? issue.id ?? index + 1);
+            const url = issue.html_url ?? issue.url;
+            return issueToTask({
+                title: issue.title.trim(),
+                body: typeof issue.body === "string" ? issue.body : "",
+                labels: (issue.labels ?? [])
+                    .map((label: any) => typeof label === "string" ? label : label?.name)
+                    .filter((name: any): name is string => typeof name === "string" && name.trim() !== ""),
+                source: { tracker: "github", id, ...(typeof url === "string" ? { url } : {}) },
+            });
+        });
+}
+
+/**
+ * Parse a Jira CSV export ("Export > CSV"). Uses the Summary, Issue key, Issue Type, Description
+ * and Labels columns; Jira repeats the Labels column once per label, and every copy is read.
+ * The issue type (Bug, Story, ...) counts as a label. An "Acceptance Criteria" custom field is
+ * used when the export has one.
+ * @throws Error if there is no Summary column or the CSV is malformed.
+ */
+export function parseJiraCSV(text: string): Task[] {
+    const [header, ...rows] = parseCSV(text);
+    if (!header) return [];
+
+    const names = header.map(name => name.trim().toLowerCase());
+    const column = (name: string) => names.indexOf(name);
+    const columns = (...wanted: string[]) => names.flatMap((name, index) => wanted.includes(name) ? [index] : []);
+
+    const summary = column("summary");
+    if (summary < 0) throw new Error(`Jira CSV has no "Summary" column (columns: ${header.join(", ")})`);
+    const key = column("issue key");
+    const id = column("issue id");
+    const type = column("issue type");
+    const description = column("description");
+    const labels = columns("labels");
+    const criteria = columns(...JIRA_CRITERIA_COLUMNS);
+
+    return rows
+        .filter(row => (row[summary] ?? "").trim())
+        .map((row, index) => {
+            const value = (at: number) => at >= 0 ? (row[at] ?? "").trim() : "";
+            const criteriaText = criteria.map(value).filter(Boolean).join("\n");
+
+            return issueToTask({
+                title: value(summary),
+                body: value(description),
+                labels: [value(type), ...labels.map(value)].filter(Boolean),
+                acceptanceCriteria: criteriaText ? listItems(criteriaText, "jira") : undefined,
+                source: { tracker: "jira", id: value(key) || value(id) || String(index + 1) },
+            });
+        });
+}
+
+/**
+ * Parse a Markdown issue: optional YAML front matter (title, id, labels, type, files,
+ * acceptance_criteria, url) followed by the body. Without a front matter title, the first
+ * "# " heading is the title; without either, the file name is.
+ * @param file File name, used for the title and id when the issue names neither.
+ * @throws Error if the front matter is not valid YAML.
+ */
+export function parseMarkdownIssue(text: string, file: string = "issue.md"): Task {
+    let meta: Record<string, any> = {};
+    let body = text.replace(/^\uFEFF/, "");
+
+    const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(body);
+    if (frontMatter) {
+        try {
+            meta = parseYAML(frontMatter[1]) ?? {};
+        } catch (error: any) {
+            throw new Error(`Invalid front matter in ${file}: ${error.message}`);
+        }
+        body = body.slice(frontMatter[0].length);
+    }
+
+    let title = typeof meta.title === "string" ? meta.title.trim() : "";
+    if (!title) {
+        const heading = /^\s*#\s+(.+?)\s*#*\s*$/m.exec(body);
+        if (heading) {
+            title = heading[1];
+            body = body.replace(heading[0], "");
+        } else {
+            title = basename(file).replace(/\.\w+$/, "").replace(/[-_]+/g, " ");
+        }
+    }
+
+    const labels = [...toList(meta.type), ...toList(meta.labels)];
+    const criteria = toList(meta.acceptance_criteria ?? meta.acceptanceCriteria ?? meta.acceptance);
+    const files = toList(meta.files);
+    const id = meta.id ?? meta.number ?? meta.key;
+
+    return issueToTask({
+        title,
+        body: body.trim(),
+        labels,
+        ...(files.length > 0 ? { files } : {}),
+        ...(criteria.length > 0 ? { acceptanceCriteria: criteria } : {}),
+        source: {
+            tracker: "markdown",
+            id: id !== undefined ? String(id) : basename(file).replace(/\.\w+$/, ""),
+            ...(typeof meta.url === "string" ? { url: meta.url } : {}),
+        },
+    });
+}
+
+/**
+ * Turn the fields of an issue into a task.
+ * The title is the description and is classified with the issue's labels ahead of its keywords;
+ * a stack trace in the body becomes the task's error. Linked files are the given ones plus the
+ * paths the body mentions, and a task whose title names no scope is scoped to the first of them.
+ */
+export function issueToTask(issue: IssueFields): Task {
+    const { prose, trace } = splitStackTrace(issue.body);
+    const hasTrace = trace !== undefined && parseStackTrace(trace) !== undefined;
+    const task = parseTask(issue.title, { labels: issue.labels, ...(hasTrace ? { trace } : {}) });
+
+    const dialect = issue.source.tracker === "jira" ? "jira" : "markdown";
+    const files = [...new Set([...(issue.files ?? []), ...extractLinkedFiles(hasTrace ? prose : issue.body)])];
+    const acceptanceCriteria = issue.acceptanceCriteria ?? extractAcceptanceCriteria(issue.body, dialect);
+
+    if (!task.scope && files.length > 0) {
+        task.scope = posix.basename(files[0]).replace(/\.\w+$/, "");
+    }
+
+    return {
+        ...task,
+        title: issue.title,
+        body: issue.body,
+        labels: issue.labels,
+        files,
+        acceptanceCriteria,
+        source: issue.source,
+    };
+}
+
+/**
+ * The list items under an "Acceptance criteria" (or "Definition of done") heading, up to the next heading.
+ * Without list items, the non-empty lines of the section are the criteria.
+ * @param dialect "jira" for Jira wiki markup, where "# item" is a numbered list item rather than a heading.
+ */
+export function extractAcceptanceCriteria(body: string, dialect: "markdown" | "jira" = "markdown"): string[] {
+    const lines = body.split(/\r?\n/);
+    const start = lines.findIndex(line => CRITERIA_HEADING.test(line));
+    if (start < 0) return [];
+
+    const heading = dialect === "jira" ? JIRA_HEADING : MARKDOWN_HEADING;
+    const end = lines.findIndex((line, index) => index > start && (heading.test(line) || JIRA_HEADING.test(line)));
+    return listItems(lines.slice(start + 1, end < 0 ? undefined : end).join("\n"), dialect);
+}
+
+/**
+ * Relative file paths mentioned in a text, in order of appearance: paths with a directory
+ * ("src/cart/service.ts") anywhere, and bare file names inside backticks. URLs and absolute paths are ignored.
+ */
+export function extractLinkedFiles(text: string): string[] {
+    const found: Array<{ at: number; path: string }> = [];
+    for (const match of text.matchAll(PATH_IN_TEXT)) {
+        found.push({ at: match.index! + match[0].indexOf(match[1]), path: match[1] });
+    }
+    for (const match of text.matchAll(FILE_IN_CODE)) {
+        if (!match[1].startsWith("/") && !match[1].includes("//")) found.push({ at: match.index! + 1, path: match[1] });
+    }
+
+    const paths = found
+        .sort((a, b) => a.at - b.at)
+        .map(({ path }) => path.replace(/^\.\//, ""))
+        .filter(path => !/^\.\.?\//.test(path) && !/^(www\.|[\w-]+\.(com|org|io|net)\/)/.test(path));
+    return [...new Set(paths)];
+}
+
+// List items of a section, or its non-empty lines when it has none.
+function listItems(text: string, dialect: "markdown" | "jira"): string[] {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const item = (line: string) => {
+        const match = LIST_ITEM.exec(line);
+        // In Markdown, "# text" is a heading rather than a list item.
+        return match && !(dialect === "markdown" && /^\s*#/.test(line)) ? match[1] : undefined;
+    };
+
+    const items = lines.map(item).filter((text): text is string => Boolean(text));
+    return items.length > 0 ? items : lines.map(line => line.trim());
+}
+
+// A front matter value as a list of strings: a YAML list, or a comma-separated string.
+function toList(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    const items = Array.isArray(value) ? value : String(value).split(",");
+    return items.map(item => String(item).trim()).filter(Boolean);
+}
@@ -0,0 +1,79 @@
+/**
+ * Tolerant JSON extraction for LLM replies.
+ * Models asked for JSON still wrap it in Markdown fences, add a sentence before or after it,
+ * or leave a trailing comma. extractJSON finds the first balanced JSON object in such text.
+ */
+
+/**
+ * Parse the JSON object in an LLM reply.
+ * Tries the text as is, then the contents of a ```json fence, then the first balanced {...}
+ * in the text, each also with trailing commas removed.
+ *
+ * @param text - The reply text.
+ * @returns The parsed object.
+ * @throws SyntaxError if no candidate parses.
+ */
+export function extractJSON(text: string): any {
+    const fenced = /```[a-zA-Z]*\s*([\s\S]*?)```/.exec(text)?.[1];
+    const candidates = [text.trim(), fenced?.trim(), findBalancedObject(fenced ?? text), findBalancedObject(text)];
+
+    let firstError: SyntaxError | undefined;
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        for (const variant of [candidate, removeTrailingCommas(candidate)]) {
+            try {
+                return JSON.parse(variant);
+            } catch (error: any) {
+                firstError = firstError ?? error;
+            }
+        }
+    }
+
+    throw firstError ?? new SyntaxError("No JSON object found in the response");
+}
+
+// The first {...} whose braces balance, ignoring braces inside strings; undefined if there is none.
+function findBalancedObject(text: string): string | undefined {
+    const start = text.indexOf("{");
+    if (start < 0) return undefined;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === "\\") escaped = true;
+            else if (char === "\"") inString = false;
+        } else if (char === "\"") {
+            inString = true;
+        } else if (char === "{") {
+            depth++;
+        } else if (char === "}" && --depth === 0) {
+            return text.slice(start, i + 1);
+        }
+    }
+    return undefined;
+}
+
+// Drop commas directly before a closing brace or bracket, outside strings.
+function removeTrailingCommas(text: string): string {
+    let result = "";
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === "\\") escaped = true;
+            else if (char === "\"") inString = false;
+        } else if (char === "\"") {
+            inString = true;
+        } else if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+            continue;
+        }
+        result += char;
+    }
+    return result;
+}
@@ -0,0 +1,270 @@
+import { posix } from "path";
+import { Step, Task, TaskBreakdown, TaskType, LintIssue, LintSeverity } from "../types/analysis";
+import { stepSimilarity } from "./similarity";
+import { findGraphProblems } from "./graph";
+
+/**
+ * Rule-based quality checks for plans.
+ *
+ * Strategies only guarantee that a plan has the right shape; the linter looks for plans that are
+ * well-formed but poor: duplicate or out-of-order ids, near-duplicate steps, file paths outside the
+ * project, no tests step where one is expected, too few or too many steps.
+ * Each rule has an id and a severity and can be disabled per project. Rules with a safe fix
+ * (renumbering steps, normalizing paths) are repaired in fix mode.
+ */
+
+// What a rule reports; the linter adds the rule id, severity and fixability.
+export interface LintFinding {
+    message: string;
+    stepId?: number;
+}
+
+// Settings the rules read.
+export interface LintContext {
+    task?: Task;
+    minSteps: number;
+    maxSteps: number;
+    similarityThreshold: number;
+}
+
+export interface LintRule {
+    id: string;
+    severity: LintSeverity;
+    description: string;
+    check(breakdown: TaskBreakdown, context: LintContext): LintFinding[];
+
+    // Repair what check reports without changing what the plan means.
+    fix?(steps: Step[]): Step[];
+}
+
+export interface PlanLinterOptions {
+    // Ids of rules to skip.
+    disabled?: string[];
+
+    // Step count guideline (default 3 to 7, as in the LLM prompt).
+    minSteps?: number;
+    maxSteps?: number;
+
+    // Minimum title similarity for two steps to count as near duplicates (default 0.8).
+    similarityThreshold?: number;
+
+    // Apply the safe fixes before reporting (default false).
+    fix?: boolean;
+}
+
+export interface LintResult {
+    // The plan, fixed in fix mode (waves are left to the caller to recompute).
+    breakdown: TaskBreakdown;
+
+    // Issues remaining after any fixes, errors first.
+    issues: LintIssue[];
+
+    // Ids of the rules whose fixes were applied.
+    fixed: string[];
+}
+
+// Task types whose plans should include a tests step.
+const TYPES_NEEDING_TESTS = [TaskType.CRUD, TaskType.FEATURE, TaskType.BUGFIX];
+
+const TESTS_PATTERN = /\b(tests?|testing|specs?)\b/i;
+const TEST_FILE_PATTERN = /(^|[/._-])(tests?|specs?|__tests__)([/._-]|$)/i;
+
+const SEVERITY_ORDER: LintSeverity[] = ["error", "warning", "info"];
+
+// Ids 1..n in plan order, with dependsOn mapped along. A duplicated id maps to its first step.
+function renumberSteps(steps: Step[]): Step[] {
+    const mapping = new Map<number, number>();
+    steps.forEach((step, index) => {
+        if (!mapping.has(step.id)) mapping.set(step.id, index + 1);
+    });
+
+    return steps.map((step, index) => ({
+        ...step,
+        id: index + 1,
+        ...(step.dependsOn ? { dependsOn: step.dependsOn.map(dep => mapping.get(dep) ?? dep) } : {}),
+    }));
+}
+
+// "./src//a.ts" and "src\a.ts" -> "src/a.ts". Absolute and ".." paths are left alone (see unsafe-path).
+function normalizeFilePath(file: string): string {
+    const slashed = file.trim().replace(/\\/g, "/");
+    if (slashed.startsWith("/") || /^[a-z]:\//i.test(slashed)) return slashed;
+
+    const normalized = posix.normalize(slashed).replace(/\/+$/, "");
+    return normalized.startsWith("..") ? slashed : normalized;
+}
+
+function isUnsafePath(file: string): boolean {
+    const slashed = file.replace(/\\/g, "/");
+    return slashed.startsWith("/") || slashed.startsWith("~") || /^[a-z]:\//i.test(slashed) || slashed.split("/").includes("..");
+}
+
+export const LINT_RULES: LintRule[] = [
+    {
+        id: "duplicate-id",
+        severity: "error",
+        description: "Every step needs its own id",
+        check: ({ steps }) => {
+            const seen = new Set<number>();
+            const findings: LintFinding[] = [];
+            for (const step of steps) {
+                if (seen.has(step.id)) findings.push({ message: `Step id ${step.id} is used more than once`, stepId: step.id });
+                seen.add(step.id);
+            }
+            return findings;
+        },
+        fix: renumberSteps,
+    },
+    {
+        id: "sequential-ids",
+        severity: "warning",
+        description: "Step ids should run 1, 2, 3, ... in plan order",
+        check: ({ steps }) => {
+            const index = steps.findIndex((step, i) => step.id !== i + 1);
+            return index < 0 ? [] : [{ message: `Step ids are not sequential (step ${index + 1} has id ${steps[index].id})`, stepId: steps[index].id }];
+        },
+        fix: renumberSteps,
+    },
+    {
+        id: "dependency-graph",
+        severity: "error",
+        description: "Dependencies must point at other steps of the plan without cycles",
+        // Duplicate ids are reported by duplicate-id.
+        check: ({ steps }) => findGraphProblems(steps)
+            .filter(problem => !problem.startsWith("Duplicate step id"))
+            .map(message => ({ message })),
+    },
+    {
+        id: "near-duplicate",
+        severity: "warning",
+        description: "Two steps should not describe the same work",
+        check: ({ steps }, context) => {
+            const findings: LintFinding[] = [];
+            steps.forEach((step, i) => {
+                const earlier = steps.slice(0, i).find(other => stepSimilarity(other, step) >= context.similarityThreshold);
+                if (earlier) {
+                    findings.push({ message: `Step ${step.id} "${step.title}" looks like a duplicate of step ${earlier.id} "${earlier.title}"`, stepId: step.id });
+                }
+            });
+            return findings;
+        },
+    },
+    {
+        id: "unsafe-path",
+        severity: "error",
+        description: "File paths must be relative and stay inside the project",
+        check: ({ steps }) => steps.flatMap(step => step.files
+            .filter(isUnsafePath)
+            .map(file => ({ message: `Step ${step.id} refers to "${file}", which is absolute or outside the project`, stepId: step.id }))),
+    },
+    {
+        id: "path-format",
+        severity: "info",
+        description: "File paths should be normalized (forward slashes, no \"./\" or repeated slashes)",
+        check: ({ steps }) => steps.flatMap(step => step.files
+            .filter(file => normalizeFilePath(file) !== file)
+            .map(file => ({ message: `Step ${step.id} file "${file}" should be written "${normalizeFilePath(file)}"`, stepId: step.id }))),
+        fix: steps => steps.map(step => {
+            const files = [...new Set(step.files.map(normalizeFilePath))];
+            const fileStatus = step.fileStatus
+                ? Object.fromEntries(Object.entries(step.fileStatus).map(([file, status]) => [normalizeFilePath(file), status]))
+                : undefined;
+            return { ...step, files, ...(fileStatus ? { fileStatus } : {}) };
+        }),
+    },
+    {
+        id: "missing-tests",
+        severity: "warning",
+        description: "CRUD, feature and bugfix plans should include a tests step",
+        check: ({ steps }, { task }) => {
+            if (!task || !TYPES_NEEDING_TESTS.includes(task.type)) return [];
+
+            const hasTests = steps.some(step =>
+                TESTS_PATTERN.test(`${step.title} ${step.description}`) || step.files.some(file => TEST_FILE_PATTERN.test(file)));
+            return hasTests ? [] : [{ message: `${task.type} plan has no step that adds or updates tests` }];
+        },
+    },
+    {
+        id: "step-count",
+        severity: "warning",
+        description: "Plans should have between 3 and 7 steps (configurable)",
+        check: ({ steps }, { minSteps, maxSteps }) => {
+            if (steps.length < minSteps) return [{ message: `Plan has ${steps.length} steps; the guideline is at least ${minSteps}` }];
+            if (steps.length > maxSteps) return [{ message: `Plan has ${steps.length} steps; the guideline is at most ${maxSteps}` }];
+            return [];
+        },
+    },
+];
+
+export class PlanLinter {
+    readonly rules: LintRule[];
+    private context: Omit<LintContext, "task">;
+    private fix: boolean;
+
+    /**
+     * @throws Error if a disabled rule id is unknown or the step limits are inconsistent.
+     */
+    constructor(options: PlanLinterOptions = {}) {
+        const disabled = options.disabled ?? [];
+        const unknown = disabled.filter(id => !LINT_RULES.some(rule => rule.id === id));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown lint rule ${unknown.map(id => `"${id}"`).join(", ")}. Known rules: ${LINT_RULES.map(rule => rule.id).join(", ")}`);
+        }
+
+        this.rules = LINT_RULES.filter(rule => !disabled.includes(rule.id));
+        this.context = {
+            minSteps: options.minSteps ?? 3,
+            maxSteps: options.maxSteps ?? 7,
+            similarityThreshold: options.similarityThreshold ?? 0.8,
+        };
+        if (this.context.minSteps > this.context.maxSteps) {
+            throw new Error(`Lint step limits are inconsistent: minimum ${this.context.minSteps} is above maximum ${this.context.maxSteps}`);
+        }
+        this.fix = options.fix ?? false;
+    }
+
+    /**
+     * Check a plan against the enabled rules, first applying the safe fixes in fix mode.
+     *
+     * @param breakdown - The plan to check.
+     * @param task - The parsed task, needed by rules that depend on the task type.
+     * @returns The (fixed) plan, the remaining issues and the rules that were fixed.
+     */
+    lint(breakdown: TaskBreakdown, task?: Task): LintResult {
+        const context: LintContext = { ...this.context, task };
+        let current = breakdown;
+        const fixed: string[] = [];
+
+        // Step 1: Apply each fix whose rule reports something; later rules see the fixed plan.
+        if (this.fix) {
+            for (const rule of this.rules) {
+                if (!rule.fix || rule.check(current, context).length === 0) continue;
+                current = { ...current, steps: rule.fix(current.steps) };
+                fixed.push(rule.id);
+            }
+        }
+
+        // Step 2: Report what is left, most severe first.
+        const issues = this.rules.flatMap(rule => rule.check(current, context).map(finding => ({
+            rule: rule.id,
+            severity: rule.severity,
+            message: finding.message,
+            ...(finding.stepId !== undefined ? { stepId: finding.stepId } : {}),
+            fixable: rule.fix !== undefined,
+        })));
+        issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+        return { breakdown: current, issues, fixed };
+    }
+}
+
+/**
+ * Render lint issues one per line, e.g. "warning  step-count  Plan has 9 steps; ...".
+ */
+export function formatLintIssues(issues: LintIssue[]): string {
+    if (issues.length === 0) return "No issues found.";
+
+    return issues
+        .map(issue => `${issue.severity.padEnd(7)}  ${issue.rule.padEnd(16)}  ${issue.message}${issue.fixable ? " (fixable)" : ""}`)
+        .join("\n");
+}
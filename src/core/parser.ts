@@ -1,30 +1,190 @@
-import { Task, TaskType } from "../types/analysis";
+import { posix } from "path";
+import { Task, TaskType, TaskClassification, ErrorReport } from "../types/analysis";
+import { parseStackTrace, splitStackTrace, failingFrame } from "./stacktrace";
+
+/**
+ * Keyword signal for one task type.
+ * Strong signals (e.g. "crud", "login") outweigh generic verbs (e.g. "create", "add").
+ */
+interface Signal {
+    pattern: RegExp;
+    weight: number;
+}
+
+const SIGNALS: Record<Exclude<TaskType, TaskType.OTHER>, Signal[]> = {
+    [TaskType.CRUD]: [
+        { pattern: /\bcrud\b/, weight: 3 },
+        { pattern: /\b(create|read|update|delete)\b/, weight: 1 },
+        { pattern: /\b(endpoints?|resources?|entit(y|ies))\b/, weight: 1 },
+    ],
+    [TaskType.AUTHENTICATION]: [
+        { pattern: /\bauth\w*/, weight: 3 },
+        { pattern: /\b(log ?in|log ?out|sign ?in|sign ?up|register)\b/, weight: 3 },
+        { pattern: /\bpasswords?\b/, weight: 2 },
+        { pattern: /\b(jwt|oauth|sso|sessions?|(refresh |access )?tokens?)\b/, weight: 1 },
+    ],
+    [TaskType.REFACTOR]: [
+        { pattern: /\b(refactor\w*|restructure\w*)/, weight: 3 },
+        { pattern: /\b(clean up|cleanup|improve code)\b/, weight: 2 },
+        { pattern: /\b(simplify|extract|rename|decouple)\b/, weight: 1 },
+    ],
+    [TaskType.FEATURE]: [
+        { pattern: /\bfeatures?\b/, weight: 2 },
+        { pattern: /\b(add|implement|support|enhance|build|introduce)\b/, weight: 1 },
+    ],
+    [TaskType.BUGFIX]: [
+        { pattern: /\b(bugs?|fix\w*|defects?)\b/, weight: 3 },
+        { pattern: /\b(errors?|crash\w*|broken|issues?|patch|regression)\b/, weight: 2 },
+    ],
+};
+
+// Ties are broken in the order the original first-match cascade used.
+const PRIORITY: TaskType[] = [
+    TaskType.CRUD,
+    TaskType.AUTHENTICATION,
+    TaskType.REFACTOR,
+    TaskType.FEATURE,
+    TaskType.BUGFIX,
+];
+
+// Issue tracker labels (and Jira issue types) that name a task type, compared in lower case
+// after dropping a "type:", "type/" or "kind/" prefix.
+const LABEL_TYPES: Record<string, TaskType> = {
+    "bug": TaskType.BUGFIX,
+    "defect": TaskType.BUGFIX,
+    "regression": TaskType.BUGFIX,
+    "crash": TaskType.BUGFIX,
+    "fix": TaskType.BUGFIX,
+    "enhancement": TaskType.FEATURE,
+    "feature": TaskType.FEATURE,
+    "feature request": TaskType.FEATURE,
+    "new feature": TaskType.FEATURE,
+    "story": TaskType.FEATURE,
+    "improvement": TaskType.FEATURE,
+    "refactor": TaskType.REFACTOR,
+    "refactoring": TaskType.REFACTOR,
+    "tech debt": TaskType.REFACTOR,
+    "technical debt": TaskType.REFACTOR,
+    "cleanup": TaskType.REFACTOR,
+    "auth": TaskType.AUTHENTICATION,
+    "authentication": TaskType.AUTHENTICATION,
+    "login": TaskType.AUTHENTICATION,
+    "crud": TaskType.CRUD,
+};
+
+/**
+ * The task type named by the first label that names one, e.g. "bug" or "type: enhancement".
+ * @returns The type and the label it came from, or undefined if no label names a type.
+ */
+export function typeFromLabels(labels: string[]): { type: TaskType; label: string } | undefined {
+    for (const label of labels) {
+        const name = label.trim().toLowerCase().replace(/^(type|kind)\s*[:/]\s*/, "").replace(/[-_]+/g, " ");
+        if (LABEL_TYPES[name]) return { type: LABEL_TYPES[name], label };
+    }
+    return undefined;
+}
+
+/**
+ * Score a description against every task type.
+ * Each matching signal adds its weight; a signal that matches the leading verb adds one more,
+ * so "fix the create button" leans towards BUGFIX rather than CRUD.
+ * @param description The user-provided task description.
+ * @returns Ranked candidates with confidences summing to 1 (OTHER when nothing matched).
+ */
+export function classifyTask(description: string): TaskClassification[] {
+    const lower = description.toLowerCase();
+    const firstWord = lower.trim().split(/\s+/)[0] || "";
+
+    const scored: Array<TaskClassification & { score: number }> = [];
+
+    for (const type of PRIORITY) {
+        let score = 0;
+        const evidence: string[] = [];
+
+        for (const signal of SIGNALS[type as keyof typeof SIGNALS]) {
+            const matches = lower.match(new RegExp(signal.pattern.source, "g"));
+            if (!matches) continue;
+
+            score += signal.weight;
+            if (matches.some(m => m === firstWord)) score += 1;
+            for (const m of matches) {
+                if (!evidence.includes(m)) evidence.push(m);
+            }
+        }
+
+        if (score > 0) {
+            scored.push({ type, confidence: 0, evidence, score });
+        }
+    }
+
+    if (scored.length === 0) {
+        return [{ type: TaskType.OTHER, confidence: 1, evidence: [] }];
+    }
+
+    const total = scored.reduce((sum, c) => sum + c.score, 0);
+
+    return scored
+        // Array.prototype.sort is stable, so equal scores keep PRIORITY order.
+        .sort((a, b) => b.score - a.score)
+        .map(({ type, evidence, score }) => ({
+            type,
+            confidence: Math.round((score / total) * 100) / 100,
+            evidence,
+        }));
+}
+
+/**
+ * Types that scored close enough to the primary type to be worth mixing into the plan.
+ * @param task Parsed task.
+ * @param ratio Minimum confidence relative to the primary candidate (default 0.75).
+ * @returns Secondary task types, best first (empty for single-label tasks).
+ */
+export function secondaryTypes(task: Task, ratio: number = 0.75): TaskType[] {
+    const [primary, ...rest] = task.classifications || [];
+    if (!primary) return [];
+
+    return rest
+        .filter(c => c.type !== primary.type && c.confidence >= primary.confidence * ratio)
+        .map(c => c.type);
+}
 
 /**
  * Classifies a task description and extracts scope/requirements.
  * Transforms raw user input into structured Task object.
+ * Issue labels that name a task type (see typeFromLabels) rank that type first, ahead of the keywords.
+ * A stack trace or error log, passed as `options.trace` or pasted into the description, is parsed
+ * into `task.error` and makes the task a BUGFIX.
  * @param description The user-provided task description.
+ * @param options.trace Stack trace or log excerpt attached to the task.
+ * @param options.labels Issue tracker labels of the task.
  * @returns Task object.
  */
-export function parseTask(description: string): Task {
-    const lower = description.toLowerCase();
-    let type: TaskType = TaskType.OTHER;
-    // Classify type
-    if (/\b(create|read|update|delete|crud)\b/.test(lower)) {
-        type = TaskType.CRUD;
-    } else if (/auth(entication)?|login|logout|register|signup|signin/.test(lower)) {
-        type = TaskType.AUTHENTICATION;
-    } else if (/refactor|restructure|clean up|improve code/.test(lower)) {
-        type = TaskType.REFACTOR;
-    } else if (/feature|add|implement|support|enhance/.test(lower)) {
-        type = TaskType.FEATURE;
-    } else if (/bug|fix|error|issue|defect|patch/.test(lower)) {
-        type = TaskType.BUGFIX;
+export function parseTask(description: string, options: { trace?: string; labels?: string[] } = {}): Task {
+    // Separate an attached or pasted stack trace from the prose.
+    let error: ErrorReport | undefined;
+    if (options.trace !== undefined) {
+        error = parseStackTrace(options.trace);
+    } else {
+        const { prose, trace } = splitStackTrace(description);
+        error = trace !== undefined ? parseStackTrace(trace) : undefined;
+        if (error) description = prose;
+    }
+    if (error && !description.trim()) {
+        description = `Fix ${error.errorType}${error.message ? `: ${error.message}` : ""}`;
     }
 
+    // Classify type: ranked candidates, the best one becomes the primary type.
+    // A label naming a type outranks the keywords; a stack trace is proof of a bug and outranks both.
+    let classifications = classifyTask(description);
+    const labelled = options.labels ? typeFromLabels(options.labels) : undefined;
+    if (labelled) classifications = leadWith(classifications, labelled.type, `label:${labelled.label}`);
+    if (error) classifications = leadWith(classifications, TaskType.BUGFIX, error.errorType);
+    const type = classifications[0].type;
+
     // Extract scope: look for words after 'in', 'for', 'to', or code entities.
     let scope = "";
-    const scopeMatch = description.match(/(?:in|for|to) ([\w\s./-]+)/i);
+    // Word boundary so "login" or "into" don't count as "in".
+    const scopeMatch = description.match(/\b(?:in|for|to) ([\w\s./-]+)/i);
     if (scopeMatch) {
         scope = scopeMatch[1].trim();
     } else {
@@ -32,6 +192,10 @@ export function parseTask(description: string): Task {
         const entityMatch = description.match(/(function|file|class|module|component) ([\w./-]+)/i);
         if (entityMatch) {
             scope = `${entityMatch[1]} ${entityMatch[2]}`;
+        } else if (error) {
+            // Last resort: the module the error surfaced in, e.g. "service" for src/cart/service.ts.
+            const frame = failingFrame(error);
+            if (frame) scope = posix.basename(frame.file.replace(/\\/g, "/")).replace(/\.\w+$/, "");
         }
     }
 
@@ -39,5 +203,21 @@ export function parseTask(description: string): Task {
         description,
         type,
         scope,
+        classifications,
+        ...(error ? { error } : {}),
+    };
+}
+
+// Put `type` first on outside evidence: the other candidates keep half their confidence and `type` gets the rest.
+function leadWith(classifications: TaskClassification[], type: TaskType, evidence: string): TaskClassification[] {
+    const others = classifications
+        .filter(c => c.type !== type && c.type !== TaskType.OTHER)
+        .map(c => ({ ...c, confidence: Math.round(c.confidence * 50) / 100 }));
+    const keywords = classifications.find(c => c.type === type)?.evidence ?? [];
+    const lead: TaskClassification = {
+        type,
+        confidence: Math.round((1 - others.reduce((sum, c) => sum + c.confidence, 0)) * 100) / 100,
+        evidence: [evidence, ...keywords.filter(keyword => keyword !== evidence)],
     };
-}
\ No newline at end of file
+    return [lead, ...others];
+}
@@ -0,0 +1,176 @@
+import { randomBytes } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Task, TaskBreakdown } from "../types/analysis";
+import { isTracked, computeProgress } from "./progress";
+
+/**
+ * Plan history: every generated plan is stored with the task it was made for,
+ * so earlier proposals can be listed, shown and diffed later.
+ *
+ * Storage sits behind the PlanRepository interface; FilePlanRepository keeps
+ * one JSON file per plan, and other backends (e.g. SQLite) can implement the same interface.
+ */
+
+export interface StoredPlan {
+    id: string;
+    createdAt: string;
+    updatedAt?: string;
+    strategy?: string;
+    model?: string;
+    task: Task;
+
+    // The plan this one was refined from.
+    parentId?: string;
+
+    breakdown: TaskBreakdown;
+}
+
+// What callers supply when saving; the repository assigns the id and timestamp.
+export interface NewPlan {
+    task: Task;
+    breakdown: TaskBreakdown;
+    parentId?: string;
+}
+
+// Listing information about a stored plan, without its steps.
+export interface StoredPlanSummary {
+    id: string;
+    createdAt: string;
+    strategy?: string;
+    model?: string;
+    taskDescription: string;
+    steps: number;
+    parentId?: string;
+
+    // Finished (done or skipped) steps as a percentage; undefined until the plan is tracked.
+    percent?: number;
+}
+
+export interface PlanRepository {
+    save(plan: NewPlan): StoredPlan;
+
+    /**
+     * Find a plan by id or unique id prefix.
+     * @throws Error if the prefix matches more than one plan.
+     */
+    get(id: string): StoredPlan | undefined;
+
+    /**
+     * Replace the breakdown of a stored plan, e.g. after a step status change.
+     * @throws Error if the plan does not exist.
+     */
+    update(id: string, breakdown: TaskBreakdown): StoredPlan;
+
+    // Newest first.
+    list(): StoredPlanSummary[];
+
+    /**
+     * @returns Whether a plan was removed.
+     */
+    delete(id: string): boolean;
+}
+
+export const DEFAULT_PLANS_DIR = join(".traycer", "plans");
+
+/**
+ * Stores each plan as `<id>.json` in a directory (default ".traycer/plans").
+ */
+export class FilePlanRepository implements PlanRepository {
+    readonly dir: string;
+
+    constructor(dir: string = DEFAULT_PLANS_DIR) {
+        this.dir = dir;
+    }
+
+    save(plan: NewPlan): StoredPlan {
+        const stored: StoredPlan = {
+            id: randomBytes(4).toString("hex"),
+            createdAt: new Date().toISOString(),
+            strategy: plan.breakdown.strategy,
+            model: plan.breakdown.model,
+            task: plan.task,
+            parentId: plan.parentId,
+            breakdown: plan.breakdown,
+        };
+
+        if (plan.parentId && !this.get(plan.parentId)) {
+            throw new Error(`Parent plan "${plan.parentId}" does not exist`);
+        }
+
+        mkdirSync(this.dir, { recursive: true });
+        writeFileSync(this.fileFor(stored.id), JSON.stringify(stored, null, 2));
+
+        return stored;
+    }
+
+    get(id: string): StoredPlan | undefined {
+        const matches = this.ids().filter(candidate => candidate.startsWith(id));
+        if (matches.length > 1) {
+            throw new Error(`Plan id "${id}" is ambiguous (matches ${matches.join(", ")})`);
+        }
+        return matches.length === 1 ? this.read(matches[0]) : undefined;
+    }
+
+    update(id: string, breakdown: TaskBreakdown): StoredPlan {
+        const plan = this.get(id);
+        if (!plan) {
+            throw new Error(`No saved plan with id "${id}"`);
+        }
+
+        const updated: StoredPlan = { ...plan, breakdown, updatedAt: new Date().toISOString() };
+        writeFileSync(this.fileFor(plan.id), JSON.stringify(updated, null, 2));
+
+        return updated;
+    }
+
+    list(): StoredPlanSummary[] {
+        const summaries: StoredPlanSummary[] = [];
+
+        for (const id of this.ids()) {
+            const plan = this.read(id);
+            if (!plan) continue;
+
+            summaries.push({
+                id: plan.id,
+                createdAt: plan.createdAt,
+                strategy: plan.strategy,
+                model: plan.model,
+                taskDescription: plan.task.description,
+                steps: plan.breakdown.steps.length,
+                parentId: plan.parentId,
+                percent: isTracked(plan.breakdown) ? computeProgress(plan.breakdown).percent : undefined,
+            });
+        }
+
+        return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    delete(id: string): boolean {
+        const plan = this.get(id);
+        if (!plan) return false;
+
+        unlinkSync(this.fileFor(plan.id));
+        return true;
+    }
+
+    private ids(): string[] {
+        if (!existsSync(this.dir)) return [];
+        return readdirSync(this.dir)
+            .filter(name => name.endsWith(".json"))
+            .map(name => name.slice(0, -".json".length));
+    }
+
+    private read(id: string): StoredPlan | undefined {
+        try {
+            return JSON.parse(readFileSync(this.fileFor(id), "utf-8"));
+        } catch {
+            // Skip files that are not stored plans.
+            return undefined;
+        }
+    }
+
+    private fileFor(id: string): string {
+        return join(this.dir, `${id}.json`);
+    }
+}
@@ -0,0 +1,174 @@
+import { TaskBreakdown, Step, StepStatus } from "../types/analysis";
+import { resolveDependencies } from "./graph";
+
+/**
+ * Execution tracking for plans: step status changes, notes and progress summaries.
+ * Every function returns a new breakdown and leaves its input untouched.
+ */
+
+export const STEP_STATUSES: StepStatus[] = ["pending", "in-progress", "done", "skipped", "blocked"];
+
+// Statuses that satisfy a dependent step's prerequisite.
+const FINISHED: StepStatus[] = ["done", "skipped"];
+
+export interface StatusChangeOptions {
+    // Note recorded together with the change, e.g. why a step is blocked.
+    note?: string;
+
+    // Start the step even if its prerequisites are not finished.
+    force?: boolean;
+
+    // Timestamp to record (default: now).
+    now?: Date;
+}
+
+export interface PlanProgress {
+    total: number;
+    pending: number;
+    inProgress: number;
+    done: number;
+    skipped: number;
+    blocked: number;
+
+    // Finished (done or skipped) steps as a whole percentage of all steps.
+    percent: number;
+}
+
+export function statusOf(step: Step): StepStatus {
+    return step.status ?? "pending";
+}
+
+/**
+ * Whether any step carries execution state, i.e. someone has started tracking the plan.
+ */
+export function isTracked(breakdown: TaskBreakdown): boolean {
+    return breakdown.steps.some(step => step.status !== undefined && step.status !== "pending");
+}
+
+/**
+ * Move a step to a new status.
+ * Starting or finishing a step requires its prerequisites to be done or skipped.
+ * @throws Error if the step does not exist or its prerequisites are unfinished (without force).
+ */
+export function setStepStatus(
+    breakdown: TaskBreakdown,
+    stepId: number,
+    status: StepStatus,
+    options: StatusChangeOptions = {}
+): TaskBreakdown {
+    if (!STEP_STATUSES.includes(status)) {
+        throw new Error(`Unknown step status "${status}". Use one of: ${STEP_STATUSES.join(", ")}`);
+    }
+
+    const step = findStep(breakdown, stepId);
+
+    if ((status === "in-progress" || status === "done") && !options.force) {
+        const unfinished = unfinishedPrerequisites(breakdown, stepId);
+        if (unfinished.length > 0) {
+            throw new Error(
+                `Step ${stepId} cannot start: ${unfinished.map(id => `step ${id}`).join(", ")} ` +
+                `${unfinished.length === 1 ? "is" : "are"} not done yet`
+            );
+        }
+    }
+
+    const at = (options.now ?? new Date()).toISOString();
+    const updated: Step = { ...step, status, updatedAt: at };
+
+    if (status === "in-progress" && !updated.startedAt) {
+        updated.startedAt = at;
+    }
+    if (FINISHED.includes(status)) {
+        updated.completedAt = at;
+    } else {
+        delete updated.completedAt;
+    }
+    if (status === "pending") {
+        delete updated.startedAt;
+    }
+    if (options.note) {
+        updated.notes = [...(step.notes || []), { at, text: options.note }];
+    }
+
+    return replaceStep(breakdown, updated);
+}
+
+/**
+ * Attach a note to a step without changing its status.
+ * @throws Error if the step does not exist or the note is empty.
+ */
+export function addStepNote(breakdown: TaskBreakdown, stepId: number, text: string, now: Date = new Date()): TaskBreakdown {
+    if (!text.trim()) {
+        throw new Error("Note text cannot be empty");
+    }
+
+    const step = findStep(breakdown, stepId);
+    const at = now.toISOString();
+
+    return replaceStep(breakdown, { ...step, notes: [...(step.notes || []), { at, text: text.trim() }], updatedAt: at });
+}
+
+/**
+ * Ids of the prerequisites of a step that are neither done nor skipped.
+ */
+export function unfinishedPrerequisites(breakdown: TaskBreakdown, stepId: number): number[] {
+    const deps = resolveDependencies(breakdown.steps).get(stepId) || [];
+    const byId = new Map(breakdown.steps.map(s => [s.id, s]));
+
+    return deps.filter(id => {
+        const dep = byId.get(id);
+        return dep !== undefined && !FINISHED.includes(statusOf(dep));
+    });
+}
+
+/**
+ * Pending steps whose prerequisites are all finished, i.e. what can be picked up next.
+ */
+export function readySteps(breakdown: TaskBreakdown): Step[] {
+    return breakdown.steps.filter(
+        step => statusOf(step) === "pending" && unfinishedPrerequisites(breakdown, step.id).length === 0
+    );
+}
+
+/**
+ * Count steps per status.
+ */
+export function computeProgress(breakdown: TaskBreakdown): PlanProgress {
+    const count = (status: StepStatus) => breakdown.steps.filter(s => statusOf(s) === status).length;
+    const total = breakdown.steps.length;
+    const done = count("done");
+    const skipped = count("skipped");
+
+    return {
+        total,
+        pending: count("pending"),
+        inProgress: count("in-progress"),
+        done,
+        skipped,
+        blocked: count("blocked"),
+        percent: total === 0 ? 0 : Math.round(((done + skipped) / total) * 100),
+    };
+}
+
+/**
+ * One-line summary, e.g. "3/5 steps finished (60%), 1 in progress, 1 blocked".
+ */
+export function describeProgress(progress: PlanProgress): string {
+    const parts = [`${progress.done + progress.skipped}/${progress.total} steps finished (${progress.percent}%)`];
+    if (progress.inProgress > 0) parts.push(`${progress.inProgress} in progress`);
+    if (progress.blocked > 0) parts.push(`${progress.blocked} blocked`);
+    if (progress.skipped > 0) parts.push(`${progress.skipped} skipped`);
+    return parts.join(", ");
+}
+
+function findStep(breakdown: TaskBreakdown, stepId: number): Step {
+    const step = breakdown.steps.find(s => s.id === stepId);
+    if (!step) {
+        throw new Error(`Step ${stepId} does not exist`);
+    }
+    return step;
+}
+
+function replaceStep(breakdown: TaskBreakdown, updated: Step): TaskBreakdown {
+    return { ...breakdown, steps: breakdown.steps.map(s => (s.id === updated.id ? updated : s)) };
+}
@@ -0,0 +1,241 @@
+import { Task, TaskBreakdown, Step } from "../types/analysis";
+import { LLMMessage } from "../providers/LLMProvider";
+import { resolveDependencies, validateStepGraph, computeWaves } from "./graph";
+import { diffBreakdowns, PlanDiff } from "./diff";
+
+/**
+ * Multi-turn plan refinement.
+ * Deterministic edit commands (remove, move, insert, edit) work for every plan;
+ * free-form instructions ("we use Postgres") need a PlanRefiner such as LLMStrategy.
+ */
+
+/**
+ * A strategy that can revise an existing plan from a follow-up instruction.
+ */
+export interface PlanRefiner {
+    /**
+     * @param task The original task.
+     * @param current The plan to revise.
+     * @param instruction The user's follow-up instruction.
+     * @param history Conversation so far (empty on the first refinement).
+     * @returns The revised plan and the conversation including this turn.
+     */
+    refine(task: Task, current: TaskBreakdown, instruction: string, history: LLMMessage[]): Promise<RefinementResult>;
+}
+
+export interface RefinementResult {
+    breakdown: TaskBreakdown;
+    history: LLMMessage[];
+}
+
+export type EditCommand =
+    | { kind: "remove"; id: number }
+    | { kind: "move"; id: number; position: number }
+    | { kind: "insert"; after: number; title: string; description: string; files: string[] }
+    | { kind: "edit"; id: number; field: "title" | "description" | "files"; value: string };
+
+// Shown when an instruction is neither an edit command nor refinable by the strategy.
+export const EDIT_COMMAND_HELP = [
+    "remove <step>                                   Drop a step",
+    "move <step> to <position>                       Reorder a step",
+    "insert after|before <step>: <title> [| <description> [| file1, file2]]",
+    "add: <title> [| <description> [| file1, file2]]  Append a step",
+    "edit <step> title|description|files: <value>   Change one field",
+].join("\n");
+
+export function isPlanRefiner(strategy: unknown): strategy is PlanRefiner {
+    return typeof (strategy as PlanRefiner | undefined)?.refine === "function";
+}
+
+/**
+ * Parse a deterministic edit command.
+ * @returns The command, or undefined if the text is not one.
+ */
+export function parseEditCommand(text: string): EditCommand | undefined {
+    const input = text.trim();
+    let m: RegExpMatchArray | null;
+
+    if ((m = input.match(/^(?:remove|drop|delete)\s+(?:step\s+)?(\d+)$/i))) {
+        return { kind: "remove", id: Number(m[1]) };
+    }
+
+    if ((m = input.match(/^(?:move|reorder)\s+(?:step\s+)?(\d+)\s+to\s+(?:position\s+)?(\d+)$/i))) {
+        return { kind: "move", id: Number(m[1]), position: Number(m[2]) };
+    }
+
+    if ((m = input.match(/^insert\s+(after|before)\s+(?:step\s+)?(\d+)\s*:\s*(.+)$/i))) {
+        const after = m[1].toLowerCase() === "after" ? Number(m[2]) : Number(m[2]) - 1;
+        return { kind: "insert", after, ...parseStepText(m[3]) };
+    }
+
+    if ((m = input.match(/^(?:add|append)\s*:\s*(.+)$/i))) {
+        return { kind: "insert", after: Number.MAX_SAFE_INTEGER, ...parseStepText(m[1]) };
+    }
+
+    if ((m = input.match(/^edit\s+(?:step\s+)?(\d+)\s+(title|description|files)\s*:\s*(.*)$/i))) {
+        return { kind: "edit", id: Number(m[1]), field: m[2].toLowerCase() as "title" | "description" | "files", value: m[3].trim() };
+    }
+
+    return undefined;
+}
+
+/**
+ * Apply an edit command. Steps are renumbered afterwards and dependencies follow them;
+ * dependents of a removed step inherit its prerequisites.
+ * @throws Error if the command references a step that does not exist.
+ */
+export function applyEditCommand(breakdown: TaskBreakdown, command: EditCommand): TaskBreakdown {
+    // Work on explicit dependencies so renumbering cannot silently rewire implicit ones.
+    const deps = resolveDependencies(breakdown.steps);
+    let steps: Step[] = breakdown.steps.map(step => ({ ...step, dependsOn: deps.get(step.id) || [] }));
+
+    const indexOf = (id: number) => {
+        const index = steps.findIndex(s => s.id === id);
+        if (index === -1) throw new Error(`Step ${id} does not exist`);
+        return index;
+    };
+
+    switch (command.kind) {
+        case "remove": {
+            const removed = steps[indexOf(command.id)];
+            steps = steps
+                .filter(s => s !== removed)
+                .map(s => ({
+                    ...s,
+                    dependsOn: [...new Set(s.dependsOn!.flatMap(d => (d === removed.id ? removed.dependsOn! : [d])))],
+                }));
+            break;
+        }
+        case "move": {
+            const [moved] = steps.splice(indexOf(command.id), 1);
+            const position = Math.min(Math.max(command.position, 1), steps.length + 1);
+            steps.splice(position - 1, 0, moved);
+            break;
+        }
+        case "insert": {
+            const at = command.after >= Number.MAX_SAFE_INTEGER ? steps.length : command.after === 0 ? 0 : indexOf(command.after) + 1;
+            // Temporary id that cannot collide; renumbering below assigns the real one.
+            const id = steps.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+            steps.splice(at, 0, {
+                id,
+                title: command.title,
+                description: command.description,
+                files: command.files,
+                dependsOn: at > 0 ? [steps[at - 1].id] : [],
+            });
+            break;
+        }
+        case "edit": {
+            const index = indexOf(command.id);
+            const step = { ...steps[index] };
+            if (command.field === "files") {
+                step.files = splitFiles(command.value);
+                delete step.fileStatus;
+            } else {
+                if (!command.value) throw new Error(`Step ${command.id} ${command.field} cannot be empty`);
+                step[command.field] = command.value;
+            }
+            steps[index] = step;
+            break;
+        }
+    }
+
+    return { ...breakdown, steps: renumber(steps) };
+}
+
+/**
+ * A refinement conversation over one task.
+ * Keeps every version of the plan so changes can be diffed and undone.
+ */
+export class RefinementSession {
+    private task: Task;
+    private refiner?: PlanRefiner;
+    private versions: TaskBreakdown[];
+    private history: LLMMessage[] = [];
+    private historyLengths: number[] = [0];
+
+    constructor(task: Task, initial: TaskBreakdown, refiner?: PlanRefiner) {
+        this.task = task;
+        this.refiner = refiner;
+        this.versions = [initial];
+    }
+
+    get current(): TaskBreakdown {
+        return this.versions[this.versions.length - 1];
+    }
+
+    get versionCount(): number {
+        return this.versions.length;
+    }
+
+    // Whether free-form instructions are supported (not only edit commands).
+    get canRefineFreely(): boolean {
+        return Boolean(this.refiner);
+    }
+
+    /**
+     * Apply an edit command or a free-form instruction.
+     * @returns The new version and its diff against the previous one.
+     * @throws Error if the instruction is not an edit command and no refiner is available,
+     *         or if the revised plan has an invalid dependency graph.
+     */
+    async apply(instruction: string): Promise<{ breakdown: TaskBreakdown; diff: PlanDiff }> {
+        const previous = this.current;
+        let next: TaskBreakdown;
+
+        const command = parseEditCommand(instruction);
+        if (command) {
+            next = applyEditCommand(previous, command);
+        } else if (this.refiner) {
+            const result = await this.refiner.refine(this.task, previous, instruction, this.history);
+            next = { ...result.breakdown, strategy: result.breakdown.strategy ?? previous.strategy };
+            this.history = result.history;
+        } else {
+            throw new Error(`Not an edit command, and this strategy cannot refine free-form instructions. Supported commands:\n${EDIT_COMMAND_HELP}`);
+        }
+
+        validateStepGraph(next.steps);
+        next = { ...next, waves: computeWaves(next.steps) };
+        this.versions.push(next);
+        this.historyLengths.push(this.history.length);
+
+        return { breakdown: next, diff: diffBreakdowns(previous, next) };
+    }
+
+    /**
+     * Revert the last change.
+     * @returns The restored version, or undefined if there is nothing to undo.
+     */
+    undo(): TaskBreakdown | undefined {
+        if (this.versions.length <= 1) return undefined;
+
+        this.versions.pop();
+        this.historyLengths.pop();
+        this.history = this.history.slice(0, this.historyLengths[this.historyLengths.length - 1]);
+
+        return this.current;
+    }
+}
+
+function parseStepText(text: string): { title: string; description: string; files: string[] } {
+    const [title, description, files] = text.split("|").map(part => part.trim());
+    return {
+        title,
+        description: description || title,
+        files: files ? splitFiles(files) : [],
+    };
+}
+
+function splitFiles(value: string): string[] {
+    return value.split(",").map(f => f.trim()).filter(Boolean);
+}
+
+// Number steps 1..n in their current order and remap dependencies to the new ids.
+function renumber(steps: Step[]): Step[] {
+    const ids = new Map(steps.map((s, index) => [s.id, index + 1]));
+    return steps.map((step, index) => ({
+        ...step,
+        id: index + 1,
+        dependsOn: (step.dependsOn || []).filter(d => ids.has(d) && d !== step.id).map(d => ids.get(d) as number),
+    }));
+}
@@ -0,0 +1,295 @@
+import { readFileSync, statSync } from "fs";
+import { join, posix } from "path";
+import { Task, TaskType, TaskBreakdown } from "../types/analysis";
+import { classifyTask } from "./parser";
+import { indexWorkspace } from "./workspace";
+
+/**
+ * Code comment scanner.
+ * Finds TODO, FIXME and HACK comments across a directory (respecting .gitignore files), records
+ * where each one is (file, line, enclosing function or class, surrounding code) and turns them
+ * into Tasks, one per comment or one per file, ready to be planned by any strategy.
+ */
+
+export type MarkerKind = "TODO" | "FIXME" | "HACK";
+
+export type SymbolKind = "function" | "class" | "method";
+
+// The function, method or class a comment belongs to.
+export interface EnclosingSymbol {
+    kind: SymbolKind;
+    name: string;       // Methods are qualified with their class, e.g. "PlanLinter.lint".
+    line: number;       // 1-based line of the declaration.
+}
+
+export interface CodeMarker {
+    kind: MarkerKind;
+    text: string;                   // The comment text after the marker, e.g. "implement method".
+    author?: string;                // From "TODO(alice): ...".
+    file: string;                   // "/"-separated path relative to the scanned directory.
+    line: number;                   // 1-based.
+    symbol?: EnclosingSymbol;
+    context: string[];              // The marker line with the lines around it.
+    contextStart: number;           // 1-based line number of context[0].
+}
+
+export type MarkerGrouping = "marker" | "file";
+
+// Markers that are planned together: one marker, or every marker of a file.
+export interface MarkerGroup {
+    id: string;         // "src/a.ts:12" for a marker, "src/a.ts" for a file.
+    file: string;
+    markers: CodeMarker[];
+    task: Task;
+}
+
+export interface ScanOptions {
+    // Marker words to look for (default TODO, FIXME and HACK).
+    markers?: MarkerKind[];
+
+    // Lines of code kept before and after each marker (default 3).
+    contextLines?: number;
+
+    // Walk limits, as for the workspace index (defaults 5000 files, 256KB per file).
+    maxFiles?: number;
+    maxFileSize?: number;
+}
+
+export const MARKER_KINDS: MarkerKind[] = ["TODO", "FIXME", "HACK"];
+
+// The task type a marker stands for when its text does not say: a FIXME is broken, a HACK needs cleaning up.
+const MARKER_TYPES: Record<MarkerKind, TaskType> = {
+    TODO: TaskType.FEATURE,
+    FIXME: TaskType.BUGFIX,
+    HACK: TaskType.REFACTOR,
+};
+
+// Files with line comments worth scanning ("//", "#", "--" or block comments).
+const SCANNED_EXTENSIONS = [
+    ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".swift",
+    ".c", ".h", ".cpp", ".hpp", ".cs", ".php", ".sh", ".sql", ".lua", ".css", ".scss", ".html", ".vue", ".svelte",
+    ".yaml", ".yml", ".toml",
+];
+
+// Declarations that can enclose a marker; the first capture group is the name.
+const DECLARATIONS: Array<{ kind: SymbolKind; pattern: RegExp }> = [
+    { kind: "class", pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/ },
+    { kind: "function", pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/ },
+    { kind: "function", pattern: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/ },
+    { kind: "function", pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/ },
+    { kind: "method", pattern: /^\s+(?:(?:public|private|protected|static|async|readonly|override|get|set)\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\(.*\)\s*(?::[^{]*)?\{\s*$/ },
+];
+
+// Words the method pattern would otherwise take for method names.
+const KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "with", "return", "function", "else"]);
+
+/**
+ * Scan a directory for marker comments.
+ * @param root Directory to scan.
+ * @param options Marker words, context size and walk limits.
+ * @returns Markers in file and line order.
+ */
+export function scanMarkers(root: string, options: ScanOptions = {}): CodeMarker[] {
+    const maxFileSize = options.maxFileSize ?? 256 * 1024;
+    const index = indexWorkspace(root, { maxFiles: options.maxFiles, maxFileSize });
+
+    const markers: CodeMarker[] = [];
+    for (const file of index.files) {
+        if (!SCANNED_EXTENSIONS.includes(posix.extname(file.path).toLowerCase())) continue;
+
+        let content: string;
+        try {
+            if (statSync(join(root, file.path)).size > maxFileSize) continue;
+            content = readFileSync(join(root, file.path), "utf-8");
+        } catch {
+            continue;
+        }
+        markers.push(...findMarkers(content, file.path, options));
+    }
+    return markers;
+}
+
+/**
+ * Find the marker comments in one file's content.
+ * Recognizes "//", "#", "--", "/*" and "<!--" comments and continuation lines of block comments,
+ * with an optional author in parentheses and an optional colon after the marker word.
+ * @param content File content.
+ * @param file Path recorded in the markers.
+ * @param options Marker words and context size.
+ */
+export function findMarkers(content: string, file: string, options: Pick<ScanOptions, "markers" | "contextLines"> = {}): CodeMarker[] {
+    const kinds = options.markers ?? MARKER_KINDS;
+    const contextLines = options.contextLines ?? 3;
+    if (kinds.length === 0) return [];
+
+    const pattern = new RegExp(`(?:\\/\\/+|\\/\\*+|#+|<!--|--|^\\s*\\*+)\\s*(${kinds.join("|")})\\b(?:\\(([^)]*)\\))?:?(.*)$`);
+    const lines = content.split(/\r?\n/);
+
+    const markers: CodeMarker[] = [];
+    lines.forEach((line, index) => {
+        const match = pattern.exec(line);
+        if (!match) return;
+
+        const text = match[3].replace(/\s*(\*\/|-->)\s*$/, "").replace(/^\s*[-:]?\s*/, "").trim();
+        const start = Math.max(0, index - contextLines);
+        const symbol = findEnclosingSymbol(lines, index);
+
+        markers.push({
+            kind: match[1] as MarkerKind,
+            text,
+            ...(match[2]?.trim() ? { author: match[2].trim() } : {}),
+            file,
+            line: index + 1,
+            ...(symbol ? { symbol } : {}),
+            context: lines.slice(start, index + contextLines + 1),
+            contextStart: start + 1,
+        });
+    });
+    return markers;
+}
+
+/**
+ * The declaration a comment belongs to: the one directly below it (a comment above a function
+ * describes that function), otherwise the nearest declaration it is indented under.
+ * Methods are qualified with the class they are indented under.
+ * @param lines File lines.
+ * @param index 0-based line of the comment.
+ */
+export function findEnclosingSymbol(lines: string[], index: number): EnclosingSymbol | undefined {
+    const indent = indentOf(lines[index]);
+
+    // Step 1: The first code line below the comment (skipping comments and blank lines).
+    for (let i = index + 1; i < lines.length && i <= index + 5; i++) {
+        if (!lines[i].trim() || isCommentLine(lines[i])) continue;
+        const below = declarationAt(lines, i);
+        if (below && indentOf(lines[i]) <= indent) return qualify(lines, below);
+        break;
+    }
+
+    // Step 2: Walk up and out: each line indented less than the current level opens the block around it.
+    let level = indent;
+    for (let i = index - 1; i >= 0 && level > 0; i--) {
+        if (!lines[i].trim() || indentOf(lines[i]) >= level) continue;
+
+        const declaration = declarationAt(lines, i);
+        if (declaration) return qualify(lines, declaration);
+        level = indentOf(lines[i]);
+    }
+    return undefined;
+}
+
+/**
+ * Turn a marker into a task: the comment text with where it was found, the task type from the
+ * text (a TODO) or from the marker word (a FIXME is a bugfix, a HACK a refactor), and the
+ * module name ("users" for src/svc/users.ts) as the scope, so template paths ground to the real file.
+ */
+export function markerToTask(marker: CodeMarker): Task {
+    const what = marker.text ? capitalize(marker.text) : `Resolve the ${marker.kind} comment`;
+    const where = marker.symbol ? `${marker.symbol.kind} ${marker.symbol.name} in ${marker.file}` : marker.file;
+
+    // Only a TODO says nothing about the kind of work; without keywords it counts as a feature.
+    const classifications = classifyTask(marker.text);
+    const fromText = marker.kind === "TODO" && classifications[0].type !== TaskType.OTHER;
+
+    return {
+        description: `${what} (${marker.kind} in ${where}, line ${marker.line})`,
+        type: fromText ? classifications[0].type : MARKER_TYPES[marker.kind],
+        ...(fromText ? { classifications } : {}),
+        scope: moduleName(marker.file),
+    };
+}
+
+/**
+ * Group markers for planning: one group per marker, or one per file whose task covers
+ * every marker in the file and takes the task type most of them share.
+ */
+export function groupMarkers(markers: CodeMarker[], by: MarkerGrouping = "marker"): MarkerGroup[] {
+    if (by === "marker") {
+        return markers.map(marker => ({ id: `${marker.file}:${marker.line}`, file: marker.file, markers: [marker], task: markerToTask(marker) }));
+    }
+
+    const byFile = new Map<string, CodeMarker[]>();
+    for (const marker of markers) {
+        byFile.set(marker.file, [...(byFile.get(marker.file) ?? []), marker]);
+    }
+
+    return [...byFile.entries()].map(([file, fileMarkers]) => {
+        if (fileMarkers.length === 1) return { id: file, file, markers: fileMarkers, task: markerToTask(fileMarkers[0]) };
+
+        // The most common type; ties go to the type of the earlier marker.
+        const types = fileMarkers.map(marker => markerToTask(marker).type);
+        const type = types.reduce((best, candidate) =>
+            types.filter(t => t === candidate).length > types.filter(t => t === best).length ? candidate : best);
+
+        const items = fileMarkers.map(marker => `${marker.text || `resolve the ${marker.kind} comment`} (${marker.kind}, line ${marker.line})`);
+        return {
+            id: file,
+            file,
+            markers: fileMarkers,
+            task: {
+                description: `Resolve ${fileMarkers.length} code comments in ${file}: ${items.join("; ")}`,
+                type,
+                scope: moduleName(file),
+            },
+        };
+    });
+}
+
+/**
+ * Make sure a plan for a marker group names the group's file: it is put first in the files of
+ * the first step that lists files (or of the first step when none does).
+ * @returns The breakdown with the file added; unchanged if a step already lists it.
+ */
+export function prefillMarkerFile(breakdown: TaskBreakdown, group: MarkerGroup): TaskBreakdown {
+    if (breakdown.steps.length === 0 || breakdown.steps.some(step => step.files.includes(group.file))) return breakdown;
+
+    const target = Math.max(0, breakdown.steps.findIndex(step => step.files.length > 0));
+    const steps = breakdown.steps.map((step, index) => index !== target ? step : {
+        ...step,
+        files: [group.file, ...step.files],
+        ...(step.fileStatus ? { fileStatus: { [group.file]: "existing" as const, ...step.fileStatus } } : {}),
+    });
+    return { ...breakdown, steps };
+}
+
+function declarationAt(lines: string[], index: number): EnclosingSymbol | undefined {
+    for (const { kind, pattern } of DECLARATIONS) {
+        const match = pattern.exec(lines[index]);
+        if (!match || KEYWORDS.has(match[1])) continue;
+
+        // An indented def is a Python method.
+        const isMethod = kind === "method" || (kind === "function" && /^\s+(?:async\s+)?def\b/.test(lines[index]));
+        return { kind: isMethod ? "method" : kind, name: match[1], line: index + 1 };
+    }
+    return undefined;
+}
+
+// "lint" -> "PlanLinter.lint" when the method is indented under a class.
+function qualify(lines: string[], symbol: EnclosingSymbol): EnclosingSymbol {
+    if (symbol.kind !== "method") return symbol;
+
+    const indent = indentOf(lines[symbol.line - 1]);
+    for (let i = symbol.line - 2; i >= 0; i--) {
+        if (!lines[i].trim() || indentOf(lines[i]) >= indent) continue;
+        const owner = declarationAt(lines, i);
+        return owner?.kind === "class" ? { ...symbol, name: `${owner.name}.${symbol.name}` } : symbol;
+    }
+    return symbol;
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function isCommentLine(line: string): boolean {
+    return /^\s*(\/\/|\/\*|\*|#|--|<!--)/.test(line);
+}
+
+// "src/svc/users.ts" -> "users"
+function moduleName(file: string): string {
+    return posix.basename(file, posix.extname(file));
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
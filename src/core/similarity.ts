@@ -0,0 +1,48 @@
+import { Step } from "../types/analysis";
+
+/**
+ * Fuzzy comparison of steps, used to spot the same step phrased differently
+ * (e.g. "Write unit tests" vs "Add tests for the unit").
+ */
+
+// Words that carry no meaning for comparing step titles.
+const STOPWORDS = new Set([
+    "a", "an", "and", "the", "for", "to", "of", "in", "on", "with", "or", "into", "by", "if",
+    "add", "create", "implement", "write", "update", "define", "new", "any",
+]);
+
+/**
+ * Split text into normalized, singular, meaningful tokens.
+ */
+export function tokenize(text: string): Set<string> {
+    return new Set(
+        text
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length > 1 && !STOPWORDS.has(word))
+            .map(word => (word.length > 3 ? word.replace(/s$/, "") : word))
+    );
+}
+
+/**
+ * Jaccard similarity (0..1) of the title tokens of two steps.
+ */
+export function stepSimilarity(a: Step, b: Step): number {
+    const left = tokenize(a.title);
+    const right = tokenize(b.title);
+    if (left.size === 0 && right.size === 0) return 1;
+
+    let shared = 0;
+    for (const token of left) {
+        if (right.has(token)) shared++;
+    }
+    return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Whether two steps describe the same piece of work.
+ * @param threshold Minimum title similarity (default 0.5).
+ */
+export function areSimilarSteps(a: Step, b: Step, threshold: number = 0.5): boolean {
+    return stepSimilarity(a, b) >= threshold;
+}
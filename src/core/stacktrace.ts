@@ -0,0 +1,270 @@
+import { posix } from "path";
+import { ErrorReport, StackFrame, TraceLanguage, WorkspaceIndex } from "../types/analysis";
+
+/**
+ * Stack trace and error log parsing.
+ * Reads Node, Python and Java stack traces (alone or inside a log excerpt or a bug report),
+ * extracts the error class, message and frames, and maps frames to files of the workspace so
+ * bugfix plans can name the files that actually failed.
+ */
+
+// "    at CartService.checkout (/app/src/cart/service.ts:42:13)" or "    at /app/src/index.js:3:4".
+const NODE_FRAME = /^\s*at\s+(?:async\s+)?(?:(.+?)\s+\()?((?:file:\/\/)?[^\s()]+?):(\d+)(?::(\d+))?\)?\s*$/;
+
+// '  File "/usr/src/app/cart/service.py", line 42, in checkout'
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?\s*$/;
+
+// "\tat com.acme.cart.CartService.checkout(CartService.java:42)"
+const JAVA_FRAME = /^\s*at\s+([\w$.<>/]+)\.([\w$<>]+)\(([^():]*)(?::(\d+))?\)\s*$/;
+
+// "TypeError: message", "Error [ERR_X]: message", "java.lang.IllegalStateException: message", "KeyError: 'id'".
+const ERROR_HEADER = /^\s*(?:Uncaught\s+)?(?:Exception in thread "[^"]*"\s+)?(?:Caused by:\s+)?([A-Za-z_$][\w$]*(?:\.[\w$]+)*)(?:\s*\[[^\]]*\])?(?::\s*(.*))?$/;
+
+// Lines that belong to a trace without being frames or headers.
+const TRACE_NOISE = [
+    /^\s*Traceback \(most recent call last\):\s*$/,
+    /^\s*\.\.\. \d+ more\s*$/,
+    /^\s*(During handling of the above exception|The above exception was the direct cause)/,
+    /^\s*at\s+(?:async\s+)?[\w$.<>]+ \(index \d+\)\s*$/,
+    /^\s*\^+\s*$/,
+];
+
+// Timestamped log lines, e.g. "2026-10-19 12:00:01 ERROR ...", kept with the trace rather than the prose.
+const LOG_LINE = /^\s*\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+// Frames outside the application: runtimes, installed packages, the standard library.
+const LIBRARY_FRAME = [
+    /(^|[/\\])node_modules[/\\]/,
+    /^node:/,
+    /^internal[/\\]/,
+    /(^|[/\\])(site|dist)-packages[/\\]/,
+    /[/\\]lib[/\\]python\d/,
+    /^<[^>]+>$/,
+];
+const JAVA_LIBRARY_PACKAGES = /^(java|javax|jdk|sun|com\.sun|kotlin|scala|org\.junit|org\.springframework|org\.apache)\./;
+
+/**
+ * Split a bug report into its prose and the trace or log excerpt in it.
+ * Trace lines are frames, error headers directly before or after frames, traceback and
+ * "Caused by" lines, the code lines Python prints under frames, and timestamped log lines.
+ * @returns The remaining prose, and the trace text when one was found.
+ */
+export function splitStackTrace(text: string): { prose: string; trace?: string } {
+    const lines = text.split(/\r?\n/);
+    const isFrame = (line: string) => NODE_FRAME.test(line) || PYTHON_FRAME.test(line) || JAVA_FRAME.test(line);
+    const inTrace = lines.map(line => isFrame(line) || TRACE_NOISE.some(pattern => pattern.test(line)) || LOG_LINE.test(line));
+    if (!inTrace.some((flag, index) => flag && isFrame(lines[index]))) return { prose: text };
+
+    lines.forEach((line, index) => {
+        // The code line Python prints under each frame.
+        if (index > 0 && PYTHON_FRAME.test(lines[index - 1]) && /^\s{4,}\S/.test(line)) inTrace[index] = true;
+
+        // Error headers sit right before the frames (Node, Java) or after them (Python).
+        const next = lines.slice(index + 1).find(other => other.trim());
+        const previous = [...lines.slice(0, index)].reverse().find(other => other.trim());
+        const besideTrace = (next !== undefined && isFrame(next)) || (previous !== undefined && (isFrame(previous) || /^\s{4,}\S/.test(previous) && inTrace[lines.indexOf(previous)]));
+        if (besideTrace && isErrorHeader(line)) inTrace[index] = true;
+    });
+
+    const trace = lines.filter((_, index) => inTrace[index]).join("\n");
+    const prose = lines.filter((_, index) => !inTrace[index]).join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    return { prose, trace };
+}
+
+/**
+ * Parse a stack trace or log excerpt.
+ * Frames are returned innermost first for every language (Python prints them the other way round).
+ * For chained errors the root cause gives the error and its frames come first: the last "Caused by"
+ * for Java, the first traceback for Python (printed before "The above exception was the direct cause...").
+ * @param text The trace, possibly surrounded by log lines.
+ * @returns The error report, or undefined when the text holds neither frames nor an error line.
+ */
+export function parseStackTrace(text: string): ErrorReport | undefined {
+    const lines = text.split(/\r?\n/);
+
+    // Step 1: Recognize the language by its frames.
+    const language: TraceLanguage | undefined =
+        lines.some(line => PYTHON_FRAME.test(line)) ? "python"
+        : lines.some(line => JAVA_FRAME.test(line) && /\.(java|kt|scala)\b|Native Method|Unknown Source/.test(line)) ? "java"
+        : lines.some(line => NODE_FRAME.test(line)) ? "node"
+        : undefined;
+
+    // Step 2: Cut the trace into sections, one per error header with the frames that follow it.
+    const sections: Array<{ errorType: string; message: string; frames: StackFrame[] }> = [];
+    let frames: StackFrame[] = [];
+    for (const line of lines) {
+        const frame = language ? parseFrame(line, language) : undefined;
+        if (frame) {
+            if (language === "python" || sections.length === 0) frames.push(frame);
+            else sections[sections.length - 1].frames.push(frame);
+            continue;
+        }
+
+        const header = findErrorHeader(line);
+        if (!header) continue;
+        if (language === "python") {
+            // Python prints the error after its frames, innermost frame last.
+            sections.push({ ...header, frames: frames.reverse() });
+            frames = [];
+        } else {
+            sections.push({ ...header, frames: sections.length === 0 ? frames : [] });
+            frames = [];
+        }
+    }
+    if (sections.length === 0 && frames.length === 0) return undefined;
+
+    // Step 3: Report the root cause (printed first by Python, last by Java), its frames first,
+    // then the frames of the errors it led to.
+    const causeFirst = language === "python" ? sections : [...sections].reverse();
+    const root = causeFirst[0] ?? { errorType: "Error", message: "", frames: [] };
+    const allFrames = causeFirst.flatMap(section => section.frames).concat(language === "python" ? frames.reverse() : frames);
+    const seen = new Set<string>();
+
+    return {
+        language: language ?? "node",
+        errorType: root.errorType,
+        message: root.message,
+        frames: allFrames.filter(frame => {
+            const key = `${frame.file}:${frame.line}:${frame.function ?? ""}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        }),
+    };
+}
+
+/**
+ * Map every application frame to a workspace file: paths under the workspace root are made
+ * relative, other paths (e.g. "/app/src/x.ts" from a container) match the workspace file sharing
+ * the longest path suffix, and Java frames are found by package path or file name.
+ * @returns A copy of the report whose located frames carry `path`.
+ */
+export function locateFrames(report: ErrorReport, index: WorkspaceIndex): ErrorReport {
+    const paths = index.files.map(file => file.path);
+    const root = index.root.replace(/\\/g, "/").replace(/\/+$/, "");
+
+    const locate = (frame: StackFrame): string | undefined => {
+        if (frame.library) return undefined;
+        let file = frame.file.replace(/\\/g, "/").replace(/^file:\/\//, "");
+
+        // Java frames name the class; its package gives the directory.
+        if (report.language === "java" && frame.function && !file.includes("/")) {
+            const packagePath = frame.function.split(".").slice(0, -2).join("/");
+            file = packagePath ? `${packagePath}/${file}` : file;
+        }
+        if (file.startsWith(`${root}/`)) file = file.slice(root.length + 1);
+        file = posix.normalize(file).replace(/^(\.\/)+/, "");
+        if (paths.includes(file)) return file;
+
+        // The workspace file sharing the most trailing path segments (at least the file name).
+        const segments = file.split("/");
+        let best: { path: string; shared: number } | undefined;
+        for (const path of paths) {
+            const candidate = path.split("/");
+            let shared = 0;
+            while (shared < Math.min(segments.length, candidate.length)
+                && segments[segments.length - 1 - shared] === candidate[candidate.length - 1 - shared]) shared++;
+            if (shared > 0 && (!best || shared > best.shared)) best = { path, shared };
+        }
+        return best?.path;
+    };
+
+    return {
+        ...report,
+        frames: report.frames.map(frame => {
+            const path = locate(frame);
+            return path ? { ...frame, path } : frame;
+        }),
+    };
+}
+
+/**
+ * The application files the error went through, innermost first: located workspace paths, or
+ * the relative paths from the trace when it was not located against a workspace.
+ */
+export function suspectFiles(report: ErrorReport, max: number = 3): string[] {
+    const files = report.frames
+        .filter(frame => !frame.library)
+        .map(frame => frame.path ?? (isRelativePath(frame.file) ? posix.normalize(frame.file.replace(/\\/g, "/")) : undefined))
+        .filter((file): file is string => Boolean(file));
+    return [...new Set(files)].slice(0, max);
+}
+
+/**
+ * The innermost application frame, where the error surfaced in the project's own code.
+ */
+export function failingFrame(report: ErrorReport): StackFrame | undefined {
+    return report.frames.find(frame => !frame.library && frame.path) ?? report.frames.find(frame => !frame.library);
+}
+
+/**
+ * Describe a frame as a call site, e.g. "CartService.checkout (src/cart/service.ts:42)".
+ */
+export function describeCallSite(frame: StackFrame): string {
+    const location = `${frame.path ?? frame.file}${frame.line !== undefined ? `:${frame.line}` : ""}`;
+    return frame.function ? `${frame.function} (${location})` : location;
+}
+
+/**
+ * Summarize a report for prompts and listings: the error line and the first application frames.
+ */
+export function formatErrorReport(report: ErrorReport, maxFrames: number = 5): string {
+    const error = report.message ? `${report.errorType}: ${report.message}` : report.errorType;
+    const frames = report.frames.filter(frame => !frame.library).slice(0, maxFrames).map(frame => `  at ${describeCallSite(frame)}`);
+    return [error, ...frames].join("\n");
+}
+
+function parseFrame(line: string, language: TraceLanguage): StackFrame | undefined {
+    if (language === "python") {
+        const match = PYTHON_FRAME.exec(line);
+        if (!match) return undefined;
+        return withLibraryFlag({ file: match[1], line: Number(match[2]), ...(match[3] ? { function: match[3].trim() } : {}) });
+    }
+
+    if (language === "java") {
+        const match = JAVA_FRAME.exec(line);
+        if (!match) return undefined;
+        const qualified = `${match[1]}.${match[2]}`;
+        return {
+            file: match[3] || "Unknown Source",
+            ...(match[4] ? { line: Number(match[4]) } : {}),
+            function: qualified,
+            library: JAVA_LIBRARY_PACKAGES.test(qualified) || !/\.\w+$/.test(match[3]),
+        };
+    }
+
+    const match = NODE_FRAME.exec(line);
+    if (!match) return undefined;
+    return withLibraryFlag({
+        file: match[2],
+        line: Number(match[3]),
+        ...(match[4] ? { column: Number(match[4]) } : {}),
+        ...(match[1] ? { function: match[1].replace(/^new\s+/, "") } : {}),
+    });
+}
+
+function withLibraryFlag(frame: Omit<StackFrame, "library">): StackFrame {
+    return { ...frame, library: LIBRARY_FRAME.some(pattern => pattern.test(frame.file)) };
+}
+
+// An error line: a header at the start of the line, or one inside a log line ("... ERROR TypeError: x").
+function findErrorHeader(line: string): { errorType: string; message: string } | undefined {
+    if (isErrorHeader(line)) {
+        const match = ERROR_HEADER.exec(line)!;
+        return { errorType: match[1], message: (match[2] ?? "").trim() };
+    }
+
+    const embedded = /\b([A-Za-z_$][\w$.]*(?:Error|Exception))(?::\s*(.*))?$/.exec(line);
+    return embedded && LOG_LINE.test(line) ? { errorType: embedded[1], message: (embedded[2] ?? "").trim() } : undefined;
+}
+
+// Headers name an error class: "...Error", "...Exception", a dotted Java class, or "Error" itself.
+function isErrorHeader(line: string): boolean {
+    const match = ERROR_HEADER.exec(line);
+    if (!match || NODE_FRAME.test(line) || JAVA_FRAME.test(line)) return false;
+    return /(Error|Exception|Exit|Interrupt|Throwable)$/.test(match[1]) || (/^[a-z]+(\.[\w$]+)+$/.test(match[1]) && /[A-Z]/.test(match[1]));
+}
+
+function isRelativePath(file: string): boolean {
+    return /[/\\]/.test(file) && !/^([/\\~]|[a-z]:|[a-z]+:)/i.test(file);
+}
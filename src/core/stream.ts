@@ -0,0 +1,86 @@
+/**
+ * Incremental parsing of streamed plans.
+ * An LLM reply arrives as JSON text in small pieces; StepStreamParser picks each element
+ * of the top-level "steps" array out of the partial text as soon as its closing brace arrives,
+ * so a step can be shown before the rest of the plan has been generated.
+ */
+
+export class StepStreamParser {
+    private text = "";
+    private position = 0;     // Next character to scan.
+    private depth = 0;        // Nesting of objects and arrays at `position`.
+    private inString = false;
+    private escaped = false;
+    private stringStart = -1;
+    private lastString = "";  // Last complete string, i.e. the key when a ":" follows.
+    private key = "";         // Key of the top-level value being read.
+    private stepsDepth = -1;  // Depth of the elements of the "steps" array while inside it.
+    private stepStart = -1;   // Start of the step object being read.
+    private stepsDone = false;
+
+    /**
+     * Add the next piece of text and return the steps it completed.
+     * Steps are returned as parsed JSON and still need validating; an element that is
+     * not valid JSON is skipped and left for the final parse to report.
+     *
+     * @param chunk - The next piece of the reply.
+     * @returns The step objects completed by this piece, in order.
+     */
+    feed(chunk: string): unknown[] {
+        this.text += chunk;
+        const steps: unknown[] = [];
+
+        for (; this.position < this.text.length; this.position++) {
+            const char = this.text[this.position];
+
+            // Brackets inside strings do not count.
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === "\\") {
+                    this.escaped = true;
+                } else if (char === "\"") {
+                    this.inString = false;
+                    this.lastString = this.text.slice(this.stringStart + 1, this.position);
+                }
+                continue;
+            }
+
+            switch (char) {
+                case "\"":
+                    this.inString = true;
+                    this.stringStart = this.position;
+                    break;
+                case ":":
+                    if (this.depth === 1) this.key = this.lastString;
+                    break;
+                case "[":
+                case "{":
+                    if (char === "[" && this.depth === 1 && this.key === "steps" && !this.stepsDone) {
+                        this.stepsDepth = this.depth + 1;
+                    } else if (char === "{" && this.depth === this.stepsDepth) {
+                        this.stepStart = this.position;
+                    }
+                    this.depth++;
+                    break;
+                case "]":
+                case "}":
+                    this.depth--;
+                    if (char === "}" && this.depth === this.stepsDepth && this.stepStart >= 0) {
+                        try {
+                            steps.push(JSON.parse(this.text.slice(this.stepStart, this.position + 1)));
+                        } catch {
+                            // Malformed step: the final parse reports it.
+                        }
+                        this.stepStart = -1;
+                    } else if (char === "]" && this.depth === this.stepsDepth - 1) {
+                        this.stepsDepth = -1;
+                        this.stepsDone = true;
+                    }
+                    break;
+            }
+        }
+
+        return steps;
+    }
+}
@@ -0,0 +1,376 @@
+import { readdirSync, readFileSync, existsSync, statSync } from "fs";
+import { join, extname } from "path";
+import { parse as parseYAML } from "yaml";
+import { Task, TaskType, Step, PlanTemplate, StepTemplate, TemplateCondition } from "../types/analysis";
+import { suspectFiles, failingFrame, describeCallSite } from "./stacktrace";
+
+/**
+ * Template packs.
+ * Loads plan templates from JSON/YAML files (built-in packs under src/templates/<pack>
+ * and a project's .traycer/templates directory), validates them and renders them into steps.
+ */
+
+export interface TemplateLoadOptions {
+    // Project whose .traycer/templates directory is loaded after the built-in packs.
+    projectRoot?: string;
+
+    // Built-in packs to load (default ["default"]).
+    packs?: string[];
+
+    // Extra directories to load, after the project templates.
+    directories?: string[];
+}
+
+// Directory holding the built-in packs, one sub-directory per pack.
+const BUILT_IN_PACKS_DIR = join(__dirname, "../templates");
+
+// Project-level template directory, relative to the project root.
+export const PROJECT_TEMPLATES_DIR = join(".traycer", "templates");
+
+const TEMPLATE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+const PLACEHOLDERS = ["scope", "scopeSlug", "description", "type", "errorType", "errorMessage", "callSite", "suspectFiles"];
+
+// A files entry that is exactly this expands to the files from the task's stack trace.
+const SUSPECT_FILES_ENTRY = /^\{\{\s*suspectFiles\s*\}\}$/;
+
+/**
+ * List the names of the built-in template packs.
+ */
+export function listBuiltInPacks(): string[] {
+    if (!existsSync(BUILT_IN_PACKS_DIR)) return [];
+    return readdirSync(BUILT_IN_PACKS_DIR).filter(name => statSync(join(BUILT_IN_PACKS_DIR, name)).isDirectory());
+}
+
+/**
+ * Load templates from the built-in packs, the project and any extra directories.
+ * A template loaded later replaces an earlier one with the same name, so projects
+ * can override individual default templates.
+ * @throws Error naming the file and field of the first invalid template.
+ */
+export function loadTemplates(options: TemplateLoadOptions = {}): PlanTemplate[] {
+    const directories: string[] = [];
+
+    for (const pack of options.packs ?? ["default"]) {
+        const dir = join(BUILT_IN_PACKS_DIR, pack);
+        if (!existsSync(dir)) {
+            throw new Error(`Unknown template pack "${pack}". Available packs: ${listBuiltInPacks().join(", ")}`);
+        }
+        directories.push(dir);
+    }
+
+    if (options.projectRoot) {
+        directories.push(join(options.projectRoot, PROJECT_TEMPLATES_DIR));
+    }
+
+    directories.push(...(options.directories ?? []));
+
+    const byName = new Map<string, PlanTemplate>();
+    for (const dir of directories) {
+        for (const template of loadTemplateDirectory(dir)) {
+            // Delete first so an override moves to the end (later sources win ties).
+            byName.delete(template.name);
+            byName.set(template.name, template);
+        }
+    }
+
+    return [...byName.values()];
+}
+
+/**
+ * Load every template file in a directory (missing directories yield nothing).
+ */
+export function loadTemplateDirectory(dir: string): PlanTemplate[] {
+    if (!existsSync(dir)) return [];
+
+    return readdirSync(dir)
+        .filter(name => TEMPLATE_EXTENSIONS.includes(extname(name).toLowerCase()))
+        .sort()
+        .flatMap(name => loadTemplateFile(join(dir, name)));
+}
+
+/**
+ * Load a JSON or YAML template file. The file holds either a single template
+ * or an object with a "templates" array.
+ * @throws Error naming the file and the invalid field.
+ */
+export function loadTemplateFile(file: string): PlanTemplate[] {
+    let raw: any;
+    try {
+        const content = readFileSync(file, "utf-8");
+        raw = extname(file).toLowerCase() === ".json" ? JSON.parse(content) : parseYAML(content);
+    } catch (error: any) {
+        throw new Error(`Invalid template file ${file}: ${error.message}`);
+    }
+
+    if (raw && typeof raw === "object" && Array.isArray(raw.templates)) {
+        return raw.templates.map((entry: any, index: number) => validateTemplate(entry, file, `templates[${index}].`));
+    }
+
+    return [validateTemplate(raw, file)];
+}
+
+/**
+ * Check a parsed template object and return it typed.
+ * @param raw Parsed file content.
+ * @param file File name used in error messages.
+ * @param prefix Field path prefix (for templates nested in a "templates" array).
+ * @throws Error naming the file and field that is wrong.
+ */
+export function validateTemplate(raw: any, file: string, prefix: string = ""): PlanTemplate {
+    const fail = (field: string, problem: string): never => {
+        throw new Error(`Invalid template file ${file}: field "${prefix}${field}" ${problem}`);
+    };
+
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        fail("(root)", "must be an object");
+    }
+
+    if (typeof raw.name !== "string" || !raw.name.trim()) fail("name", "must be a non-empty string");
+    if (raw.description !== undefined && typeof raw.description !== "string") fail("description", "must be a string");
+    if (raw.defaultScope !== undefined && typeof raw.defaultScope !== "string") fail("defaultScope", "must be a string");
+    if (raw.priority !== undefined && typeof raw.priority !== "number") fail("priority", "must be a number");
+
+    if (raw.match !== undefined) {
+        if (!raw.match || typeof raw.match !== "object") fail("match", "must be an object");
+        validateTypes(raw.match.types, "match.types", fail);
+        validateStrings(raw.match.keywords, "match.keywords", fail);
+    }
+
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) fail("steps", "must be a non-empty array");
+
+    const ids = new Set<number>();
+    const steps: StepTemplate[] = raw.steps.map((step: any, index: number) => {
+        const at = `steps[${index}]`;
+        if (!step || typeof step !== "object") fail(at, "must be an object");
+        if (!Number.isInteger(step.id) || step.id < 1) fail(`${at}.id`, "must be a positive integer");
+        if (ids.has(step.id)) fail(`${at}.id`, `duplicates step id ${step.id}`);
+        ids.add(step.id);
+
+        for (const field of ["title", "description"]) {
+            if (typeof step[field] !== "string" || !step[field].trim()) fail(`${at}.${field}`, "must be a non-empty string");
+            checkPlaceholders(step[field], `${at}.${field}`, fail);
+        }
+
+        const files = step.files ?? [];
+        validateStrings(files, `${at}.files`, fail);
+        files.forEach((f: string, i: number) => checkPlaceholders(f, `${at}.files[${i}]`, fail));
+
+        if (step.dependsOn !== undefined) {
+            if (!Array.isArray(step.dependsOn) || step.dependsOn.some((d: any) => !Number.isInteger(d))) {
+                fail(`${at}.dependsOn`, "must be an array of step ids");
+            }
+        }
+
+        for (const key of ["when", "unless"]) {
+            if (step[key] !== undefined) validateCondition(step[key], `${at}.${key}`, fail);
+        }
+
+        return {
+            id: step.id,
+            title: step.title,
+            description: step.description,
+            files,
+            ...(step.dependsOn !== undefined ? { dependsOn: step.dependsOn } : {}),
+            ...(step.when !== undefined ? { when: step.when } : {}),
+            ...(step.unless !== undefined ? { unless: step.unless } : {}),
+        };
+    });
+
+    // Dependencies may only point at steps of the same template.
+    steps.forEach((step, index) => {
+        for (const dep of step.dependsOn ?? []) {
+            if (!ids.has(dep)) fail(`steps[${index}].dependsOn`, `references unknown step id ${dep}`);
+        }
+    });
+
+    return {
+        name: raw.name.trim(),
+        description: raw.description,
+        match: raw.match,
+        priority: raw.priority,
+        defaultScope: raw.defaultScope,
+        steps,
+        source: file,
+    };
+}
+
+/**
+ * Pick the best template for a task type.
+ * Templates must match the type (if they list types) and one of their keywords
+ * (if they list keywords); keyword matches outrank type-only matches, then priority decides.
+ * @returns The chosen template, or undefined if none matches.
+ */
+export function selectTemplate(templates: PlanTemplate[], type: TaskType, task: Task): PlanTemplate | undefined {
+    const lower = task.description.toLowerCase();
+    let best: { template: PlanTemplate; score: number } | undefined;
+
+    for (const template of templates) {
+        const types = template.match?.types;
+        const keywords = template.match?.keywords;
+        if (!types && !keywords) continue;
+        if (types && !types.includes(type)) continue;
+
+        let score = types ? 1 : 0;
+        if (keywords) {
+            if (!keywords.some(k => lower.includes(k.toLowerCase()))) continue;
+            score += 2;
+        }
+        score = score * 1000 + (template.priority ?? 0);
+
+        // ">=" so later templates (project overrides) win ties.
+        if (!best || score >= best.score) {
+            best = { template, score };
+        }
+    }
+
+    return best?.template;
+}
+
+/**
+ * Render a template into steps for a task.
+ * Placeholders are filled in, conditional steps are evaluated, and the remaining steps
+ * are renumbered with dependencies on skipped steps passed through to their prerequisites.
+ * A files entry "{{suspectFiles}}" becomes the application files of the task's stack trace,
+ * else the files its issue links to, else src/{{scopeSlug}}.ts.
+ */
+export function renderTemplate(template: PlanTemplate, task: Task): Step[] {
+    const scope = task.scope || template.defaultScope || summarizeScopeFromDescription(task.description);
+    const frame = task.error && failingFrame(task.error);
+    const traced = task.error ? suspectFiles(task.error) : [];
+    const suspects = traced.length > 0 ? traced : (task.files ?? []).slice(0, 3);
+    const vars: Record<string, string> = {
+        scope,
+        scopeSlug: sanitizeScope(scope),
+        description: task.description,
+        type: task.type,
+        errorType: task.error?.errorType ?? "",
+        errorMessage: task.error?.message ?? "",
+        callSite: frame ? describeCallSite(frame) : "the failing call site",
+        suspectFiles: suspects.join(", "),
+    };
+    const fill = (text: string) => text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => vars[name] ?? "");
+    const fillFiles = (files: string[]) => files.flatMap(file =>
+        SUSPECT_FILES_ENTRY.test(file) ? (suspects.length > 0 ? suspects : [`src/${vars.scopeSlug}.ts`]) : [fill(file)]
+    );
+
+    const included = template.steps.filter(step =>
+        (!step.when || conditionHolds(step.when, task)) && !(step.unless && conditionHolds(step.unless, task))
+    );
+    const includedIds = new Set(included.map(s => s.id));
+    const byId = new Map(template.steps.map((s, index) => [s.id, { step: s, index }]));
+
+    // Resolve dependencies, replacing a skipped step by what it depended on.
+    const resolveDeps = (step: StepTemplate, index: number, seen: Set<number> = new Set()): number[] => {
+        const deps = step.dependsOn ?? (index > 0 ? [template.steps[index - 1].id] : []);
+        const out: number[] = [];
+        for (const dep of deps) {
+            if (seen.has(dep)) continue;
+            seen.add(dep);
+            if (includedIds.has(dep)) {
+                out.push(dep);
+            } else {
+                const skipped = byId.get(dep);
+                if (skipped) out.push(...resolveDeps(skipped.step, skipped.index, seen));
+            }
+        }
+        return [...new Set(out)];
+    };
+
+    const newIds = new Map(included.map((s, index) => [s.id, index + 1]));
+
+    return included.map(step => ({
+        id: newIds.get(step.id) as number,
+        title: fill(step.title),
+        description: fill(step.description),
+        files: [...new Set(fillFiles(step.files))],
+        dependsOn: resolveDeps(step, byId.get(step.id)!.index).map(dep => newIds.get(dep) as number),
+    }));
+}
+
+export function sanitizeScope(scope: string): string {
+    if (!scope) return "scope";
+    // Trim and normalize.
+    let s = scope.trim();
+    // Replace spaces and underscores with hyphens.
+    s = s.replace(/[_\s]+/g, "-");
+    // Remove characters that are not alphanumeric or hyphens.
+    s = s.replace(/[^a-zA-Z0-9-]/g, "");
+    // Collapse multiple hyphens.
+    s = s.replace(/-+/g, "-");
+    // Lowercase for file names.
+    s = s.toLowerCase();
+    // Trim leading/trailing hyphens.
+    s = s.replace(/^-+|-+$/g, "");
+    if (!s) return "scope";
+    return s;
+}
+
+export function summarizeScopeFromDescription(description?: string): string {
+    if (!description) return "task";
+    // Try to pick a short token from the description, fallback to 'task'.
+    const tokens = description
+        .split(/[\s,:]+/)
+        .filter(Boolean)
+        .map(t => t.replace(/[^a-zA-Z0-9]/g, ""));
+    if (tokens.length === 0) return "task";
+    // Prefer a noun-like token: pick first meaningful token up to length 20.
+    const candidate = tokens[0].slice(0, 20);
+    return candidate || "task";
+}
+
+function conditionHolds(condition: TemplateCondition, task: Task): boolean {
+    if (condition.keywords) {
+        const lower = task.description.toLowerCase();
+        if (!condition.keywords.some(k => lower.includes(k.toLowerCase()))) return false;
+    }
+    if (condition.types) {
+        const types = [task.type, ...(task.classifications || []).map(c => c.type)];
+        if (!condition.types.some(t => types.includes(t))) return false;
+    }
+    if (condition.hasScope !== undefined && Boolean(task.scope) !== condition.hasScope) {
+        return false;
+    }
+    if (condition.hasError !== undefined && Boolean(task.error) !== condition.hasError) {
+        return false;
+    }
+    return true;
+}
+
+type Fail = (field: string, problem: string) => never;
+
+function validateStrings(value: any, field: string, fail: Fail): void {
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.some(v => typeof v !== "string")) {
+        fail(field, "must be an array of strings");
+    }
+}
+
+function validateTypes(value: any, field: string, fail: Fail): void {
+    if (value === undefined) return;
+    const known = Object.values(TaskType) as string[];
+    if (!Array.isArray(value)) fail(field, `must be an array of task types (${known.join(", ")})`);
+    value.forEach((v: any, i: number) => {
+        if (!known.includes(v)) fail(`${field}[${i}]`, `must be one of ${known.join(", ")}`);
+    });
+}
+
+function validateCondition(value: any, field: string, fail: Fail): void {
+    if (!value || typeof value !== "object" || Array.isArray(value)) fail(field, "must be an object");
+    validateStrings(value.keywords, `${field}.keywords`, fail);
+    validateTypes(value.types, `${field}.types`, fail);
+    if (value.hasScope !== undefined && typeof value.hasScope !== "boolean") {
+        fail(`${field}.hasScope`, "must be a boolean");
+    }
+    if (value.hasError !== undefined && typeof value.hasError !== "boolean") {
+        fail(`${field}.hasError`, "must be a boolean");
+    }
+}
+
+function checkPlaceholders(text: string, field: string, fail: Fail): void {
+    for (const m of text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+        if (!PLACEHOLDERS.includes(m[1])) {
+            fail(field, `uses unknown placeholder {{${m[1]}}} (known: ${PLACEHOLDERS.join(", ")})`);
+        }
+    }
+}
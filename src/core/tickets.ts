@@ -0,0 +1,245 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { Task, TaskBreakdown, Step } from "../types/analysis";
+import { resolveDependencies } from "./graph";
+import { statusOf } from "./progress";
+import { formatCSV } from "./csv";
+
+/**
+ * Issue tracker exporters: the reverse of core/issues.
+ * Turns a plan into tickets (a parent for the task and one child per step, with the step's
+ * files and dependencies in its body) for GitHub, Jira and Linear. The output is only ever
+ * written to local files; creating the tickets is left to the tracker's own import or CLI.
+ */
+
+export type TicketFormat = "github" | "jira" | "linear";
+
+export const TICKET_FORMATS: TicketFormat[] = ["github", "jira", "linear"];
+
+export interface TicketExportOptions {
+    // The task the plan was made for; an imported issue's id and link are cited in the parent ticket.
+    task?: Task;
+
+    // Saved plan id, cited in the parent ticket.
+    planId?: string;
+
+    // Labels added to every ticket (after the imported issue's own labels).
+    labels?: string[];
+}
+
+// A GitHub "create issue" payload (POST /repos/{owner}/{repo}/issues), plus a local key.
+export interface GitHubIssuePayload {
+    // "task" for the parent, "step-<id>" for the children; the keys of the issues it depends on.
+    key: string;
+    title: string;
+    body: string;
+    labels: string[];
+    dependsOn?: string[];
+}
+
+export interface GitHubIssueExport {
+    // Its body holds a task list with one item per child; replace the items with issue links once they exist.
+    parent: GitHubIssuePayload;
+    children: GitHubIssuePayload[];
+}
+
+// A Linear issue in the shape of the issueCreate input; ids are local and mapped on import.
+export interface LinearIssue {
+    id: string;
+    parentId?: string;
+    title: string;
+    description: string;
+    labels: string[];
+}
+
+// "issueId blocks relatedIssueId", as created with issueRelationCreate.
+export interface LinearRelation {
+    issueId: string;
+    relatedIssueId: string;
+    type: "blocks";
+}
+
+export interface LinearExport {
+    issues: LinearIssue[];
+    relations: LinearRelation[];
+}
+
+// Jira bulk import columns. The "Issue Id"/"Parent Id" pair makes the steps sub-tasks of the task,
+// each "Labels" column holds one label and each "Inward issue link (Blocks)" column one step that must be finished first.
+const JIRA_COLUMNS = ["Issue Id", "Parent Id", "Issue Type", "Summary", "Description"];
+const JIRA_LABELS = "Labels";
+const JIRA_BLOCKED_BY = "Inward issue link (Blocks)";
+const JIRA_PARENT_TYPE = "Task";
+const JIRA_STEP_TYPE = "Sub-task";
+
+// Default file names, by format.
+export const TICKET_FILES: Record<TicketFormat, string> = {
+    github: "github-issues.json",
+    jira: "jira-import.csv",
+    linear: "linear-issues.json",
+};
+
+/**
+ * GitHub issues: a parent issue whose body has a task list of the steps, and one child issue per step.
+ * Finished steps of a tracked plan are ticked in the task list.
+ */
+export function exportGitHubIssues(breakdown: TaskBreakdown, options: TicketExportOptions = {}): GitHubIssueExport {
+    const deps = resolveDependencies(breakdown.steps);
+    const labels = ticketLabels(options);
+
+    return {
+        parent: {
+            key: "task",
+            title: ticketTitle(breakdown, options),
+            body: parentBody(breakdown, options, "markdown"),
+            labels,
+        },
+        children: breakdown.steps.map(step => ({
+            key: `step-${step.id}`,
+            title: stepTitle(step),
+            body: stepBody(step, breakdown, "markdown"),
+            labels,
+            dependsOn: (deps.get(step.id) ?? []).map(id => `step-${id}`),
+        })),
+    };
+}
+
+/**
+ * A Jira CSV for the bulk importer (System > External System Import > CSV): the task as a Task,
+ * each step as a Sub-task linked to the steps that block it. Descriptions use Jira wiki markup.
+ */
+export function exportJiraCSV(breakdown: TaskBreakdown, options: TicketExportOptions = {}): string {
+    const deps = resolveDependencies(breakdown.steps);
+    const labels = ticketLabels(options).map(label => label.replace(/\s+/g, "-"));
+    const links = Math.max(0, ...breakdown.steps.map(step => (deps.get(step.id) ?? []).length));
+
+    // Jira repeats a column once per value (labels, links); unused cells stay empty.
+    const row = (values: string[], blockedBy: string[]) => [
+        ...values,
+        ...labels,
+        ...Array.from({ length: links }, (_, i) => blockedBy[i] ?? ""),
+    ];
+    const header = [
+        ...JIRA_COLUMNS,
+        ...labels.map(() => JIRA_LABELS),
+        ...Array.from({ length: links }, () => JIRA_BLOCKED_BY),
+    ];
+
+    return formatCSV([
+        header,
+        row(["task", "", JIRA_PARENT_TYPE, ticketTitle(breakdown, options), parentBody(breakdown, options, "jira")], []),
+        ...breakdown.steps.map(step => row(
+            [`step-${step.id}`, "task", JIRA_STEP_TYPE, stepTitle(step), stepBody(step, breakdown, "jira")],
+            (deps.get(step.id) ?? []).map(id => `step-${id}`),
+        )),
+    ]);
+}
+
+/**
+ * Linear issues: the task as a parent issue, the steps as its sub-issues, and a "blocks"
+ * relation from every step to each step that depends on it.
+ */
+export function exportLinearIssues(breakdown: TaskBreakdown, options: TicketExportOptions = {}): LinearExport {
+    const deps = resolveDependencies(breakdown.steps);
+    const labels = ticketLabels(options);
+
+    return {
+        issues: [
+            { id: "task", title: ticketTitle(breakdown, options), description: parentBody(breakdown, options, "markdown"), labels },
+            ...breakdown.steps.map(step => ({
+                id: `step-${step.id}`,
+                parentId: "task",
+                title: stepTitle(step),
+                description: stepBody(step, breakdown, "markdown"),
+                labels,
+            })),
+        ],
+        relations: breakdown.steps.flatMap(step => (deps.get(step.id) ?? []).map(dep => ({
+            issueId: `step-${dep}`,
+            relatedIssueId: `step-${step.id}`,
+            type: "blocks" as const,
+        }))),
+    };
+}
+
+/**
+ * Export a plan in the given format, as the text of the file to write.
+ */
+export function exportTickets(breakdown: TaskBreakdown, format: TicketFormat, options: TicketExportOptions = {}): string {
+    if (format === "jira") return exportJiraCSV(breakdown, options);
+    const data = format === "github" ? exportGitHubIssues(breakdown, options) : exportLinearIssues(breakdown, options);
+    return JSON.stringify(data, null, 2) + "\n";
+}
+
+/**
+ * Export a plan and write it to a file, creating its directory.
+ * @returns The number of tickets written (the parent and one per step).
+ */
+export function writeTickets(breakdown: TaskBreakdown, format: TicketFormat, file: string, options: TicketExportOptions = {}): number {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, exportTickets(breakdown, format, options));
+    return breakdown.steps.length + 1;
+}
+
+type Markup = "markdown" | "jira";
+
+// The task's title: an imported issue's title, else the description (first line, at most 120 characters).
+function ticketTitle(breakdown: TaskBreakdown, options: TicketExportOptions): string {
+    const text = options.task?.title ?? breakdown.taskDescription.split(/\r?\n/)[0].trim();
+    return text.length > 120 ? `${text.slice(0, 117).trimEnd()}...` : text;
+}
+
+function ticketLabels(options: TicketExportOptions): string[] {
+    return [...new Set([...(options.task?.labels ?? []), ...(options.labels ?? [])])];
+}
+
+function stepTitle(step: Step): string {
+    return `Step ${step.id}: ${step.title}`;
+}
+
+// The task, where it came from, and the steps as a (task) list.
+function parentBody(breakdown: TaskBreakdown, options: TicketExportOptions, markup: Markup): string {
+    const source = options.task?.source;
+    const origin = [
+        source ? `Imported from ${source.tracker} issue ${source.id}${source.url ? ` (${source.url})` : ""}.` : "",
+        options.planId ? `Plan ${options.planId}${breakdown.strategy ? `, made with the ${breakdown.strategy} strategy` : ""}.` : "",
+    ].filter(Boolean).join(" ");
+
+    const steps = breakdown.steps.map(step => markup === "jira"
+        ? `# ${stepTitle(step)}${statusOf(step) === "done" ? " (done)" : ""}`
+        : `- [${statusOf(step) === "done" ? "x" : " "}] ${stepTitle(step)}`);
+
+    // The description only adds something when it is longer than the title.
+    const description = breakdown.taskDescription.trim() === ticketTitle(breakdown, options) ? "" : breakdown.taskDescription;
+
+    return [
+        description,
+        origin,
+        `${heading("Steps", markup)}\n${steps.join("\n")}`,
+    ].filter(Boolean).join("\n\n");
+}
+
+// The step's description, its files (existing or new) and the steps it depends on.
+function stepBody(step: Step, breakdown: TaskBreakdown, markup: Markup): string {
+    const byId = new Map(breakdown.steps.map(other => [other.id, other]));
+    const deps = resolveDependencies(breakdown.steps).get(step.id) ?? [];
+    const item = (text: string) => markup === "jira" ? `* ${text}` : `- ${text}`;
+    const code = (text: string) => markup === "jira" ? `{{${text}}}` : `\`${text}\``;
+
+    const files = step.files.map(file => {
+        const status = step.fileStatus?.[file];
+        return item(`${code(file)}${status ? ` (${status})` : ""}`);
+    });
+    const dependsOn = deps.map(id => item(byId.has(id) ? stepTitle(byId.get(id)!) : `Step ${id}`));
+
+    return [
+        step.description,
+        `${heading("Files", markup)}\n${files.length > 0 ? files.join("\n") : "No specific files."}`,
+        `${heading("Depends on", markup)}\n${dependsOn.length > 0 ? dependsOn.join("\n") : "Nothing; can start right away."}`,
+        `Part of: ${breakdown.taskDescription.split(/\r?\n/)[0]} (step ${breakdown.steps.indexOf(step) + 1} of ${breakdown.steps.length})`,
+    ].join("\n\n");
+}
+
+function heading(text: string, markup: Markup): string {
+    return markup === "jira" ? `h3. ${text}` : `### ${text}`;
+}
@@ -0,0 +1,179 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { LLMCallUsage } from "../types/analysis";
+
+/**
+ * Token usage, latency and cost accounting for LLM calls.
+ *
+ * Every call is appended to a local JSON Lines log (one record per line), which the
+ * "usage" command aggregates by day, model and strategy. The log also backs the daily budget:
+ * once the estimated cost of today's calls (UTC) reaches the limit, further calls are refused.
+ * Costs are estimates from a price table in USD per million tokens; models without a price cost nothing.
+ */
+
+// Price of a model in USD per million tokens.
+export interface ModelPrice {
+    prompt: number;
+    completion: number;
+}
+
+// Prices keyed by model name, or by provider name ("ollama") for every model of that provider.
+export type PriceTable = Record<string, ModelPrice>;
+
+// What was called for: a new plan, a refinement, a repair of an invalid reply or a verify judgment.
+export type UsageOperation = "plan" | "refine" | "repair" | "judge";
+
+// One line of the usage log.
+export interface UsageRecord extends LLMCallUsage {
+    timestamp: string;
+    strategy: string;
+    operation: UsageOperation;
+    task?: string;
+}
+
+// Ways the usage command can group records.
+export type UsageDimension = "day" | "model" | "strategy";
+
+// Totals for one group of records, e.g. one day and model.
+export interface UsageSummary {
+    group: Partial<Record<UsageDimension, string>>;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    latencyMs: number;    // Average latency.
+    retries: number;
+}
+
+export interface UsageLogOptions {
+    // The JSON Lines file (default ".traycer/usage.jsonl" in the current directory).
+    file?: string;
+
+    // Refuse calls once today's estimated cost reaches this many USD (default 0: no limit).
+    dailyBudget?: number;
+}
+
+export const DEFAULT_USAGE_FILE = join(".traycer", "usage.jsonl");
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ["day", "model", "strategy"];
+
+// List prices of the default models at the time of writing; override them with "prices" in a config file.
+export const DEFAULT_PRICES: PriceTable = {
+    "openai/gpt-oss-20b": { prompt: 0.10, completion: 0.50 },
+    "gpt-4o-mini": { prompt: 0.15, completion: 0.60 },
+    "claude-3-5-haiku-latest": { prompt: 0.80, completion: 4.00 },
+    "ollama": { prompt: 0, completion: 0 },
+};
+
+// Raised when a call would go over the daily budget.
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BudgetExceededError";
+    }
+}
+
+/**
+ * Estimate the cost of a call in USD.
+ * @returns The cost, or undefined when neither the model nor its provider has a price.
+ */
+export function estimateCost(prices: PriceTable, provider: string, model: string, promptTokens: number, completionTokens: number): number | undefined {
+    const price = prices[model] ?? prices[model.toLowerCase()] ?? prices[provider.toLowerCase()];
+    if (!price) return undefined;
+
+    return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+/**
+ * Group records by the given dimensions and total them, in group order.
+ */
+export function summarizeUsage(records: UsageRecord[], by: UsageDimension[]): UsageSummary[] {
+    const groups = new Map<string, UsageSummary>();
+
+    for (const record of records) {
+        const group: Partial<Record<UsageDimension, string>> = {};
+        for (const dimension of by) {
+            group[dimension] = dimension === "day" ? dayOf(record.timestamp) : record[dimension];
+        }
+
+        const key = JSON.stringify(by.map(dimension => group[dimension]));
+        const summary = groups.get(key) ?? { group, calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, latencyMs: 0, retries: 0 };
+        summary.calls++;
+        summary.promptTokens += record.promptTokens;
+        summary.completionTokens += record.completionTokens;
+        summary.cost += record.cost ?? 0;
+        summary.latencyMs += record.latencyMs;   // Summed here, averaged below.
+        summary.retries += record.retries;
+        groups.set(key, summary);
+    }
+
+    return [...groups.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, summary]) => ({ ...summary, latencyMs: Math.round(summary.latencyMs / summary.calls) }));
+}
+
+export class UsageLog {
+    readonly file: string;
+    readonly dailyBudget: number;
+
+    constructor(options: UsageLogOptions = {}) {
+        this.file = options.file ?? DEFAULT_USAGE_FILE;
+        this.dailyBudget = options.dailyBudget ?? 0;
+    }
+
+    /**
+     * Append a record to the log.
+     */
+    record(record: UsageRecord): void {
+        mkdirSync(dirname(this.file), { recursive: true });
+        appendFileSync(this.file, JSON.stringify(record) + "\n");
+    }
+
+    /**
+     * Read every record, oldest first. Lines that are not records are skipped.
+     */
+    read(): UsageRecord[] {
+        if (!existsSync(this.file)) return [];
+
+        const records: UsageRecord[] = [];
+        for (const line of readFileSync(this.file, "utf-8").split("\n")) {
+            if (!line.trim()) continue;
+            try {
+                const record = JSON.parse(line);
+                if (typeof record.timestamp === "string" && typeof record.model === "string") records.push(record);
+            } catch {
+                // A partly written line is as good as missing.
+            }
+        }
+        return records;
+    }
+
+    /**
+     * Estimated cost of the calls made on a UTC day (default today).
+     */
+    spentOn(day: string = dayOf(new Date().toISOString())): number {
+        return this.read()
+            .filter(record => dayOf(record.timestamp) === day)
+            .reduce((sum, record) => sum + (record.cost ?? 0), 0);
+    }
+
+    /**
+     * Refuse a call when today's spending has reached the daily budget.
+     * @throws BudgetExceededError naming the budget and today's spending.
+     */
+    checkBudget(): void {
+        if (this.dailyBudget <= 0) return;
+
+        const spent = this.spentOn();
+        if (spent >= this.dailyBudget) {
+            throw new BudgetExceededError(
+                `Daily LLM budget of $${this.dailyBudget.toFixed(2)} reached ($${spent.toFixed(4)} spent today); raise usage.dailyBudget or try again tomorrow`
+            );
+        }
+    }
+}
+
+// "2026-10-19" for an ISO timestamp (UTC).
+function dayOf(timestamp: string): string {
+    return timestamp.slice(0, 10);
+}
@@ -0,0 +1,122 @@
+import { TaskBreakdown, Step } from "../types/analysis";
+import { ChangedFile } from "./git";
+import { statusOf } from "./progress";
+
+/**
+ * Plan-vs-implementation verification: compares the files a plan intended to change
+ * with the files that actually changed.
+ */
+
+export type StepVerdict = "satisfied" | "partial" | "not-satisfied";
+
+// An opinion on whether a step's changes do what its description says.
+export interface StepJudgment {
+    verdict: StepVerdict;
+    reason: string;
+}
+
+/**
+ * Something that can judge a step against its diff, e.g. LLMStrategy.
+ */
+export interface StepJudge {
+    judgeStep(step: Step, diff: string): Promise<StepJudgment>;
+}
+
+export interface StepVerification {
+    stepId: number;
+    title: string;
+
+    // Planned files that were changed.
+    touched: string[];
+
+    // Planned files that were not changed.
+    untouched: string[];
+
+    // Skipped steps are reported but not expected to touch anything.
+    skipped: boolean;
+
+    judgment?: StepJudgment;
+}
+
+export interface VerificationReport {
+    steps: StepVerification[];
+
+    // Changed files that no step planned.
+    unaccounted: string[];
+
+    // Whether every planned file of every non-skipped step was changed.
+    complete: boolean;
+}
+
+/**
+ * Compare a plan with a set of changed files.
+ */
+export function verifyPlan(breakdown: TaskBreakdown, changes: ChangedFile[]): VerificationReport {
+    // A renamed file counts as touched under both its old and its new name.
+    const changed = new Set(changes.flatMap(c => (c.oldPath ? [c.path, c.oldPath] : [c.path])).map(normalizePath));
+    const planned = new Set<string>();
+
+    const steps = breakdown.steps.map(step => {
+        const files = step.files.map(normalizePath);
+        files.forEach(file => planned.add(file));
+
+        return {
+            stepId: step.id,
+            title: step.title,
+            touched: files.filter(file => changed.has(file)),
+            untouched: files.filter(file => !changed.has(file)),
+            skipped: statusOf(step) === "skipped",
+        };
+    });
+
+    // Mini-Traycer's own files (saved plans, cache, templates) are never part of the implementation.
+    const unaccounted = changes
+        .filter(c => !normalizePath(c.path).startsWith(".traycer/"))
+        .filter(c => !planned.has(normalizePath(c.path)) && !(c.oldPath && planned.has(normalizePath(c.oldPath))))
+        .map(c => c.path);
+
+    return {
+        steps,
+        unaccounted,
+        complete: steps.every(step => step.skipped || step.untouched.length === 0),
+    };
+}
+
+/**
+ * Render a verification report as text.
+ */
+export function formatVerificationReport(report: VerificationReport): string {
+    const lines: string[] = [];
+
+    for (const step of report.steps) {
+        const planned = step.touched.length + step.untouched.length;
+        const summary = step.skipped
+            ? "skipped"
+            : planned === 0 ? "no planned files" : `${step.touched.length}/${planned} planned files touched`;
+
+        lines.push(`Step ${step.stepId}: ${step.title} (${summary})`);
+        step.touched.forEach(file => lines.push(`  ✓ ${file}`));
+        step.untouched.forEach(file => lines.push(step.skipped ? `  - ${file}` : `  ✗ ${file} (not touched)`));
+
+        if (step.judgment) {
+            lines.push(`  Judgment: ${step.judgment.verdict} - ${step.judgment.reason}`);
+        }
+    }
+
+    lines.push("");
+    if (report.unaccounted.length > 0) {
+        lines.push("Changed files no step accounted for:");
+        report.unaccounted.forEach(file => lines.push(`  ? ${file}`));
+    } else {
+        lines.push("Every changed file belongs to a step.");
+    }
+
+    lines.push("");
+    lines.push(report.complete ? "Result: every planned file was touched." : "Result: some planned files were not touched.");
+
+    return lines.join("\n");
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, "/").replace(/^\.\//, "");
+}
@@ -0,0 +1,448 @@
+import { readdirSync, readFileSync, statSync, existsSync } from "fs";
+import { join, posix } from "path";
+import { Step, FileStatus, WorkspaceFile, WorkspaceIndex, WorkspaceConventions } from "../types/analysis";
+
+/**
+ * Workspace indexer.
+ * Walks a target directory (respecting .gitignore files), records files, exported symbols
+ * and directory conventions, and grounds step file paths against what actually exists.
+ */
+
+export interface IndexOptions {
+    // Stop walking after this many files (default 5000), so huge trees stay responsive.
+    maxFiles?: number;
+
+    // Skip symbol extraction for files larger than this many bytes (default 256KB).
+    maxFileSize?: number;
+}
+
+interface IgnoreRule {
+    // Directory (relative to the root) holding the .gitignore that declared this rule.
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+    // Patterns without a slash match against the basename at any depth.
+    anchored: boolean;
+}
+
+// Directories that are never worth indexing, even without a .gitignore.
+const ALWAYS_SKIPPED = new Set([".git", "node_modules"]);
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py"];
+
+const ROLE_DIRECTORIES = [
+    "models", "controllers", "routes", "services", "middleware", "utils",
+    "components", "validators", "config", "features", "docs",
+];
+
+const TEST_DIRECTORIES = ["tests", "test", "__tests__", "spec"];
+
+/**
+ * Index the directory at `root`.
+ * @param root Directory to walk.
+ * @param options Optional walk limits.
+ * @returns WorkspaceIndex with "/"-separated paths relative to the root.
+ */
+export function indexWorkspace(root: string, options: IndexOptions = {}): WorkspaceIndex {
+    const maxFiles = options.maxFiles ?? 5000;
+    const maxFileSize = options.maxFileSize ?? 256 * 1024;
+
+    const files: WorkspaceFile[] = [];
+    const directories: string[] = [];
+
+    const walk = (relDir: string, inheritedRules: IgnoreRule[]): void => {
+        if (files.length >= maxFiles) return;
+
+        const absDir = join(root, relDir);
+        const rules = inheritedRules.concat(loadIgnoreRules(absDir, relDir));
+
+        let entries;
+        try {
+            entries = readdirSync(absDir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+
+        for (const entry of entries) {
+            if (files.length >= maxFiles) return;
+
+            const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+
+            if (entry.isDirectory()) {
+                if (ALWAYS_SKIPPED.has(entry.name) || isIgnored(relPath, true, rules)) continue;
+                directories.push(relPath);
+                walk(relPath, rules);
+            } else if (entry.isFile()) {
+                if (isIgnored(relPath, false, rules)) continue;
+                files.push({
+                    path: relPath,
+                    exports: extractExports(join(root, relPath), maxFileSize),
+                });
+            }
+        }
+    };
+
+    walk("", []);
+
+    return {
+        root,
+        files,
+        directories,
+        conventions: inferConventions(files, directories),
+    };
+}
+
+/**
+ * Ground every step's file list against the workspace.
+ * Existing paths are kept, invented paths are swapped for a real match where one exists,
+ * and everything else is adapted to the workspace conventions and marked as new.
+ * @param steps Steps produced by a strategy.
+ * @param index Workspace index to ground against.
+ * @returns New Step objects with `files` rewritten and `fileStatus` filled in.
+ */
+export function groundSteps(steps: Step[], index: WorkspaceIndex): Step[] {
+    const known = new Set(index.files.map(f => f.path));
+
+    return steps.map(step => {
+        const files: string[] = [];
+        const fileStatus: Record<string, FileStatus> = {};
+
+        for (const planned of step.files) {
+            const resolved = resolveFilePath(planned, index, known);
+            if (fileStatus[resolved.path]) continue;
+            files.push(resolved.path);
+            fileStatus[resolved.path] = resolved.status;
+        }
+
+        return { ...step, files, fileStatus };
+    });
+}
+
+/**
+ * Resolve a single planned path against the workspace.
+ * @param planned Path suggested by a strategy.
+ * @param index Workspace index to resolve against.
+ * @param known Optional pre-built set of indexed paths.
+ * @returns The path to use and whether it already exists.
+ */
+export function resolveFilePath(
+    planned: string,
+    index: WorkspaceIndex,
+    known: Set<string> = new Set(index.files.map(f => f.path))
+): { path: string; status: FileStatus } {
+    const path = normalizePath(planned);
+
+    if (known.has(path)) {
+        return { path, status: "existing" };
+    }
+
+    const match = findExistingMatch(path, index);
+    if (match) {
+        return { path: match, status: "existing" };
+    }
+
+    const adapted = applyConventions(path, index.conventions);
+    return { path: adapted, status: known.has(adapted) ? "existing" : "new" };
+}
+
+/**
+ * Summarize the workspace for inclusion in an LLM prompt.
+ * @param index Workspace index to describe.
+ * @param maxFiles Maximum number of file paths to list.
+ */
+export function describeWorkspace(index: WorkspaceIndex, maxFiles = 200): string {
+    const c = index.conventions;
+    const lines: string[] = [];
+
+    lines.push(`Source root: ${c.sourceRoot || "(repository root)"}`);
+    lines.push(`Primary extension: ${c.extension}`);
+    lines.push(`Tests: ${c.testDir ? `${c.testDir}/` : "alongside sources"} (suffix ${c.testSuffix})`);
+
+    const roles = Object.entries(c.roles);
+    if (roles.length > 0) {
+        lines.push(`Role directories: ${roles.map(([role, dir]) => `${role} -> ${dir}`).join(", ")}`);
+    }
+
+    lines.push(`Existing files (${Math.min(index.files.length, maxFiles)} of ${index.files.length}):`);
+    for (const file of index.files.slice(0, maxFiles)) {
+        const exported = file.exports.length > 0 ? ` [exports: ${file.exports.slice(0, 8).join(", ")}]` : "";
+        lines.push(`- ${file.path}${exported}`);
+    }
+
+    return lines.join("\n");
+}
+
+function normalizePath(path: string): string {
+    return posix.normalize(path.trim().replace(/\\/g, "/")).replace(/^\.\//, "");
+}
+
+// Words that say nothing about what a file holds, e.g. "the" in "the-parser.ts".
+const NAME_STOPWORDS = new Set(["a", "an", "the", "new", "my", "our", "this", "that", "some"]);
+
+// Case-insensitive, punctuation-free, singular form of a name without stopwords,
+// so "Users", "user", "user-s" and "the-users" compare equal.
+function nameKey(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word && !NAME_STOPWORDS.has(word))
+        .join("")
+        .replace(/s$/, "");
+}
+
+function stripExtensions(fileName: string): string {
+    // Drop the extension plus test/spec/config qualifiers, e.g. "user.test.ts" -> "user".
+    return fileName.replace(/(\.(test|spec|integration|regression|config))*\.[^.]+$/, "");
+}
+
+function isTestPath(path: string): boolean {
+    return /(^|\/)(tests?|__tests__|spec)\//.test(path) || /\.(test|spec)\.[a-z]+$/.test(path);
+}
+
+function extensionKind(ext: string): string {
+    if ([".ts", ".js", ".mjs", ".cjs"].includes(ext)) return "script";
+    if ([".tsx", ".jsx"].includes(ext)) return "component";
+    return ext;
+}
+
+function roleOf(path: string): string | undefined {
+    const parent = posix.basename(posix.dirname(path));
+    return ROLE_DIRECTORIES.includes(parent) ? parent : undefined;
+}
+
+function findExistingMatch(path: string, index: WorkspaceIndex): string | undefined {
+    const fileName = posix.basename(path);
+    const key = nameKey(stripExtensions(fileName));
+    if (!key) return undefined;
+
+    const wantTest = isTestPath(path);
+    const plannedDirs = posix.dirname(path).split("/");
+    const plannedRole = roleOf(path);
+    const plannedExt = posix.extname(fileName);
+
+    let best: { path: string; score: number } | undefined;
+
+    for (const file of index.files) {
+        if (isTestPath(file.path) !== wantTest) continue;
+
+        // A model should not be swapped for a route that happens to share its name.
+        const candidateRole = roleOf(file.path);
+        if (plannedRole && candidateRole && plannedRole !== candidateRole) continue;
+
+        // Source files may match across languages (.ts vs .js, .tsx vs .jsx); other files only match their own type.
+        if (extensionKind(posix.extname(file.path)) !== extensionKind(plannedExt)) continue;
+
+        const nameMatches = nameKey(stripExtensions(posix.basename(file.path))) === key;
+        const symbolMatches = file.exports.some(sym => nameKey(sym) === key);
+        if (!nameMatches && !symbolMatches) continue;
+
+        // Prefer name matches, then files that share directory segments with the planned path.
+        const candidateDirs = posix.dirname(file.path).split("/");
+        const sharedDirs = plannedDirs.filter(d => d !== "." && candidateDirs.includes(d)).length;
+        const score = (nameMatches ? 10 : 0) + sharedDirs;
+
+        if (!best || score > best.score) {
+            best = { path: file.path, score };
+        }
+    }
+
+    return best?.path;
+}
+
+function applyConventions(path: string, conventions: WorkspaceConventions): string {
+    const segments = path.split("/");
+    let fileName = segments.pop() as string;
+
+    if (isTestPath(path)) {
+        if (conventions.testDir && TEST_DIRECTORIES.includes(segments[0])) {
+            segments[0] = conventions.testDir;
+        }
+        fileName = fileName.replace(/\.(test|spec)(\.[^.]+)$/, `${conventions.testSuffix}$2`);
+    } else {
+        // Relocate role directories (e.g. "src/models") to where the workspace keeps them.
+        const role = segments[segments.length - 1];
+        if (role && conventions.roles[role]) {
+            segments.splice(0, segments.length, ...conventions.roles[role].split("/"));
+        } else if (segments[0] === "src" && conventions.sourceRoot && conventions.sourceRoot !== "src") {
+            // Only move sources into a root that was detected; without one the planned path is as good a guess.
+            segments[0] = conventions.sourceRoot;
+        }
+    }
+
+    // Follow the workspace language when it is plain JavaScript rather than TypeScript.
+    if (conventions.extension === ".js" || conventions.extension === ".jsx") {
+        fileName = fileName.replace(/\.ts$/, ".js").replace(/\.tsx$/, ".jsx");
+    }
+
+    return [...segments, fileName].join("/");
+}
+
+function inferConventions(files: WorkspaceFile[], directories: string[]): WorkspaceConventions {
+    const topLevel = new Set(directories.filter(d => !d.includes("/")));
+
+    const sourceRoot = ["src", "lib", "app"].find(d => topLevel.has(d)) ?? "";
+    const testDir = TEST_DIRECTORIES.find(d => topLevel.has(d));
+
+    // Count extensions of source files to find the dominant language.
+    const extensionCounts: Record<string, number> = {};
+    let testCount = 0;
+    let specCount = 0;
+    for (const file of files) {
+        const ext = posix.extname(file.path);
+        if (SOURCE_EXTENSIONS.includes(ext)) {
+            extensionCounts[ext] = (extensionCounts[ext] || 0) + 1;
+        }
+        if (/\.test\.[a-z]+$/.test(file.path)) testCount++;
+        if (/\.spec\.[a-z]+$/.test(file.path)) specCount++;
+    }
+    const extension = Object.entries(extensionCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? ".ts";
+
+    // Map role names to the shallowest directory carrying that name.
+    const roles: Record<string, string> = {};
+    for (const dir of directories) {
+        const name = posix.basename(dir);
+        if (!ROLE_DIRECTORIES.includes(name)) continue;
+        if (!roles[name] || dir.split("/").length < roles[name].split("/").length) {
+            roles[name] = dir;
+        }
+    }
+
+    return {
+        sourceRoot,
+        extension,
+        testDir,
+        testSuffix: specCount > testCount ? ".spec" : ".test",
+        roles,
+    };
+}
+
+function extractExports(absPath: string, maxFileSize: number): string[] {
+    const ext = posix.extname(absPath.replace(/\\/g, "/"));
+    if (!SOURCE_EXTENSIONS.includes(ext)) return [];
+
+    let content: string;
+    try {
+        if (statSync(absPath).size > maxFileSize) return [];
+        content = readFileSync(absPath, "utf-8");
+    } catch {
+        return [];
+    }
+
+    const symbols = new Set<string>();
+
+    if (ext === ".py") {
+        // Top-level public functions and classes.
+        for (const m of content.matchAll(/^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/gm)) {
+            symbols.add(m[1]);
+        }
+        return [...symbols];
+    }
+
+    const declaration = /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+    for (const m of content.matchAll(declaration)) {
+        symbols.add(m[1]);
+    }
+
+    // Export lists: export { a, b as c } [from "..."].
+    for (const m of content.matchAll(/^export\s+(?:type\s+)?\{([^}]*)\}/gm)) {
+        for (const part of m[1].split(",")) {
+            const name = part.trim().split(/\s+as\s+/).pop()?.trim();
+            if (name && /^[A-Za-z_$][\w$]*$/.test(name)) symbols.add(name);
+        }
+    }
+
+    // CommonJS: module.exports.foo / exports.foo.
+    for (const m of content.matchAll(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/gm)) {
+        symbols.add(m[1]);
+    }
+
+    return [...symbols];
+}
+
+function loadIgnoreRules(absDir: string, relDir: string): IgnoreRule[] {
+    const ignorePath = join(absDir, ".gitignore");
+    if (!existsSync(ignorePath)) return [];
+
+    let content: string;
+    try {
+        content = readFileSync(ignorePath, "utf-8");
+    } catch {
+        return [];
+    }
+
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+
+        const negate = line.startsWith("!");
+        if (negate) line = line.slice(1);
+
+        const dirOnly = line.endsWith("/");
+        if (dirOnly) line = line.replace(/\/+$/, "");
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory.
+        const anchored = line.includes("/");
+        line = line.replace(/^\//, "");
+        if (!line) continue;
+
+        rules.push({ base: relDir, regex: globToRegex(line), negate, dirOnly, anchored });
+    }
+    return rules;
+}
+
+function isIgnored(relPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+
+    // Later rules (and deeper .gitignore files) override earlier ones.
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.base && !relPath.startsWith(`${rule.base}/`)) continue;
+
+        const local = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+        const subject = rule.anchored ? local : posix.basename(local);
+
+        if (rule.regex.test(subject)) {
+            ignored = !rule.negate;
+        }
+    }
+
+    return ignored;
+}
+
+function globToRegex(glob: string): RegExp {
+    let out = "";
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === "*") {
+            if (glob[i + 1] === "*") {
+                // "**/" matches zero or more directories, a trailing "**" matches everything.
+                if (glob[i + 2] === "/") {
+                    out += "(?:.*/)?";
+                    i += 2;
+                } else {
+                    out += ".*";
+                    i += 1;
+                }
+            } else {
+                out += "[^/]*";
+            }
+        } else if (ch === "?") {
+            out += "[^/]";
+        } else if (ch === "[") {
+            const close = glob.indexOf("]", i);
+            if (close === -1) {
+                out += "\\[";
+            } else {
+                out += glob.slice(i, close + 1).replace(/^\[!/, "[^");
+                i = close;
+            }
+        } else {
+            out += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${out}$`);
+}
@@ -0,0 +1,137 @@
+/**
+ * Adapter for Anthropic messages-style APIs.
+ * POST {baseUrl}/messages with system prompts lifted into the top-level "system" field,
+ * optionally streamed as server-sent events.
+ */
+
+import { HttpProvider } from "./HttpProvider";
+import { ProviderError, RateLimitError, InvalidResponseError } from "./errors";
+import { LLMProviderConfig, LLMRequest, LLMResponse } from "./LLMProvider";
+
+// Request payload for /messages.
+interface MessagesRequest {
+	model: string;
+	max_tokens: number;
+	system?: string;
+	messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+	stream?: boolean;
+}
+
+// Response from /messages.
+interface MessagesResponse {
+	model?: string;
+	content?: Array<{ type: string; text?: string }>;
+	usage?: {
+		input_tokens: number;
+		output_tokens: number;
+	};
+}
+
+// One server-sent event of a streamed reply (only the fields used here).
+interface MessagesStreamEvent {
+	type: string;
+	message?: { model?: string; usage?: { input_tokens?: number } };   // message_start
+	delta?: { type?: string; text?: string };                           // content_block_delta
+	usage?: { output_tokens?: number };                                 // message_delta
+	error?: { type?: string; message?: string };                        // error
+}
+
+// API version header value sent with every request.
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Upper bound on generated tokens; plans are short JSON documents.
+const MAX_TOKENS = 4096;
+
+export class AnthropicProvider extends HttpProvider {
+	readonly name = 'Anthropic';
+
+	constructor(config: LLMProviderConfig) {
+		super(config, {
+			'x-api-key': config.apiKey,
+			'anthropic-version': ANTHROPIC_VERSION,
+		});
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const { data, retries }: { data: MessagesResponse; retries: number } = await this.post('/messages', this.buildBody(request), request.signal);
+
+		const content = (data.content || [])
+			.filter(block => block.type === 'text' && block.text)
+			.map(block => block.text)
+			.join('');
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		return {
+			content,
+			model: data.model || this.model,
+			usage: data.usage
+				? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens }
+				: undefined,
+			retries,
+		};
+	}
+
+	async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+		let content = '';
+		let model = this.model;
+		let promptTokens: number | undefined;
+		let completionTokens: number | undefined;
+
+		const retries = await this.postStream('/messages', { ...this.buildBody(request), stream: true }, request.signal, line => {
+			// Each event is an "event:" line followed by a "data:" line whose JSON repeats the type.
+			if (!line.startsWith('data:')) return;
+
+			const event: MessagesStreamEvent = JSON.parse(line.slice('data:'.length));
+			if (event.type === 'message_start') {
+				model = event.message?.model || model;
+				promptTokens = event.message?.usage?.input_tokens;
+			} else if (event.type === 'content_block_delta' && event.delta?.text) {
+				content += event.delta.text;
+				onText(event.delta.text);
+			} else if (event.type === 'message_delta') {
+				completionTokens = event.usage?.output_tokens ?? completionTokens;
+			} else if (event.type === 'error') {
+				const message = `${this.name} API error: ${event.error?.message || 'Unknown error'}`;
+				throw event.error?.type === 'rate_limit_error'
+					? new RateLimitError(this.name, message)
+					: new ProviderError(this.name, message, { retryable: event.error?.type === 'overloaded_error' });
+			}
+		});
+
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		return {
+			content,
+			model,
+			usage: promptTokens !== undefined || completionTokens !== undefined
+				? { promptTokens: promptTokens || 0, completionTokens: completionTokens || 0 }
+				: undefined,
+			retries,
+		};
+	}
+
+	// Build the /messages payload, lifting system prompts into the "system" field.
+	private buildBody(request: LLMRequest): MessagesRequest {
+		const system = request.messages
+			.filter(m => m.role === 'system')
+			.map(m => m.content);
+
+		// There is no JSON mode, so ask for it in the system prompt instead.
+		if (request.json) {
+			system.push('Respond with a single JSON object and nothing else.');
+		}
+
+		return {
+			model: this.model,
+			max_tokens: MAX_TOKENS,
+			...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+			messages: request.messages
+				.filter(m => m.role !== 'system')
+				.map(m => ({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content })),
+		};
+	}
+}
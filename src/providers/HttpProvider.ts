@@ -0,0 +1,252 @@
+/**
+ * Shared HTTP plumbing for provider adapters: axios client, retry interceptor,
+ * line-by-line reading of streamed responses and translation of transport errors
+ * into typed errors (see ./errors).
+ *
+ * Every request first takes a token from the client-side rate limiter and checks the circuit
+ * breaker (see ./resilience). Rate limits (429), server errors and network failures are retried
+ * with jittered backoff, waiting as long as Retry-After or the rate-limit headers ask.
+ */
+
+import axios from "axios";
+import { StringDecoder } from "string_decoder";
+import { LLMProvider, LLMProviderConfig, LLMRequest, LLMResponse } from "./LLMProvider";
+import { ProviderError, AuthenticationError, RateLimitError, ProviderTimeoutError, InvalidResponseError, CircuitOpenError } from "./errors";
+import { TokenBucket, CircuitBreaker, MAX_RETRY_AFTER_MS, backoffDelay, retryAfterMs, rateLimitResetMs } from "./resilience";
+
+export abstract class HttpProvider implements LLMProvider {
+	abstract readonly name: string;
+	readonly model: string;
+	protected config: LLMProviderConfig;
+	protected client: any;   // HTTP client for API calls (axios instance).
+	protected rateLimiter: TokenBucket;
+	protected circuit: CircuitBreaker;
+
+	/**
+	 * @param config - Resolved provider configuration.
+	 * @param headers - Provider-specific headers (authentication, API version).
+	 */
+	constructor(config: LLMProviderConfig, headers: Record<string, string>) {
+		this.config = config;
+		this.model = config.model;
+
+		this.client = axios.create({
+			baseURL: config.baseUrl,
+			timeout: config.timeout || 30000,
+			headers: {
+				'Content-Type': 'application/json',
+				...headers,
+			},
+		});
+
+		this.rateLimiter = new TokenBucket(config.requestsPerMinute ?? 0);
+		this.circuit = new CircuitBreaker({ threshold: config.circuitThreshold, cooldownMs: config.circuitCooldown });
+
+		// Throttle requests and fail fast while the circuit is open.
+		this.setupThrottleInterceptor();
+
+		// Add retry interceptor for handling transient failures.
+		this.setupRetryInterceptor();
+	}
+
+	abstract complete(request: LLMRequest): Promise<LLMResponse>;
+
+	/**
+	 * POST a JSON body and return the response data and the number of retries it took.
+	 * Aborting the signal cancels the request and any retries still to come.
+	 * @throws ProviderError (or one of its subclasses) if the request fails or is cancelled.
+	 */
+	protected async post(path: string, body: unknown, signal?: AbortSignal): Promise<{ data: any; retries: number }> {
+		try {
+			const response = await this.client.post(path, body, { signal });
+			return { data: response.data, retries: response.config?._retryCount || 0 };
+		} catch (error: any) {
+			throw this.toProviderError(error);
+		}
+	}
+
+	/**
+	 * POST a JSON body and call onLine with each line of the streamed response body
+	 * (server-sent events or newline-delimited JSON). Errors and cancellation work like post().
+	 * @returns The number of retries it took to open the stream.
+	 */
+	protected async postStream(path: string, body: unknown, signal: AbortSignal | undefined, onLine: (line: string) => void): Promise<number> {
+		try {
+			const response = await this.client.post(path, body, { responseType: 'stream', signal });
+
+			// Decode across chunk boundaries and hand over complete lines only.
+			const decoder = new StringDecoder('utf8');
+			let buffer = '';
+			for await (const chunk of response.data) {
+				buffer += decoder.write(chunk);
+				const lines = buffer.split(/\r?\n/);
+				buffer = lines.pop() ?? '';
+				lines.forEach(onLine);
+			}
+			buffer += decoder.end();
+			if (buffer) onLine(buffer);
+
+			return response.config?._retryCount || 0;
+		} catch (error: any) {
+			// Error bodies of streamed requests arrive as a stream too.
+			if (error.response?.data && typeof error.response.data.on === 'function') {
+				error.response.data = await readErrorBody(error.response.data);
+			}
+			throw this.toProviderError(error);
+		}
+	}
+
+	// Turn an axios error, or an error thrown while reading a stream, into a typed ProviderError.
+	private toProviderError(error: any): Error {
+		if (error instanceof ProviderError) return error;
+
+		// Handle different types of API errors.
+		if (error.code === 'ERR_CANCELED') {
+			// The caller gave up on the request (e.g. a strategy that timed out).
+			return new ProviderError(this.name, `${this.name} API request was cancelled`);
+		} else if (error.response) {
+			// Server responded with error status.
+			const status = error.response.status;
+			const message = error.response.data?.error?.message
+				|| (typeof error.response.data?.error === 'string' ? error.response.data.error : '')
+				|| 'Unknown error';
+
+			if (status === 401 || status === 403) {
+				return new AuthenticationError(this.name, `${this.name} API authentication failed (${status}): ${message}. Check your API key.`, status);
+			}
+			if (status === 429) {
+				const wait = retryAfterMs(error.response.headers);
+				const advice = wait !== undefined ? `Retry after ${Math.ceil(wait / 1000)}s.` : 'Please try again later.';
+				return new RateLimitError(this.name, `${this.name} API rate limit exceeded (429): ${message}. ${advice}`, wait);
+			}
+			return new ProviderError(this.name, `${this.name} API error (${status}): ${message}`, { status, retryable: isTransientStatus(status) });
+		} else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+			// No response within the timeout.
+			return new ProviderTimeoutError(this.name, `${this.name} API did not respond within ${this.config.timeout || 30000}ms`);
+		} else if (error.request) {
+			// Request was made but no response received (network error).
+			return new ProviderError(this.name, `Network error: Could not reach ${this.name} API`, { retryable: true });
+		} else if (error instanceof SyntaxError) {
+			// A streamed chunk that is not the JSON it should be.
+			return new InvalidResponseError(this.name, `Invalid streamed response from ${this.name} API: ${error.message}`);
+		} else {
+			// Something else went wrong.
+			return new Error(`Something went wrong: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Wait for the client-side rate limiter before each request (retries included), and refuse
+	 * requests while the circuit breaker is open.
+	 */
+	private setupThrottleInterceptor(): void {
+		this.client.interceptors.request.use(async (config: any) => {
+			const wait = this.circuit.acquire();
+			if (wait > 0) {
+				throw new CircuitOpenError(
+					this.name,
+					`${this.name} API circuit is open after repeated failures; requests are refused for another ${Math.ceil(wait / 1000)}s`,
+					wait,
+				);
+			}
+
+			await this.rateLimiter.take();
+			return config;
+		});
+	}
+
+	/**
+	 * Configure axios to automatically retry failed requests with exponential backoff and jitter.
+	 * Retries on: 429 (rate limited, after the wait the server asks for), 408 and 5xx errors, and network errors.
+	 * Does NOT retry on: other 4xx errors (client errors like invalid API key), or a rate limit
+	 * that resets later than MAX_RETRY_AFTER_MS.
+	 * Server errors, timeouts and network errors count towards opening the circuit breaker.
+	 */
+	private setupRetryInterceptor(): void {
+		this.client.interceptors.response.use(
+			// Success handler - close the circuit and slow down if a rate limit is used up.
+			(response: any) => {
+				this.circuit.recordSuccess();
+				const reset = rateLimitResetMs(response.headers);
+				if (reset) this.rateLimiter.pause(reset);
+				return response;
+			},
+
+			// Error handler - implement retry logic.
+			async (error: any) => {
+				const config = error.config;
+
+				// Errors raised before sending (open circuit) and cancelled requests are final;
+				// a cancelled request says nothing about the backend, but may hold the half-open trial slot.
+				if (error.code === 'ERR_CANCELED') {
+					this.circuit.release();
+					return Promise.reject(error);
+				}
+				if (!config || error instanceof ProviderError) return Promise.reject(error);
+
+				// Initialize retry count if not present.
+				config._retryCount = config._retryCount || 0;
+
+				const status: number | undefined = error.response?.status;
+				const failed = status === undefined || isTransientStatus(status);
+				if (failed) this.circuit.recordFailure();
+				else this.circuit.recordSuccess();
+
+				// A rate limit holds back every request, not just this one.
+				const serverWait = status === 429 ? retryAfterMs(error.response.headers) : undefined;
+				if (serverWait !== undefined) this.rateLimiter.pause(serverWait);
+
+				// Check if we should retry this error.
+				const shouldRetry =
+					// Retry on rate limits the server lets us wait out.
+					(status === 429 && (serverWait ?? 0) <= MAX_RETRY_AFTER_MS) ||
+					// Retry on 5xx server errors, timeouts and network errors (no response).
+					failed;
+
+				// Check if we haven't exceeded max retries.
+				const maxRetries = this.config.maxRetries ?? 3;
+				const canRetry = config._retryCount < maxRetries;
+
+				if (shouldRetry && canRetry) {
+					config._retryCount += 1;
+
+					// Wait as long as the server asked, or back off: ~1s, 2s, 4s, etc. with jitter.
+					const delay = serverWait ?? backoffDelay(config._retryCount);
+					const reason = status === 429 ? 'rate limited'
+						: status ? `HTTP ${status}`
+						: error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network error';
+
+					console.warn(`Retrying request (${reason}; attempt ${config._retryCount}/${maxRetries}) after ${delay}ms...`);
+
+					// Wait before retrying; a request cancelled meanwhile is not sent again.
+					await new Promise(resolve => setTimeout(resolve, delay));
+					if (config.signal?.aborted) return Promise.reject(error);
+
+					// Retry the request (through the throttle again).
+					return this.client(config);
+				}
+
+				// No more retries or non-retryable error - propagate the error.
+				return Promise.reject(error);
+			}
+		);
+	}
+}
+
+// Statuses worth retrying that also suggest the backend is unhealthy.
+function isTransientStatus(status: number): boolean {
+	return status === 408 || status >= 500;
+}
+
+// Read a streamed error body, parsing it as JSON when possible.
+async function readErrorBody(stream: AsyncIterable<Buffer>): Promise<any> {
+	let text = '';
+	try {
+		for await (const chunk of stream) {
+			text += chunk.toString();
+		}
+		return JSON.parse(text);
+	} catch {
+		return { error: text.trim() };
+	}
+}
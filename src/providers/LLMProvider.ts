@@ -0,0 +1,78 @@
+/**
+ * Provider-agnostic contract for chat-style LLM backends.
+ *
+ * LLMStrategy builds prompts and validates responses; providers only move messages
+ * over the wire. Each adapter translates these shapes to its vendor's API.
+ */
+
+/**
+ * A chat message (the OpenAI-compatible shape every adapter starts from).
+ */
+export interface LLMMessage {
+	role: string;      // "system", "user", or "assistant".
+	content: string;   // Message content.
+}
+
+// A single completion request.
+export interface LLMRequest {
+	messages: LLMMessage[];
+	json?: boolean;    // Ask the backend for a JSON object if it supports it.
+	signal?: AbortSignal;   // Cancels the request (and its retries) when aborted.
+}
+
+// Token counts reported by the backend (when it reports them).
+export interface LLMUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+// A completion returned by a provider.
+export interface LLMResponse {
+	content: string;
+	model: string;
+	usage?: LLMUsage;
+	retries?: number;  // Retries needed before the request succeeded.
+}
+
+// Supported provider adapters. "groq" and "openai" both use the OpenAI-compatible adapter.
+export type ProviderName = 'groq' | 'openai' | 'ollama' | 'anthropic';
+
+/**
+ * Resolved provider configuration.
+ * Built from the config files and environment variables by loadLLMConfig.
+ */
+export interface LLMProviderConfig {
+	provider: ProviderName;
+	apiKey: string;        // May be empty for providers that need no key (Ollama).
+	model: string;
+	baseUrl: string;
+	maxRetries?: number;   // Optional retry count (default 3).
+	timeout?: number;      // Optional timeout in ms (default 30000).
+	requestsPerMinute?: number;   // Client-side rate limit (default 0: none).
+	circuitThreshold?: number;    // Failures in a row that open the circuit breaker (default 5; 0: never).
+	circuitCooldown?: number;     // Time the open circuit refuses requests, in ms (default 30000).
+}
+
+/**
+ * A chat completion backend.
+ */
+export interface LLMProvider {
+	// Human-readable provider name, used in logs and error messages (e.g. "Groq").
+	readonly name: string;
+
+	// Model the provider sends requests to.
+	readonly model: string;
+
+	/**
+	 * Send the messages and return the completion text.
+	 * @throws ProviderError (see ./errors) if the request fails or the response is empty.
+	 */
+	complete(request: LLMRequest): Promise<LLMResponse>;
+
+	/**
+	 * Optional: stream the completion, calling onText with each piece of text as it arrives.
+	 * @returns The full response once the stream ends.
+	 * @throws ProviderError (see ./errors) if the request fails or the stream ends without content.
+	 */
+	stream?(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+}
@@ -0,0 +1,100 @@
+/**
+ * Adapter for Ollama's native chat API.
+ * POST {baseUrl}/api/chat (no API key), returning one JSON object or, when streamed,
+ * one JSON object per line.
+ */
+
+import { HttpProvider } from "./HttpProvider";
+import { InvalidResponseError } from "./errors";
+import { LLMMessage, LLMProviderConfig, LLMRequest, LLMResponse } from "./LLMProvider";
+
+// Request payload for /api/chat.
+interface OllamaChatRequest {
+	model: string;
+	messages: LLMMessage[];
+	stream: boolean;
+	format?: string;       // "json" constrains the output to a JSON value.
+}
+
+// Response from /api/chat; a streamed reply sends one per line, the last with done: true.
+interface OllamaChatResponse {
+	model?: string;
+	done?: boolean;
+	message?: {
+		content: string;
+	};
+	prompt_eval_count?: number;
+	eval_count?: number;
+}
+
+export class OllamaProvider extends HttpProvider {
+	readonly name = 'Ollama';
+
+	constructor(config: LLMProviderConfig) {
+		super(config, config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {});
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const body: OllamaChatRequest = {
+			model: this.model,
+			messages: request.messages,
+			stream: false,
+			...(request.json ? { format: 'json' } : {}),
+		};
+
+		const { data, retries }: { data: OllamaChatResponse; retries: number } = await this.post('/api/chat', body, request.signal);
+
+		const content = data.message?.content;
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		return {
+			content,
+			model: data.model || this.model,
+			usage: data.prompt_eval_count !== undefined || data.eval_count !== undefined
+				? { promptTokens: data.prompt_eval_count || 0, completionTokens: data.eval_count || 0 }
+				: undefined,
+			retries,
+		};
+	}
+
+	async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+		const body: OllamaChatRequest = {
+			model: this.model,
+			messages: request.messages,
+			stream: true,
+			...(request.json ? { format: 'json' } : {}),
+		};
+
+		let content = '';
+		let last: OllamaChatResponse = {};
+
+		const retries = await this.postStream('/api/chat', body, request.signal, line => {
+			if (!line.trim()) return;
+
+			const chunk: OllamaChatResponse = JSON.parse(line);
+			last = chunk;
+
+			const text = chunk.message?.content;
+			if (text) {
+				content += text;
+				onText(text);
+			}
+		});
+
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		// Token counts arrive with the final (done) object.
+		return {
+			content,
+			model: last.model || this.model,
+			usage: last.prompt_eval_count !== undefined || last.eval_count !== undefined
+				? { promptTokens: last.prompt_eval_count || 0, completionTokens: last.eval_count || 0 }
+				: undefined,
+			retries,
+		};
+	}
+}
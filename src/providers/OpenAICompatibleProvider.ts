@@ -0,0 +1,125 @@
+/**
+ * Adapter for OpenAI-compatible chat completions (Groq, OpenAI, internal gateways).
+ * POST {baseUrl}/chat/completions, optionally streamed as server-sent events.
+ */
+
+import { HttpProvider } from "./HttpProvider";
+import { InvalidResponseError } from "./errors";
+import { LLMMessage, LLMProviderConfig, LLMRequest, LLMResponse } from "./LLMProvider";
+
+// Request payload for the chat completions endpoint.
+interface ChatCompletionRequest {
+	model: string;
+	messages: LLMMessage[];                     // Conversation messages.
+	response_format?: { type: string };         // Optional: request JSON output.
+	stream?: boolean;                           // Stream the reply as server-sent events.
+	stream_options?: { include_usage: boolean };  // Ask for token usage in the last streamed chunk.
+}
+
+// Response from the chat completions endpoint.
+interface ChatCompletionResponse {
+	model?: string;
+	choices: Array<{
+		message: {
+			content: string;
+		};
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+	};
+}
+
+// One server-sent event of a streamed completion ("data: {...}").
+interface ChatCompletionChunk {
+	model?: string;
+	choices?: Array<{
+		delta?: {
+			content?: string;
+		};
+	}>;
+	usage?: ChatCompletionResponse['usage'];
+	x_groq?: { usage?: ChatCompletionResponse['usage'] };   // Groq reports usage here.
+}
+
+export class OpenAICompatibleProvider extends HttpProvider {
+	readonly name: string;
+
+	/**
+	 * @param config - Resolved provider configuration.
+	 * @param name - Display name, e.g. "Groq" or "OpenAI".
+	 */
+	constructor(config: LLMProviderConfig, name: string = 'OpenAI') {
+		super(config, config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {});
+		this.name = name;
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		// Build the request payload.
+		const body: ChatCompletionRequest = {
+			model: this.model,
+			messages: request.messages,
+			// Request JSON mode for structured output.
+			...(request.json ? { response_format: { type: 'json_object' } } : {}),
+		};
+
+		const { data, retries }: { data: ChatCompletionResponse; retries: number } = await this.post('/chat/completions', body, request.signal);
+
+		// Extract the generated content from the response.
+		const content = data.choices?.[0]?.message?.content;
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		return {
+			content,
+			model: data.model || this.model,
+			usage: data.usage
+				? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+				: undefined,
+			retries,
+		};
+	}
+
+	async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+		const body: ChatCompletionRequest = {
+			model: this.model,
+			messages: request.messages,
+			...(request.json ? { response_format: { type: 'json_object' } } : {}),
+			stream: true,
+			stream_options: { include_usage: true },
+		};
+
+		let content = '';
+		let model = this.model;
+		let usage: ChatCompletionResponse['usage'];
+
+		const retries = await this.postStream('/chat/completions', body, request.signal, line => {
+			// Only "data:" lines carry chunks; the stream ends with "data: [DONE]".
+			if (!line.startsWith('data:')) return;
+			const data = line.slice('data:'.length).trim();
+			if (!data || data === '[DONE]') return;
+
+			const chunk: ChatCompletionChunk = JSON.parse(data);
+			model = chunk.model || model;
+			usage = chunk.usage || chunk.x_groq?.usage || usage;
+
+			const text = chunk.choices?.[0]?.delta?.content;
+			if (text) {
+				content += text;
+				onText(text);
+			}
+		});
+
+		if (!content) {
+			throw new InvalidResponseError(this.name, `Empty response from ${this.name} API`);
+		}
+
+		return {
+			content,
+			model,
+			usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined,
+			retries,
+		};
+	}
+}
@@ -0,0 +1,69 @@
+/**
+ * Typed errors raised by provider adapters.
+ *
+ * Callers tell failures apart by class instead of by message: an invalid key needs a config change,
+ * a rate limit or timeout may pass on its own, an unusable reply may be worth asking again.
+ * Every class extends ProviderError, which records the provider and the HTTP status if there was one.
+ */
+
+export class ProviderError extends Error {
+	readonly provider: string;
+	readonly status?: number;
+
+	// Whether sending the same request again may succeed.
+	readonly retryable: boolean;
+
+	constructor(provider: string, message: string, options: { status?: number; retryable?: boolean } = {}) {
+		super(message);
+		this.name = 'ProviderError';
+		this.provider = provider;
+		this.status = options.status;
+		this.retryable = options.retryable ?? false;
+	}
+}
+
+// The API key is missing, invalid or lacks access (HTTP 401/403).
+export class AuthenticationError extends ProviderError {
+	constructor(provider: string, message: string, status?: number) {
+		super(provider, message, { status, retryable: false });
+		this.name = 'AuthenticationError';
+	}
+}
+
+// Too many requests (HTTP 429); retryAfterMs is the wait the server asked for, if it said.
+export class RateLimitError extends ProviderError {
+	readonly retryAfterMs?: number;
+
+	constructor(provider: string, message: string, retryAfterMs?: number) {
+		super(provider, message, { status: 429, retryable: true });
+		this.name = 'RateLimitError';
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+// No response within the configured timeout.
+export class ProviderTimeoutError extends ProviderError {
+	constructor(provider: string, message: string) {
+		super(provider, message, { retryable: true });
+		this.name = 'ProviderTimeoutError';
+	}
+}
+
+// The provider answered, but not with something usable: an empty reply, a broken stream or a plan that fails validation.
+export class InvalidResponseError extends ProviderError {
+	constructor(provider: string, message: string) {
+		super(provider, message, { retryable: false });
+		this.name = 'InvalidResponseError';
+	}
+}
+
+// Requests are refused without being sent because recent ones kept failing; see CircuitBreaker.
+export class CircuitOpenError extends ProviderError {
+	readonly retryAfterMs: number;
+
+	constructor(provider: string, message: string, retryAfterMs: number) {
+		super(provider, message, { retryable: false });
+		this.name = 'CircuitOpenError';
+		this.retryAfterMs = retryAfterMs;
+	}
+}
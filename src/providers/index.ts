@@ -0,0 +1,105 @@
+/**
+ * Provider registry: turns the resolved LLM settings into a provider configuration and builds the matching adapter.
+ *
+ * The settings come from the central configuration (src/core/config): LLM_* and provider-specific
+ * environment variables (e.g. GROQ_API_KEY, OPENAI_MODEL, OLLAMA_BASE_URL) override the "llm" section
+ * of the config files. An empty model or base URL means the provider's built-in default.
+ */
+
+import { LLMProvider, LLMProviderConfig, ProviderName } from "./LLMProvider";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider";
+import { OllamaProvider } from "./OllamaProvider";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { resolveConfig, LLMSettings, ConfigError } from "../core/config";
+import { AuthenticationError } from "./errors";
+
+export * from "./LLMProvider";
+export * from "./errors";
+export { HttpProvider } from "./HttpProvider";
+export { TokenBucket, CircuitBreaker, backoffDelay, retryAfterMs, rateLimitResetMs, MAX_RETRY_AFTER_MS } from "./resilience";
+export type { CircuitState, CircuitBreakerOptions } from "./resilience";
+export { OpenAICompatibleProvider } from "./OpenAICompatibleProvider";
+export { OllamaProvider } from "./OllamaProvider";
+export { AnthropicProvider } from "./AnthropicProvider";
+
+// Per-provider defaults and the prefix of its provider-specific environment variables.
+const PROVIDER_DEFAULTS: Record<ProviderName, { envPrefix: string; model: string; baseUrl: string; requiresKey: boolean }> = {
+	groq: { envPrefix: 'GROQ', model: 'openai/gpt-oss-20b', baseUrl: 'https://api.groq.com/openai/v1', requiresKey: true },
+	openai: { envPrefix: 'OPENAI', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', requiresKey: true },
+	ollama: { envPrefix: 'OLLAMA', model: 'llama3.1', baseUrl: 'http://localhost:11434', requiresKey: false },
+	anthropic: { envPrefix: 'ANTHROPIC', model: 'claude-3-5-haiku-latest', baseUrl: 'https://api.anthropic.com/v1', requiresKey: true },
+};
+
+/**
+ * List the provider names accepted by LLM_PROVIDER / llm.provider.
+ */
+export function listProviders(): ProviderName[] {
+	return Object.keys(PROVIDER_DEFAULTS) as ProviderName[];
+}
+
+// Options for loadLLMConfig.
+export interface LoadLLMConfigOptions {
+	requireApiKey?: boolean;   // Fail when the provider needs a key and none is set (default true).
+	settings?: LLMSettings;    // Use these settings instead of resolving the configuration.
+}
+
+/**
+ * Resolve the LLM provider configuration, filling in the provider defaults.
+ *
+ * @returns LLMProviderConfig with all required settings.
+ * @throws ConfigError if the provider is unknown or the configuration is invalid.
+ * @throws AuthenticationError if a required API key is missing.
+ */
+export function loadLLMConfig(options: LoadLLMConfigOptions = {}): LLMProviderConfig {
+	// Step 1: Take the settings from the central configuration unless given.
+	const settings = options.settings ?? resolveConfig().config.llm;
+
+	// Step 2: Look up the provider defaults.
+	const provider = settings.provider;
+	const defaults = PROVIDER_DEFAULTS[provider];
+	if (!defaults) {
+		throw new ConfigError(`Unknown LLM provider "${provider}". Supported providers: ${listProviders().join(', ')}`);
+	}
+
+	const config: LLMProviderConfig = {
+		provider,
+		apiKey: settings.apiKey,
+		model: settings.model || defaults.model,
+		baseUrl: settings.baseUrl || defaults.baseUrl,
+		maxRetries: settings.maxRetries,
+		timeout: settings.timeout,
+		requestsPerMinute: settings.requestsPerMinute,
+		circuitThreshold: settings.circuitThreshold,
+		circuitCooldown: settings.circuitCooldown,
+	};
+
+	// Step 3: Validate that API key is present where the provider needs one.
+	if (defaults.requiresKey && !config.apiKey && options.requireApiKey !== false) {
+		throw new AuthenticationError(
+			provider,
+			`${provider} API key is required. Set LLM_API_KEY or ${defaults.envPrefix}_API_KEY, or add llm.apiKey to a config file`
+		);
+	}
+
+	return config;
+}
+
+/**
+ * Build the adapter for a resolved configuration.
+ *
+ * @throws ConfigError if the provider is unknown.
+ */
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+	switch (config.provider) {
+		case 'groq':
+			return new OpenAICompatibleProvider(config, 'Groq');
+		case 'openai':
+			return new OpenAICompatibleProvider(config, 'OpenAI');
+		case 'ollama':
+			return new OllamaProvider(config);
+		case 'anthropic':
+			return new AnthropicProvider(config);
+		default:
+			throw new ConfigError(`Unknown LLM provider "${config.provider}". Supported providers: ${listProviders().join(', ')}`);
+	}
+}
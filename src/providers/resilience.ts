@@ -0,0 +1,200 @@
+/**
+ * Building blocks HttpProvider uses to be a good API citizen: backoff with jitter, reading the
+ * wait a server asks for (Retry-After and rate-limit headers), a client-side token bucket that
+ * spaces requests out, and a circuit breaker that stops sending requests to a backend that keeps failing.
+ */
+
+// Longest wait a server may ask for before a request is given up instead of retried.
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff with "equal jitter",
+ * i.e. between half and all of base * 2^(attempt - 1), capped at maxMs.
+ * The jitter keeps parallel requests that failed together from retrying together.
+ */
+export function backoffDelay(attempt: number, baseMs: number = 1000, maxMs: number = 30_000): number {
+	const ceiling = Math.min(maxMs, baseMs * Math.pow(2, attempt - 1));
+	return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * The wait a response asks for before the next request, in ms: "retry-after-ms", "retry-after"
+ * (seconds or an HTTP date), or else the reset time of an exhausted rate limit (see rateLimitResetMs).
+ * @returns The wait, or undefined if the headers do not say.
+ */
+export function retryAfterMs(headers: Record<string, any> | undefined, now: number = Date.now()): number | undefined {
+	if (!headers) return undefined;
+
+	const ms = Number(headers['retry-after-ms']);
+	if (headers['retry-after-ms'] !== undefined && Number.isFinite(ms)) return Math.max(0, ms);
+
+	const retryAfter = headers['retry-after'];
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+		const date = Date.parse(String(retryAfter));
+		if (!Number.isNaN(date)) return Math.max(0, date - now);
+	}
+
+	return rateLimitResetMs(headers, now);
+}
+
+/**
+ * Time until an exhausted rate limit resets, in ms, from the headers OpenAI-compatible APIs
+ * ("x-ratelimit-remaining-requests: 0" with "x-ratelimit-reset-requests: 6m0s") and Anthropic
+ * ("anthropic-ratelimit-requests-remaining: 0" with an RFC 3339 reset time) send.
+ * @returns The longest reset among the exhausted limits, or undefined if none is exhausted.
+ */
+export function rateLimitResetMs(headers: Record<string, any> | undefined, now: number = Date.now()): number | undefined {
+	if (!headers) return undefined;
+
+	let wait: number | undefined;
+	for (const prefix of ['x-ratelimit', 'anthropic-ratelimit']) {
+		for (const limit of ['requests', 'tokens', 'input-tokens', 'output-tokens']) {
+			if (String(headers[`${prefix}-remaining-${limit}`]) !== '0') continue;
+
+			const reset = parseReset(headers[`${prefix}-reset-${limit}`], now);
+			if (reset !== undefined) wait = Math.max(wait ?? 0, reset);
+		}
+	}
+	return wait;
+}
+
+// "1s", "6m0s", "59.56s", "120ms" or an absolute timestamp -> ms from now.
+function parseReset(value: unknown, now: number): number | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	const text = String(value).trim();
+
+	const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+	const parts = [...text.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+	if (parts.length > 0 && parts.map(part => part[0]).join('') === text) {
+		return Math.round(parts.reduce((sum, part) => sum + Number(part[1]) * units[part[2]], 0));
+	}
+
+	const date = Date.parse(text);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Client-side rate limiter: a bucket of `capacity` request tokens refilled at `perMinute` tokens
+ * a minute. take() waits for a token, so parallel callers (batch workers) are spaced out instead
+ * of bursting into the provider's rate limit. A server-requested wait pauses the whole bucket.
+ */
+export class TokenBucket {
+	readonly perMinute: number;
+	readonly capacity: number;
+	private tokens: number;
+	private updatedAt: number;
+	private resumeAt = 0;
+
+	/**
+	 * @param perMinute - Requests allowed per minute; 0 for no limit (pauses still apply).
+	 * @param capacity - Requests that may go out back to back (default 1).
+	 */
+	constructor(perMinute: number, capacity: number = 1) {
+		this.perMinute = perMinute;
+		this.capacity = capacity;
+		this.tokens = capacity;
+		this.updatedAt = Date.now();
+	}
+
+	/**
+	 * Wait until a request may be sent and take its token.
+	 * @returns How long the caller waited, in ms.
+	 */
+	async take(): Promise<number> {
+		const now = Date.now();
+		let wait = Math.max(0, this.resumeAt - now);
+
+		if (this.perMinute > 0) {
+			const perMs = this.perMinute / 60_000;
+			this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * perMs);
+			this.updatedAt = now;
+
+			// Reserve the token now (the count may go negative) so concurrent callers queue up behind each other.
+			this.tokens -= 1;
+			if (this.tokens < 0) wait = Math.max(wait, Math.ceil(-this.tokens / perMs));
+		}
+
+		if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+		return wait;
+	}
+
+	/**
+	 * Hold every request back for the given time, e.g. when the server sent Retry-After.
+	 */
+	pause(ms: number): void {
+		this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+	}
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+	// Failures in a row that open the circuit (default 5; 0 turns the breaker off).
+	threshold?: number;
+
+	// How long the circuit stays open before one trial request is let through, in ms (default 30000).
+	cooldownMs?: number;
+}
+
+/**
+ * Circuit breaker for one backend. After `threshold` failures in a row the circuit opens and
+ * requests are refused at once; after the cooldown a single trial request is let through
+ * (half-open), which closes the circuit on success and opens it again on failure.
+ */
+export class CircuitBreaker {
+	readonly threshold: number;
+	readonly cooldownMs: number;
+	private failures = 0;
+	private openedAt?: number;
+	private trialInFlight = false;
+
+	constructor(options: CircuitBreakerOptions = {}) {
+		this.threshold = options.threshold ?? 5;
+		this.cooldownMs = options.cooldownMs ?? 30_000;
+	}
+
+	get state(): CircuitState {
+		if (this.openedAt === undefined) return 'closed';
+		return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+	}
+
+	/**
+	 * Ask to send a request.
+	 * @returns 0 if it may be sent, otherwise the ms until the circuit lets a trial request through.
+	 */
+	acquire(): number {
+		const state = this.state;
+		if (state === 'closed') return 0;
+		if (state === 'half-open' && !this.trialInFlight) {
+			this.trialInFlight = true;
+			return 0;
+		}
+		return Math.max(1, this.openedAt! + this.cooldownMs - Date.now());
+	}
+
+	// The backend answered; close the circuit.
+	recordSuccess(): void {
+		this.failures = 0;
+		this.openedAt = undefined;
+		this.trialInFlight = false;
+	}
+
+	// The request was given up (cancelled) before the backend answered; free the trial slot without judging the backend.
+	release(): void {
+		this.trialInFlight = false;
+	}
+
+	// The backend failed (server error, timeout, unreachable); open the circuit once there are too many.
+	recordFailure(): void {
+		if (this.threshold <= 0) return;
+
+		this.failures++;
+		if (this.trialInFlight || this.failures >= this.threshold) {
+			this.openedAt = Date.now();
+			this.trialInFlight = false;
+		}
+	}
+}
@@ -0,0 +1,223 @@
+import { Task, TaskBreakdown, Step, AnalyzerStrategy, AnalyzeOptions } from "../types/analysis";
+import { areSimilarSteps } from "../core/similarity";
+import { resolveDependencies, validateStepGraph } from "../core/graph";
+
+/**
+ * A step every plan should contain, detected by matching step titles and descriptions.
+ */
+export interface EssentialStep {
+    name: string;
+    pattern: RegExp;
+}
+
+export interface CompositeStrategyOptions {
+    // "fallback": use the first strategy that succeeds. "ensemble": merge every successful plan.
+    mode?: "fallback" | "ensemble";
+
+    // Per-strategy time limit in ms (default 60000). A strategy that takes longer counts as failed
+    // and its signal is aborted, cancelling any LLM request still in flight.
+    timeoutMs?: number;
+
+    // Minimum title similarity for two steps to count as the same work (default 0.5).
+    similarityThreshold?: number;
+
+    // Steps the ensemble adds from secondary plans when the primary plan lacks them (default: tests).
+    essentials?: EssentialStep[];
+}
+
+const DEFAULT_ESSENTIALS: EssentialStep[] = [
+    { name: "tests", pattern: /\b(tests?|testing|specs?)\b/i },
+];
+
+/**
+ * A strategy built from an ordered chain of other strategies.
+ *
+ * Fallback mode tries each strategy in turn and returns the first plan produced without
+ * an error or timeout, e.g. LLM first and Hardcoded templates when the API is down.
+ *
+ * Ensemble mode runs every strategy and takes the first successful plan as the base.
+ * Steps from the other plans that duplicate a base step only contribute their files;
+ * essential steps the base plan is missing (such as tests) are appended.
+ *
+ * Every step records the strategy that produced it in `source`.
+ */
+export class CompositeStrategy implements AnalyzerStrategy {
+    readonly name: string;
+    private strategies: AnalyzerStrategy[];
+    private mode: "fallback" | "ensemble";
+    private timeoutMs: number;
+    private similarityThreshold: number;
+    private essentials: EssentialStep[];
+
+    constructor(strategies: AnalyzerStrategy[], options: CompositeStrategyOptions = {}) {
+        if (strategies.length === 0) {
+            throw new Error("CompositeStrategy needs at least one strategy");
+        }
+
+        this.strategies = strategies;
+        this.mode = options.mode ?? "fallback";
+        this.timeoutMs = options.timeoutMs ?? 60000;
+        this.similarityThreshold = options.similarityThreshold ?? 0.5;
+        this.essentials = options.essentials ?? DEFAULT_ESSENTIALS;
+
+        const names = strategies.map(s => this.nameOf(s)).join(this.mode === "fallback" ? " > " : " + ");
+        this.name = `${this.mode === "fallback" ? "Fallback" : "Ensemble"}(${names})`;
+    }
+
+    /**
+     * @throws AggregateError holding each strategy's error if none of them produced a plan.
+     */
+    async analyze(task: Task, options: AnalyzeOptions = {}): Promise<TaskBreakdown> {
+        return this.mode === "ensemble" ? this.analyzeEnsemble(task, options.signal) : this.analyzeFallback(task, options.signal);
+    }
+
+    private async analyzeFallback(task: Task, signal?: AbortSignal): Promise<TaskBreakdown> {
+        const failures: string[] = [];
+        const errors: unknown[] = [];
+
+        for (const [index, strategy] of this.strategies.entries()) {
+            const name = this.nameOf(strategy);
+            try {
+                const breakdown = await this.runWithTimeout(strategy, task, signal);
+                return {
+                    ...breakdown,
+                    steps: this.tagSteps(breakdown.steps, name),
+                    strategy: breakdown.strategy ?? name,
+                };
+            } catch (error: any) {
+                failures.push(`${name}: ${error.message || error}`);
+                errors.push(error);
+
+                const next = this.strategies[index + 1];
+                if (next) {
+                    console.warn(`${name} strategy failed (${error.message || error}); falling back to ${this.nameOf(next)}.`);
+                }
+            }
+        }
+
+        throw new AggregateError(errors, `All strategies failed. ${failures.join("; ")}`);
+    }
+
+    private async analyzeEnsemble(task: Task, signal?: AbortSignal): Promise<TaskBreakdown> {
+        const results = await Promise.allSettled(this.strategies.map(s => this.runWithTimeout(s, task, signal)));
+
+        const plans: Array<{ name: string; breakdown: TaskBreakdown }> = [];
+        const failures: string[] = [];
+        const errors: unknown[] = [];
+
+        results.forEach((result, index) => {
+            const name = this.nameOf(this.strategies[index]);
+            if (result.status === "fulfilled") {
+                plans.push({ name, breakdown: result.value });
+            } else {
+                const message = result.reason?.message || result.reason;
+                failures.push(`${name}: ${message}`);
+                errors.push(result.reason);
+                console.warn(`${name} strategy failed (${message}); continuing with the other strategies.`);
+            }
+        });
+
+        if (plans.length === 0) {
+            throw new AggregateError(errors, `All strategies failed. ${failures.join("; ")}`);
+        }
+
+        const [base, ...others] = plans;
+        let steps = this.tagSteps(base.breakdown.steps, base.name);
+
+        for (const other of others) {
+            steps = this.mergeInto(steps, this.tagSteps(other.breakdown.steps, other.name));
+        }
+
+        return {
+            taskDescription: base.breakdown.taskDescription,
+            steps,
+            strategy: `Ensemble(${plans.map(p => p.name).join(" + ")})`,
+            model: plans.find(p => p.breakdown.model)?.breakdown.model,
+            usage: plans.find(p => p.breakdown.usage)?.breakdown.usage,
+        };
+    }
+
+    /**
+     * Merge a secondary plan into the base steps.
+     * Similar steps contribute their files (and what they say about them) to the matching base step;
+     * missing essentials are appended after the base plan's final steps.
+     */
+    private mergeInto(base: Step[], extra: Step[]): Step[] {
+        // Make implicit "previous step" dependencies explicit before appending anything.
+        const deps = resolveDependencies(base);
+        const merged = base.map(step => ({
+            ...step,
+            files: [...step.files],
+            ...(step.fileStatus ? { fileStatus: { ...step.fileStatus } } : {}),
+            dependsOn: deps.get(step.id) || [],
+        }));
+
+        for (const step of extra) {
+            const match = merged.find(existing => areSimilarSteps(existing, step, this.similarityThreshold));
+            if (match) {
+                for (const file of step.files) {
+                    if (match.files.includes(file)) continue;
+                    match.files.push(file);
+                    const status = step.fileStatus?.[file];
+                    if (status) match.fileStatus = { ...match.fileStatus, [file]: status };
+                }
+                continue;
+            }
+
+            const essential = this.essentials.find(e => this.matchesEssential(step, e));
+            if (!essential || merged.some(existing => this.matchesEssential(existing, essential))) {
+                continue;
+            }
+
+            // Run the essential after every step nothing else depends on yet.
+            const dependedOn = new Set(merged.flatMap(s => s.dependsOn));
+            const terminal = merged.filter(s => !dependedOn.has(s.id)).map(s => s.id);
+            const id = merged.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
+            merged.push({ ...step, files: [...step.files], id, dependsOn: terminal });
+        }
+
+        return merged;
+    }
+
+    private matchesEssential(step: Step, essential: EssentialStep): boolean {
+        return essential.pattern.test(step.title) || essential.pattern.test(step.description);
+    }
+
+    private tagSteps(steps: Step[], source: string): Step[] {
+        return steps.map(step => ({ ...step, source: step.source ?? source }));
+    }
+
+    private nameOf(strategy: AnalyzerStrategy): string {
+        return strategy.name || strategy.constructor.name;
+    }
+
+    // Run one strategy; on timeout (or when the caller aborts) its signal is aborted so it stops its requests.
+    // A plan whose step graph is broken (unknown, duplicate or cyclic dependencies) counts as a failure too.
+    private runWithTimeout(strategy: AnalyzerStrategy, task: Task, signal?: AbortSignal): Promise<TaskBreakdown> {
+        let timer: NodeJS.Timeout | undefined;
+        const controller = new AbortController();
+        const cancel = () => controller.abort();
+        signal?.addEventListener("abort", cancel, { once: true });
+
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                controller.abort();
+                reject(new Error(`timed out after ${this.timeoutMs}ms`));
+            }, this.timeoutMs);
+        });
+
+        // Promise.resolve().then() also turns synchronous throws into rejections.
+        const run = Promise.resolve()
+            .then(() => strategy.analyze(task, { signal: controller.signal }))
+            .then(breakdown => {
+                validateStepGraph(breakdown.steps);
+                return breakdown;
+            });
+
+        return Promise.race([run, timeout]).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", cancel);
+        });
+    }
+}
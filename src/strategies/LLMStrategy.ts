@@ -1,212 +1,388 @@
 /**
- * LLMStrategy: AI-powered task breakdown using Groq API.
+ * LLMStrategy: AI-powered task breakdown on top of a pluggable LLM provider.
  *
- * This strategy implements the AnalyzerStrategy interface and uses Groq's OpenAI-compatible API.
- * to generate intelligent, context-aware step-by-step plans.
+ * This strategy implements the AnalyzerStrategy interface. Prompt building and response
+ * validation live here and are shared by every provider; the provider adapters
+ * (OpenAI-compatible, Ollama, Anthropic-style) only handle transport.
  *
  * Unlike HardcodedStrategy (template-based), this strategy leverages LLMs for dynamic planning.
  *
  * Configuration:
- *   - Reads GROQ_API_KEY, GROQ_MODEL, GROQ_BASE_URL from environment variables (preferred).
- *   - Falls back to src/config/analyzer.config.json if .env file not found or variables are not set.
+ *   - The provider is picked by LLM_PROVIDER (groq, openai, ollama, anthropic) or llm.provider in
+ *     the config files; see src/core/config for the full priority order.
+ *   - GROQ_API_KEY, GROQ_MODEL, GROQ_BASE_URL keep working for the default Groq provider.
+ *
+ * Workspace grounding:
+ *   - When a WorkspaceIndex is supplied, the prompt lists existing files and conventions,
+ *     and returned file paths are resolved against the real repository.
+ *
+ * Tolerant parsing:
+ *   - Replies are read leniently (Markdown fences, surrounding text, trailing commas, obvious type
+ *     slips such as "id": "2" or a missing "files"). A reply that still fails validation is sent back
+ *     with the errors, up to maxRepairs times; the attempts are recorded in the plan's `repairs`.
+ *
+ * Streaming:
+ *   - analyzeStream asks providers that support it for a streamed reply and reports each step
+ *     as soon as its JSON object is complete; the whole reply is still validated at the end.
+ *
+ * Errors:
+ *   - Provider failures arrive as typed errors (AuthenticationError, RateLimitError, ProviderTimeoutError,
+ *     InvalidResponseError, CircuitOpenError; see src/providers/errors) and are passed on unchanged,
+ *     as is BudgetExceededError. Anything else is wrapped in an Error naming the failed operation.
+ *
+ * Usage accounting:
+ *   - Every call is timed and priced; plans carry the result in `usage`. With a UsageLog the
+ *     calls are also logged, and calls are refused once its daily budget is spent.
  */
 
-import { Task, TaskBreakdown, Step, AnalyzerStrategy } from "../types/analysis";
-import axios from "axios"; // HTTP client for Groq API.
-import { readFileSync } from "fs";
-import { join } from "path"; // For resolving config file path.
-
-/**
- * Configuration for Groq API client.
- * Can be loaded from environment variables or analyzer.config.json.
- */
-interface GroqConfig {
-	apiKey: string;       
-	model: string;         // In our case, it's "openai/gpt-oss-20b".
-	baseUrl: string;       
-	maxRetries?: number;   // Optional retry count (default 3).
-	timeout?: number;      // Optional timeout in ms (default 30000).
+import { Task, TaskBreakdown, Step, AnalyzerStrategy, AnalyzeOptions, WorkspaceIndex, LLMCallUsage, RepairAttempt } from "../types/analysis";
+import { groundSteps, describeWorkspace } from "../core/workspace";
+import { locateFrames, suspectFiles, formatErrorReport } from "../core/stacktrace";
+import { PlanCache, CacheKeyParts } from "../core/cache";
+import { RefinementResult } from "../core/refine";
+import { StepJudgment } from "../core/verify";
+import { StepStreamParser } from "../core/stream";
+import { extractJSON } from "../core/json";
+import { ConfigError } from "../core/config";
+import { findGraphProblems } from "../core/graph";
+import { UsageLog, UsageOperation, PriceTable, DEFAULT_PRICES, BudgetExceededError, estimateCost } from "../core/usage";
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse, ProviderError, InvalidResponseError, createProvider, loadLLMConfig } from "../providers";
+
+// Version of the prompt in buildPrompt. Bump it whenever the prompt changes so cached plans are not reused.
+export const PROMPT_VERSION = '3';
+
+// Optional settings for LLMStrategy.
+export interface LLMStrategyOptions {
+	workspace?: WorkspaceIndex;   // Ground prompts and file paths in this repository.
+	provider?: LLMProvider;       // Use this provider instead of the configured one.
+	cache?: PlanCache;            // Reuse and store responses in this on-disk cache.
+	offline?: boolean;            // Replay from the cache only; never call the provider.
+	stream?: boolean;             // Stream replies in analyzeStream when the provider can (default true).
+	maxRepairs?: number;          // Calls asking the model to fix an invalid reply (default 2).
+	usageLog?: UsageLog;          // Log every call here and enforce its daily budget.
+	prices?: PriceTable;          // Prices for cost estimates (default DEFAULT_PRICES).
+	strategyName?: string;        // Strategy recorded in the usage log (default "LLM"), e.g. "Fallback".
 }
 
-/**
- * Message format for Groq chat API (OpenAI-compatible)
- */
-interface GroqMessage {
-	role: string;      // "system", "user", or "assistant".
-	content: string;   // Message content.
-}
 
+export class LLMStrategy implements AnalyzerStrategy {
+	readonly name = 'LLM';
+	private provider: LLMProvider;
+	private workspace?: WorkspaceIndex;
+	private cache?: PlanCache;
+	private offline: boolean;
+	private stream: boolean;
+	private maxRepairs: number;
+	private usageLog?: UsageLog;
+	private prices: PriceTable;
+	private strategyName: string;
+
+	// Constructor: resolves the configured provider unless one is injected.
+	constructor(options: LLMStrategyOptions = {}) {
+		this.workspace = options.workspace;
+		this.cache = options.cache;
+		this.offline = options.offline ?? false;
+		this.stream = options.stream ?? true;
+		this.maxRepairs = options.maxRepairs ?? 2;
+		this.usageLog = options.usageLog;
+		this.prices = options.prices ?? DEFAULT_PRICES;
+		this.strategyName = options.strategyName ?? this.name;
+
+		if (this.offline && !this.cache) {
+			throw new ConfigError('Offline mode needs a plan cache to replay from');
+		}
 
-// Request payload for Groq chat completions endpoint. 
-interface GroqChatRequest {
-	model: string;                              
-	messages: GroqMessage[];                    // Conversation messages.
-	response_format?: { type: string };         // Optional: request JSON output.
-}
+		// Offline replays never reach the provider, so a missing API key is fine.
+		this.provider = options.provider ?? createProvider(loadLLMConfig({ requireApiKey: !this.offline }));
+	}
 
-// Response from Groq chat completions endpoint.
-interface GroqChatResponse {
-	choices: Array<{
-		message: {
-			content: string;
-		};
-	}>;
-}
+	/**
+	 * Describe the provider and model in use, e.g. "Groq, openai/gpt-oss-20b".
+	 */
+	describe(): string {
+		return `${this.provider.name}, ${this.provider.model}`;
+	}
 
+	/**
+	 * Analyze a task and generate a step-by-step breakdown using the configured LLM provider.
+	 * This is the main entry point that implements the AnalyzerStrategy interface.
+	 *
+	 * @param task - The parsed task with description, type, and scope.
+	 * @param options - options.signal cancels the provider requests when aborted.
+	 * @returns Promise<TaskBreakdown> - AI-generated breakdown with actionable steps.
+	 * @throws ProviderError (e.g. RateLimitError, InvalidResponseError) if the API call fails or the response is invalid.
+	 */
+	async analyze(task: Task, options: AnalyzeOptions = {}): Promise<TaskBreakdown> {
+		return this.generate(task, undefined, options.signal);
+	}
 
-export class LLMStrategy implements AnalyzerStrategy {
-	private config: GroqConfig;
-	private client: any;   // HTTP client for API calls (axios instance).
-
-	// Constructor: loads config and initializes HTTP client with retry logic.
-	constructor() {
-		// Load configuration from environment variables or config file.
-		this.config = this.loadConfig();
-
-		// Initialize axios HTTP client with Groq API settings.
-		this.client = axios.create({
-			baseURL: this.config.baseUrl,
-			timeout: this.config.timeout || 30000,
-			headers: {
-				'Authorization': `Bearer ${this.config.apiKey}`,
-				'Content-Type': 'application/json',
-			},
-		});
+	/**
+	 * Analyze a task like analyze, calling onStep with each step as soon as it has been received.
+	 * Without streaming support (or with streaming turned off) the reply arrives in one piece and
+	 * no steps are reported early; a cached plan reports none either.
+	 *
+	 * @param task - The parsed task with description, type, and scope.
+	 * @param onStep - Called with each complete step, validated and grounded on its own.
+	 * @returns Promise<TaskBreakdown> - The breakdown validated as a whole.
+	 * @throws ProviderError (e.g. RateLimitError, InvalidResponseError) if the API call fails or the response is invalid.
+	 */
+	async analyzeStream(task: Task, onStep: (step: Step) => void): Promise<TaskBreakdown> {
+		return this.generate(task, onStep);
+	}
+
+	// Shared by analyze and analyzeStream; onStep is only called for streamed replies.
+	private async generate(task: Task, onStep?: (step: Step) => void, signal?: AbortSignal): Promise<TaskBreakdown> {
+		try {
+			// Step 1: Build the prompt (shared by every provider), with stack frames mapped to workspace files.
+			if (task.error && this.workspace) {
+				task = { ...task, error: locateFrames(task.error, this.workspace) };
+			}
+			const prompt = this.buildPrompt(task);
 
-		// Add retry interceptor for handling transient failures.
-		this.setupRetryInterceptor();
+			// Step 2: Reuse a cached response for the same task (with its issue and stack trace), prompt version and model.
+			const cacheKey: CacheKeyParts = {
+				task: [task.description, this.describeIssue(task), task.error ? formatErrorReport(task.error) : ''].filter(Boolean).join('\n'),
+				promptVersion: PROMPT_VERSION,
+				provider: this.provider.name,
+				model: this.provider.model,
+			};
+			const cached = this.cache?.get(cacheKey);
+			if (cached) {
+				console.warn(`Using cached plan from ${cached.createdAt}.`);
+				return this.parseResponse(cached.content, task);
+			}
+			if (this.offline) {
+				throw new Error('No cached plan for this task (offline replay mode)');
+			}
+
+			// Step 3: Call the provider to generate the breakdown, streaming it when asked to.
+			const request = {
+				messages: [{ role: 'user' as const, content: prompt }],
+				json: true,
+				signal,
+			};
+			const { response, usage } = await this.call('plan', request, task, onStep && this.stream ? this.stepReporter(onStep) : undefined);
+
+			// Step 4: Parse and validate the response, asking for repairs if needed; only valid plans are cached.
+			const repaired = await this.parseWithRepairs(request.messages, response.content, task, signal);
+			this.cache?.set(cacheKey, repaired.content);
+
+			return { ...repaired.breakdown, usage };
+		} catch (error: any) {
+			// Typed errors already say what went wrong and which provider failed.
+			if (error instanceof ProviderError || error instanceof BudgetExceededError) throw error;
+			throw new ProviderError(this.provider.name, `LLM strategy failed: ${error.message}`);
+		}
 	}
 
 	/**
-	 * Load Groq configuration from environment variables (priority) or config file (fallback).
-	 * Environment variables: GROQ_API_KEY, GROQ_MODEL, GROQ_BASE_URL.
-	 * Config file: src/config/analyzer.config.json.
+	 * Revise a plan from a follow-up instruction, e.g. "we use Postgres, not Mongo".
+	 * Implements PlanRefiner for interactive refinement sessions.
 	 *
-	 * @returns GroqConfig object with all required settings.
-	 * @throws Error if API key is missing or config file is invalid.
+	 * @param task - The original task.
+	 * @param current - The plan being refined.
+	 * @param instruction - The user's follow-up instruction.
+	 * @param history - Conversation so far; empty on the first refinement.
+	 * @returns The revised breakdown and the conversation including this turn.
+	 * @throws ProviderError if the API call fails or the response is invalid.
 	 */
-	private loadConfig(): GroqConfig {
-		// Step 1: Try to read from environment variables first (highest priority).
-		const envApiKey = process.env.GROQ_API_KEY;
-		const envModel = process.env.GROQ_MODEL;
-		const envBaseUrl = process.env.GROQ_BASE_URL;
-
-		// Step 2: Read config file as fallback.
-		let fileConfig: any = {};
-		try {
-			// Resolve path to config file relative to this file's location.
-			const configPath = join(__dirname, '../config/analyzer.config.json');
-			const configContent = readFileSync(configPath, 'utf-8');
-			fileConfig = JSON.parse(configContent).groq || {};
-		} catch (error) {
-			// Config file is optional if environment variables are set.
-			console.warn('Could not read analyzer.config.json, using environment variables only');
+	async refine(task: Task, current: TaskBreakdown, instruction: string, history: LLMMessage[]): Promise<RefinementResult> {
+		if (this.offline) {
+			throw new ConfigError('Refining a plan needs the LLM provider (offline replay mode is on)');
 		}
 
-		// Step 3: Merge config with environment variables taking precedence.
-		const config: GroqConfig = {
-			apiKey: envApiKey || fileConfig.apiKey || '',
-			model: envModel || fileConfig.model || 'mixtral-8x7b-32768',
-			baseUrl: envBaseUrl || fileConfig.baseUrl || 'https://api.groq.com/openai/v1',
-			maxRetries: fileConfig.maxRetries || 3,
-			timeout: fileConfig.timeout || 30000,
-		};
+		try {
+			// Step 1: Seed the conversation with the original request and the current plan.
+			const messages: LLMMessage[] = history.length > 0
+				? [...history]
+				: [
+					{ role: 'user', content: this.buildPrompt(task) },
+					{ role: 'assistant', content: JSON.stringify({ steps: current.steps.map(toPromptStep) }) },
+				];
+
+			// Step 2: Ask for the whole revised plan so the reply can be parsed like a fresh one.
+			messages.push({
+				role: 'user',
+				content: `Revise the plan according to this instruction: ${instruction}\n\nRespond with the complete revised plan in the same JSON structure, renumbering step ids from 1.`,
+			});
 
-		// Step 4: Validate that API key is present.
-		if (!config.apiKey) {
-			throw new Error(
-				'Groq API key is required. Set GROQ_API_KEY environment variable or add it to analyzer.config.json'
-			);
-		}
+			// Step 3: Call the provider with the full conversation.
+			const { response, usage } = await this.call('refine', { messages, json: true }, task);
+
+			// Step 4: Parse and validate the revised plan (repairing it if needed), then record the reply in the history.
+			const repaired = await this.parseWithRepairs(messages, response.content, task);
+			const breakdown = { ...repaired.breakdown, usage };
+			messages.push({ role: 'assistant', content: repaired.content });
 
-		return config;
+			return { breakdown, history: messages };
+		} catch (error: any) {
+			if (error instanceof ProviderError || error instanceof BudgetExceededError) throw error;
+			throw new ProviderError(this.provider.name, `LLM refinement failed: ${error.message}`);
+		}
 	}
 
 	/**
-	 * Configure axios to automatically retry failed requests with exponential backoff.
-	 * Retries on: 5xx errors (server errors) and network errors.
-	 * Does NOT retry on: 4xx errors (client errors like invalid API key).
+	 * Judge whether the changes made for a step do what its description asks.
+	 * Implements StepJudge for the verify command.
+	 *
+	 * @param step - The planned step.
+	 * @param diff - Unified diff of the step's files.
+	 * @returns The verdict with a short reason.
+	 * @throws ProviderError if the API call fails or the response is invalid.
 	 */
-	private setupRetryInterceptor(): void {
-			this.client.interceptors.response.use(
-				// Success handler - pass through.
-				(response: any) => response,
+	async judgeStep(step: Step, diff: string): Promise<StepJudgment> {
+		if (this.offline) {
+			throw new ConfigError('Judging steps needs the LLM provider (offline replay mode is on)');
+		}
 
-				// Error handler - implement retry logic.
-				async (error: any) => {
-					const config = error.config;
+		const prompt = `You are reviewing whether a code change implements one step of a development plan.
 
-					// Initialize retry count if not present.
-					config._retryCount = config._retryCount || 0;
+Step: ${step.title}
+Description: ${step.description}
+Planned files: ${step.files.length > 0 ? step.files.join(', ') : 'none'}
 
-					// Check if we should retry this error.
-					const shouldRetry =
-						// Retry on 5xx server errors.
-						(error.response?.status >= 500) ||
-						// Retry on network errors (no response).
-						(!error.response);
+Diff:
+${diff || '(no changes to the planned files)'}
 
-					// Check if we haven't exceeded max retries.
-					const canRetry = config._retryCount < (this.config.maxRetries || 3);
+Respond with JSON: {"verdict": "satisfied" | "partial" | "not-satisfied", "reason": "one or two sentences"}`;
 
-					if (shouldRetry && canRetry) {
-						config._retryCount += 1;
+		try {
+			const { response } = await this.call('judge', {
+				messages: [{ role: 'user', content: prompt }],
+				json: true,
+			});
 
-						// Calculate exponential backoff delay: 1s, 2s, 4s, etc.
-						const delay = Math.pow(2, config._retryCount) * 1000;
+			const parsed = extractJSON(response.content);
+			if (!['satisfied', 'partial', 'not-satisfied'].includes(parsed.verdict)) {
+				throw new Error(`Unexpected verdict "${parsed.verdict}"`);
+			}
 
-						console.log(`Retrying request (attempt ${config._retryCount}/${this.config.maxRetries}) after ${delay}ms...`);
+			return { verdict: parsed.verdict, reason: typeof parsed.reason === 'string' ? parsed.reason.trim() : '' };
+		} catch (error: any) {
+			if (error instanceof ProviderError || error instanceof BudgetExceededError) throw error;
+			if (error instanceof SyntaxError) {
+				throw new InvalidResponseError(this.provider.name, `Invalid JSON response from ${this.provider.name}: ${error.message}`);
+			}
+			throw new ProviderError(this.provider.name, `LLM judgment failed: ${error.message}`);
+		}
+	}
 
-						// Wait before retrying.
-						await new Promise(resolve => setTimeout(resolve, delay));
+	/**
+	 * Send a request (streamed when onText is given and the provider can stream), after checking
+	 * the daily budget. The call is timed and priced, and logged when a usage log is configured.
+	 *
+	 * @param operation - What the call is for, as recorded in the usage log.
+	 * @param request - The request to send.
+	 * @param task - The task being planned, if any.
+	 * @param onText - Receives each piece of a streamed reply.
+	 * @returns The response and what the call used.
+	 * @throws BudgetExceededError if the daily budget is spent; ProviderError if the call fails.
+	 */
+	private async call(operation: UsageOperation, request: LLMRequest, task?: Task, onText?: (text: string) => void): Promise<{ response: LLMResponse; usage: LLMCallUsage }> {
+		this.usageLog?.checkBudget();
+
+		const started = Date.now();
+		const response = onText && this.provider.stream
+			? await this.provider.stream(request, onText)
+			: await this.provider.complete(request);
+
+		const promptTokens = response.usage?.promptTokens ?? 0;
+		const completionTokens = response.usage?.completionTokens ?? 0;
+		const cost = estimateCost(this.prices, this.provider.name, response.model, promptTokens, completionTokens);
+		const usage: LLMCallUsage = {
+			provider: this.provider.name,
+			model: response.model,
+			promptTokens,
+			completionTokens,
+			latencyMs: Date.now() - started,
+			retries: response.retries ?? 0,
+			...(cost !== undefined ? { cost } : {}),
+		};
 
-						// Retry the request.
-						return this.client(config);
-					}
+		this.usageLog?.record({
+			timestamp: new Date().toISOString(),
+			strategy: this.strategyName,
+			operation,
+			...(task ? { task: task.description } : {}),
+			...usage,
+		});
 
-					// No more retries or non-retryable error - propagate the error.
-					return Promise.reject(error);
-				}
-			);
+		return { response, usage };
 	}
 
 	/**
-	 * Analyze a task and generate a step-by-step breakdown using Groq AI.
-	 * This is the main entry point that implements the AnalyzerStrategy interface.
+	 * Parse a reply; while it fails validation (missing step fields or a broken dependency graph),
+	 * send the errors back and parse the corrected reply instead, at most maxRepairs times.
 	 *
-	 * @param task - The parsed task with description, type, and scope.
-	 * @returns Promise<TaskBreakdown> - AI-generated breakdown with actionable steps.
-	 * @throws Error if API call fails or response is invalid.
+	 * @param messages - The conversation that produced the reply.
+	 * @param content - The reply.
+	 * @param task - The task being planned.
+	 * @param signal - Cancels the repair requests when aborted.
+	 * @returns The breakdown (with `repairs` when any were needed) and the reply it was parsed from.
+	 * @throws InvalidResponseError with the remaining validation errors once the repairs are used up.
 	 */
-	async analyze(task: Task): Promise<TaskBreakdown> {
-		try {
-			// Step 1: Build the prompt for Groq API.
-			const prompt = this.buildPrompt(task);
-
-			// Step 2: Call Groq API to generate the breakdown.
-			const responseContent = await this.callGroqAPI(prompt);
+	private async parseWithRepairs(messages: LLMMessage[], content: string, task: Task, signal?: AbortSignal): Promise<{ breakdown: TaskBreakdown; content: string }> {
+		const conversation = [...messages];
+		const repairs: RepairAttempt[] = [];
+
+		while (true) {
+			try {
+				const breakdown = this.parseResponse(content, task);
+				if (repairs.length === 0) return { breakdown, content };
+
+				repairs[repairs.length - 1].succeeded = true;
+				return { breakdown: { ...breakdown, repairs }, content };
+			} catch (error: any) {
+				if (!(error instanceof ResponseValidationError)) throw error;
+				if (repairs.length >= this.maxRepairs) {
+					const tried = repairs.length > 0 ? ` (after ${repairs.length} repair ${repairs.length === 1 ? 'attempt' : 'attempts'})` : '';
+					throw new InvalidResponseError(this.provider.name, `${error.message}${tried}`);
+				}
 
-			// Step 3: Parse and validate the response.
-			const breakdown = this.parseGroqResponse(responseContent, task);
+				// Show the model its reply and exactly what was wrong with it.
+				console.warn(`${this.provider.name} returned an invalid plan (${error.errors.join('; ')}); asking for a corrected one...`);
+				conversation.push(
+					{ role: 'assistant', content },
+					{
+						role: 'user',
+						content: `Your response could not be used:\n${error.errors.map(e => `- ${e}`).join('\n')}\n\nRespond with the complete corrected plan as a single JSON object in the same structure, and nothing else.`,
+					},
+				);
 
-			return breakdown;
-		} catch (error: any) {
-			// Provide helpful error messages for common issues.
-			if (error.message.includes('API key')) {
-				throw new Error('Groq API authentication failed. Check your GROQ_API_KEY.');
-			} else if (error.message.includes('rate limit')) {
-				throw new Error('Groq API rate limit exceeded. Please try again later.');
-			} else {
-				throw new Error(`LLM strategy failed: ${error.message}`);
+				const { response, usage } = await this.call('repair', { messages: conversation, json: true, signal }, task);
+				repairs.push({ attempt: repairs.length + 1, errors: error.errors, succeeded: false, usage });
+				content = response.content;
 			}
 		}
 	}
 
 	/**
-	 * Build a detailed prompt for Groq API that requests a structured task breakdown.
+	 * Turn streamed text into onStep calls: every step completed by a piece of text is
+	 * validated and grounded on its own. Invalid steps are not reported; parseResponse
+	 * rejects them once the reply is complete.
+	 */
+	private stepReporter(onStep: (step: Step) => void): (text: string) => void {
+		const parser = new StepStreamParser();
+		let index = 0;
+
+		return text => {
+			for (const raw of parser.feed(text)) {
+				let step: Step;
+				try {
+					step = validateStep(raw, index++);
+				} catch {
+					continue;
+				}
+				onStep(this.workspace ? groundSteps([step], this.workspace)[0] : step);
+			}
+		};
+	}
+
+	/**
+	 * Build a detailed prompt that requests a structured task breakdown.
 	 * The prompt includes:
 	 * - System role definition (what the AI should act as).
-	 * - Task details (description, type, scope).
+	 * - Task details (description, type, scope), the imported issue and the attached error with its suspect files.
 	 * - Output format specification (JSON structure).
 	 * - Quality guidelines (realistic file paths, actionable steps).
 	 *
@@ -218,14 +394,36 @@ export class LLMStrategy implements AnalyzerStrategy {
 		const systemPrompt = `You are a technical planning assistant that breaks down software development tasks into actionable steps. 
 You analyze task requirements and generate detailed, step-by-step implementation plans with realistic file paths.`;
 
+		// Describe the real repository so the model reuses existing files.
+		const workspaceContext = this.workspace
+			? `\nWorkspace Context:\n${describeWorkspace(this.workspace)}\n`
+			: '';
+
+		// Point the model at the files the stack trace went through.
+		const suspects = task.error ? suspectFiles(task.error) : [];
+		const errorContext = task.error
+			? `\nError Report:\n${formatErrorReport(task.error)}\n${suspects.length > 0 ? `Suspect Files: ${suspects.join(', ')}\n` : ''}`
+			: '';
+		const issueContext = task.source ? `\n${this.describeIssue(task)}\n` : '';
+		const criteriaGuideline = task.acceptanceCriteria?.length
+			? '\n- Make sure the steps together meet every acceptance criterion, and end with a step that verifies them'
+			: '';
+		const errorGuideline = task.error
+			? '\n- Start with a step that reproduces the error at its failing call site, quoting the error message, and fix the suspect files rather than inventing new ones'
+			: '';
+
+		const fileGuideline = this.workspace
+			? '- Prefer existing files from the Workspace Context; only propose new files where needed, following its directory conventions'
+			: '- Suggest realistic file paths based on common project structures (e.g., src/models/, src/controllers/, tests/)';
+
 		// Build the user request with task details.
 		const userPrompt = `
 Please break down the following software development task into actionable steps:
 
 Task Description: ${task.description}
-Task Type: ${task.type}
+Task Type: ${task.type}${this.describeSecondaryTypes(task)}
 Task Scope: ${task.scope}
-
+${issueContext}${errorContext}${workspaceContext}
 Generate a JSON response with the following structure:
 {
 	"steps": [
@@ -233,7 +431,8 @@ Generate a JSON response with the following structure:
 			"id": 1,
 			"title": "Short, actionable step title",
 			"description": "Detailed explanation of what needs to be done in this step",
-			"files": ["path/to/file1.ts", "path/to/file2.ts"]
+			"files": ["path/to/file1.ts", "path/to/file2.ts"],
+			"dependsOn": []
 		}
 	]
 }
@@ -241,137 +440,180 @@ Generate a JSON response with the following structure:
 Guidelines:
 - Generate 3-7 steps depending on task complexity
 - Each step should be specific and actionable
-- Suggest realistic file paths based on common project structures (e.g., src/models/, src/controllers/, tests/)
+${fileGuideline}${criteriaGuideline}${errorGuideline}
 - Include empty array [] for files if the step is planning/analysis only
 - Ensure steps are ordered logically (e.g., create models before controllers)
+- List in "dependsOn" the ids of steps that must be finished first ([] if none); steps that do not depend on each other can run in parallel
+- Only reference ids of other steps in this plan and never create circular dependencies
 `;
 
 		return systemPrompt + '\n\n' + userPrompt;
 	}
 
 	/**
-	 * Make an HTTP request to Groq's chat completions endpoint.
-	 * Uses OpenAI-compatible API format.
-	 *
-	 * @param prompt - The formatted prompt to send.
-	 * @returns Promise<string> - Raw response content from Groq.
-	 * @throws Error if API call fails.
+	 * Describe an issue imported from a tracker: its id, labels, linked files, acceptance criteria
+	 * and full body. Empty for tasks that were not imported.
 	 */
-	private async callGroqAPI(prompt: string): Promise<string> {
-		try {
-			// Build the request payload.
-			const requestBody: GroqChatRequest = {
-				model: this.config.model,
-				messages: [
-					{
-						role: 'user',
-						content: prompt,
-					},
-				],
-				// Request JSON mode for structured output.
-				response_format: { type: 'json_object' },
-			};
-
-			// Make POST request to chat completions endpoint.
-			const response = await this.client.post(
-				'/chat/completions',
-				requestBody
-			);
-
-			// Extract the generated content from the response.
-			const content = response.data.choices[0]?.message?.content;
+	private describeIssue(task: Task): string {
+		if (!task.source) return '';
+
+		const lines = [`Issue: ${task.source.tracker} ${task.source.id}${task.source.url ? ` (${task.source.url})` : ''}`];
+		if (task.labels?.length) lines.push(`Labels: ${task.labels.join(', ')}`);
+		if (task.files?.length) lines.push(`Linked Files: ${task.files.join(', ')}`);
+		if (task.acceptanceCriteria?.length) {
+			lines.push('Acceptance Criteria:', ...task.acceptanceCriteria.map(criterion => `- ${criterion}`));
+		}
+		if (task.body?.trim()) lines.push('Issue Body:', task.body.trim());
+		return lines.join('\n');
+	}
 
-			if (!content) {
-				throw new Error('Empty response from Groq API');
-			}
+	/**
+	 * Describe other plausible task types so the plan can cover both aspects,
+	 * e.g. " (also: FEATURE 40%)". Empty when the task has a single clear type.
+	 */
+	private describeSecondaryTypes(task: Task): string {
+		const others = (task.classifications || [])
+			.filter(c => c.type !== task.type)
+			.map(c => `${c.type} ${Math.round(c.confidence * 100)}%`);
 
-			return content;
-		} catch (error: any) {
-			// Handle different types of API errors.
-			if (error.response) {
-				// Server responded with error status.
-				const status = error.response.status;
-				const message = error.response.data?.error?.message || 'Unknown error';
-				throw new Error(`Groq API error (${status}): ${message}`);
-			} else if (error.request) {
-				// Request was made but no response received (network error).
-				throw new Error('Network error: Could not reach Groq API');
-			} else {
-				// Something else went wrong.
-				throw new Error(`Something went wrong: ${error.message}`);
-			}
-		}
+		return others.length > 0 ? ` (also: ${others.join(', ')})` : '';
 	}
 
 	/**
-	 * Parse and validate the JSON response from Groq API.
-	 * Ensures the response matches the expected TaskBreakdown structure.
+	 * Parse and validate the JSON response from the provider.
+	 * Ensures the response matches the expected TaskBreakdown structure and its steps form a sound dependency graph.
 	 *
-	 * @param responseContent - Raw JSON string from Groq.
+	 * @param responseContent - Raw reply from the provider (JSON, possibly wrapped in other text).
 	 * @param task - Original task (used for taskDescription field).
 	 * @returns TaskBreakdown - Validated breakdown object.
-	 * @throws Error if response is invalid or missing required fields.
+	 * @throws ResponseValidationError listing every problem if the response is invalid.
 	 */
-	private parseGroqResponse(responseContent: string, task: Task): TaskBreakdown {
+	private parseResponse(responseContent: string, task: Task): TaskBreakdown {
+		// Step 1: Find and parse the JSON object in the reply.
+		let parsed: any;
 		try {
-			// Step 1: Parse JSON string.
-			const parsed = JSON.parse(responseContent);
+			parsed = extractJSON(responseContent);
+		} catch (error: any) {
+			throw new ResponseValidationError(this.provider.name, `Invalid JSON response from ${this.provider.name}`, [`Response is not valid JSON: ${error.message}`]);
+		}
 
-			// Step 2: Validate that 'steps' array exists.
-			if (!parsed.steps || !Array.isArray(parsed.steps)) {
-				throw new Error('Response missing "steps" array');
-			}
+		// Step 2: Validate that 'steps' array exists.
+		if (!parsed || !Array.isArray(parsed.steps)) {
+			throw new ResponseValidationError(this.provider.name, `Invalid plan from ${this.provider.name}`, ['Response missing "steps" array']);
+		}
+
+		if (parsed.steps.length === 0) {
+			throw new ResponseValidationError(this.provider.name, `Invalid plan from ${this.provider.name}`, ['Response contains empty steps array']);
+		}
 
-			if (parsed.steps.length === 0) {
-				throw new Error('Response contains empty steps array');
+		// Step 3: Validate each step has required fields, collecting every problem for a repair request.
+		const validatedSteps: Step[] = [];
+		const errors: string[] = [];
+		parsed.steps.forEach((step: any, index: number) => {
+			try {
+				validatedSteps.push(validateStep(step, index));
+			} catch (error: any) {
+				errors.push(error.message);
 			}
+		});
+		if (errors.length > 0) {
+			throw new ResponseValidationError(this.provider.name, `Invalid plan from ${this.provider.name}`, errors);
+		}
 
-			// Step 3: Validate each step has required fields.
-			const validatedSteps: Step[] = parsed.steps.map((step: any, index: number) => {
-				// 'id' field.
-				if (typeof step.id !== 'number') {
-					throw new Error(`Step ${index + 1} missing valid 'id' field`);
-				}
+		// Step 4: Check the dependency graph: unique ids, no unknown or self references, no cycles.
+		const graphProblems = findGraphProblems(validatedSteps);
+		if (graphProblems.length > 0) {
+			throw new ResponseValidationError(this.provider.name, `Invalid step dependency graph from ${this.provider.name}`, graphProblems);
+		}
 
-				// 'title' field.
-				if (typeof step.title !== 'string' || !step.title.trim()) {
-					throw new Error(`Step ${index + 1} missing valid 'title' field`);
-				}
+		// Step 5: Build and return TaskBreakdown object, grounding paths if a workspace is known.
+		return {
+			taskDescription: task.description,
+			steps: this.workspace ? groundSteps(validatedSteps, this.workspace) : validatedSteps,
+			model: this.provider.model,
+		};
+	}
+}
 
-				// 'description' field.
-				if (typeof step.description !== 'string' || !step.description.trim()) {
-					throw new Error(`Step ${index + 1} missing valid 'description' field`);
-				}
+// A reply that cannot be used as a plan; `errors` are sent back to the model in repair requests.
+class ResponseValidationError extends InvalidResponseError {
+	readonly errors: string[];
 
-				// 'files' field (must be array, can be empty).
-				if (!Array.isArray(step.files)) {
-					throw new Error(`Step ${index + 1} 'files' must be an array`);
-				}
+	constructor(provider: string, summary: string, errors: string[]) {
+		super(provider, `${summary}: ${errors.join('; ')}`);
+		this.name = 'ResponseValidationError';
+		this.errors = errors;
+	}
+}
 
-				// Ensure all file paths are strings
-				const validFiles = step.files.filter((f: any) => typeof f === 'string');
+/**
+ * Validate one step of a reply and keep only its known fields.
+ * Obvious type slips are corrected first: numeric strings as ids, a missing or single "files"
+ * entry, a single dependency instead of an array.
+ *
+ * @param raw - The step as parsed from the reply.
+ * @param index - Position of the step, used in error messages.
+ * @returns The validated step (parseResponse checks the dependency graph of the whole plan).
+ * @throws Error if a required field is missing or has the wrong type.
+ */
+function validateStep(raw: any, index: number): Step {
+	const step = coerceStep(raw);
 
-				// Return validated step.
-				return {
-					id: step.id,
-					title: step.title.trim(),
-					description: step.description.trim(),
-					files: validFiles,
-				};
-			});
+	// 'id' field.
+	if (typeof step?.id !== 'number') {
+		throw new Error(`Step ${index + 1} missing valid 'id' field`);
+	}
 
-			// Step 4: Build and return TaskBreakdown object.
-			return {
-				taskDescription: task.description,
-				steps: validatedSteps,
-			};
-		} catch (error: any) {
-			// Handle JSON parse errors.
-			if (error instanceof SyntaxError) {
-				throw new Error(`Invalid JSON response from Groq: ${error.message}`);
-			}
-			// Re-throw validation errors.
-			throw error;
-		}
+	// 'title' field.
+	if (typeof step.title !== 'string' || !step.title.trim()) {
+		throw new Error(`Step ${index + 1} missing valid 'title' field`);
+	}
+
+	// 'description' field.
+	if (typeof step.description !== 'string' || !step.description.trim()) {
+		throw new Error(`Step ${index + 1} missing valid 'description' field`);
+	}
+
+	// 'files' field (must be array, can be empty).
+	if (!Array.isArray(step.files)) {
+		throw new Error(`Step ${index + 1} 'files' must be an array`);
+	}
+
+	// Ensure all file paths are strings
+	const validFiles = step.files.filter((f: any) => typeof f === 'string');
+
+	// 'dependsOn' field (optional, must be an array of step ids).
+	if (step.dependsOn !== undefined && !Array.isArray(step.dependsOn)) {
+		throw new Error(`Step ${index + 1} 'dependsOn' must be an array`);
 	}
+
+	return {
+		id: step.id,
+		title: step.title.trim(),
+		description: step.description.trim(),
+		files: validFiles,
+		...(Array.isArray(step.dependsOn)
+			? { dependsOn: step.dependsOn.filter((d: any) => typeof d === 'number') }
+			: {}),
+	};
+}
+
+// Fix the type slips models make that have only one sensible reading.
+function coerceStep(step: any): any {
+	if (step === null || typeof step !== 'object' || Array.isArray(step)) return step;
+
+	const toId = (value: any) => typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+	const toList = (value: any) => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+	return {
+		...step,
+		id: toId(step.id),
+		files: toList(step.files),
+		...(step.dependsOn !== undefined ? { dependsOn: toList(step.dependsOn).map(toId) } : {}),
+	};
+}
+
+// The parts of a step the model sees when it is asked to revise a plan.
+function toPromptStep(step: Step) {
+	return { id: step.id, title: step.title, description: step.description, files: step.files, dependsOn: step.dependsOn ?? [] };
 }
@@ -13,11 +13,76 @@ export interface Task {
     // The raw user input describing what they want to accomplish.
     description: string;
 
-    // The categorized type of task.
+    // The categorized type of task (the top-ranked classification, kept for backward compatibility).
     type: TaskType;
 
+    // Ranked classification candidates, best first. Absent on hand-built Task objects.
+    classifications?: TaskClassification[];
+
     // The extracted scope, i.e. what the task is all about?
     scope: string;
+
+    // Stack trace or error log attached to the task, parsed (see core/stacktrace).
+    error?: ErrorReport;
+
+    // Fields of an issue imported from a tracker export (see core/issues); the title is also the description.
+    title?: string;
+    body?: string;
+    labels?: string[];
+
+    // Files the issue mentions or lists, as written there.
+    files?: string[];
+    acceptanceCriteria?: string[];
+    source?: TaskSource;
+}
+
+export type IssueTracker = "github" | "jira" | "markdown";
+
+// Where an imported task came from.
+export interface TaskSource {
+    tracker: IssueTracker;
+
+    // Issue number or key, e.g. "42" or "SHOP-17" (the file name for Markdown issues without an id).
+    id: string;
+    url?: string;
+}
+
+export type TraceLanguage = "node" | "python" | "java";
+
+// One frame of a stack trace.
+export interface StackFrame {
+    // File as printed in the trace: a path for Node and Python, a file name for Java.
+    file: string;
+    line?: number;
+    column?: number;
+
+    // Function or method, e.g. "CartService.checkout" (Java frames keep the package).
+    function?: string;
+
+    // Whether the frame is in a runtime, the standard library or an installed package.
+    library: boolean;
+
+    // Workspace file the frame was mapped to; only present after locating against a WorkspaceIndex.
+    path?: string;
+}
+
+// An error parsed from a stack trace or log excerpt.
+export interface ErrorReport {
+    language: TraceLanguage;
+
+    // Error class, e.g. "TypeError" or "java.lang.IllegalStateException".
+    errorType: string;
+    message: string;
+
+    // Innermost frame (where the error was raised) first.
+    frames: StackFrame[];
+}
+
+// One candidate TaskType with its confidence (0..1) and the keywords that matched.
+export interface TaskClassification {
+    type: TaskType;
+    confidence: number;
+    evidence: string[];
 }
 
 export interface Step {
@@ -32,13 +97,176 @@ export interface Step {
 
     // Array of file paths that will be created or modified in this step.
     files: string[];
+
+    // Whether each entry in `files` already exists in the workspace or would be new.
+    // Only present when the plan was grounded against a WorkspaceIndex.
+    fileStatus?: Record<string, FileStatus>;
+
+    // Ids of steps that must be finished before this one can start.
+    // Undefined means "depends on the previous step"; an empty array means no prerequisites.
+    dependsOn?: number[];
+
+    // Name of the strategy that produced this step (set by composite strategies).
+    source?: string;
+
+    // Execution tracking for stored plans (absent until someone starts working on the plan).
+    status?: StepStatus;
+    notes?: StepNote[];
+    startedAt?: string;       // ISO timestamp of the first move to "in-progress".
+    completedAt?: string;     // ISO timestamp of the move to "done" or "skipped".
+    updatedAt?: string;       // ISO timestamp of the last status change or note.
+}
+
+export type FileStatus = "existing" | "new";
+
+// Steps without a status are pending. Skipped steps count as finished for their dependents.
+export type StepStatus = "pending" | "in-progress" | "done" | "skipped" | "blocked";
+
+export interface StepNote {
+    at: string;      // ISO timestamp.
+    text: string;
 }
 
 // The original task description from the user.
 // Array of Step objects representing the breakdown.
+// Waves are groups of step ids that can run in parallel, in execution order (filled in by the Analyzer).
+// Strategy names the strategy (or strategies) that produced the plan.
+// Model is the LLM model that produced it (absent for template plans).
+// Usage describes the LLM call behind it (absent for template and cached plans).
+// Lint lists the quality issues the plan linter found (filled in by the Analyzer when linting is on).
+// Repairs lists the calls that asked the LLM to fix an invalid reply (absent when the first reply was valid).
 export interface TaskBreakdown {
     taskDescription: string;
     steps: Step[];
+    waves?: number[][];
+    strategy?: string;
+    model?: string;
+    usage?: LLMCallUsage;
+    lint?: LintIssue[];
+    repairs?: RepairAttempt[];
+}
+
+// One request to the LLM to correct a reply that failed validation.
+export interface RepairAttempt {
+    attempt: number;          // 1 for the first repair.
+    errors: string[];         // The validation errors sent back to the model.
+    succeeded: boolean;       // Whether the corrected reply passed validation.
+    usage?: LLMCallUsage;
+}
+
+export type LintSeverity = "error" | "warning" | "info";
+
+// One finding of the plan linter, e.g. { rule: "step-count", severity: "warning", message: "..." }.
+export interface LintIssue {
+    rule: string;
+    severity: LintSeverity;
+    message: string;
+    stepId?: number;      // The step the issue is about, if any.
+    fixable: boolean;     // Whether the linter's fix mode can repair it.
+}
+
+// Tokens, time and estimated cost of one LLM call.
+export interface LLMCallUsage {
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;    // Including retries.
+    retries: number;
+    cost?: number;        // Estimated USD; absent when the model has no price.
+}
+
+// A single file recorded by the workspace indexer (path is relative to the root, "/"-separated).
+export interface WorkspaceFile {
+    path: string;
+
+    // Top-level symbols the file exports (functions, classes, constants, types).
+    exports: string[];
+}
+
+// Directory layout conventions inferred from the files that already exist.
+export interface WorkspaceConventions {
+    // Where source code lives, e.g. "src" (empty string if files sit at the root).
+    sourceRoot: string;
+
+    // Dominant source file extension, e.g. ".ts" or ".js".
+    extension: string;
+
+    // Directory holding tests, e.g. "tests" (undefined if none was found).
+    testDir?: string;
+
+    // Suffix used by test files, e.g. ".test" or ".spec".
+    testSuffix: string;
+
+    // Well-known role directories mapped to their real location, e.g. { models: "lib/models" }.
+    roles: Record<string, string>;
+}
+
+// Snapshot of a target directory used to ground step file paths in the real repository.
+export interface WorkspaceIndex {
+    root: string;
+    files: WorkspaceFile[];
+    directories: string[];
+    conventions: WorkspaceConventions;
+}
+
+// Condition deciding whether a template step is included. Every given field must hold.
+export interface TemplateCondition {
+    // At least one keyword appears in the task description (case-insensitive).
+    keywords?: string[];
+
+    // The primary type or one of the classification candidates is in this list.
+    types?: TaskType[];
+
+    // Whether the task has an explicit scope.
+    hasScope?: boolean;
+
+    // Whether a stack trace or error log is attached to the task.
+    hasError?: boolean;
+}
+
+// A step inside a plan template. Text fields may use {{scope}}, {{scopeSlug}}, {{description}}, {{type}},
+// {{errorType}}, {{errorMessage}} and {{callSite}}; a files entry "{{suspectFiles}}" lists the files from the stack trace.
+export interface StepTemplate {
+    id: number;
+    title: string;
+    description: string;
+    files: string[];
+    dependsOn?: number[];
+
+    // Include the step only when this condition holds / skip it when that one does.
+    when?: TemplateCondition;
+    unless?: TemplateCondition;
+}
+
+// A plan template loaded from a built-in pack or a project's .traycer/templates directory.
+export interface PlanTemplate {
+    name: string;
+    description?: string;
+
+    // Which tasks the template applies to. Without a match it is never picked automatically.
+    match?: {
+        types?: TaskType[];
+        keywords?: string[];
+    };
+
+    // Higher priority wins when several templates match equally well.
+    priority?: number;
+
+    // Scope used when the task has none (defaults to a word taken from the description).
+    defaultScope?: string;
+
+    steps: StepTemplate[];
+
+    // File the template was loaded from.
+    source?: string;
+}
+
+// Options for one analyze call.
+export interface AnalyzeOptions {
+    // Aborted when the caller no longer needs the result (e.g. it timed out); strategies that
+    // call out to a backend cancel the request, others may ignore it.
+    signal?: AbortSignal;
 }
 
 /**
@@ -48,9 +276,21 @@ export interface TaskBreakdown {
  * This allows both template-based and LLM-based strategies to conform to the same interface.
  */
 export interface AnalyzerStrategy {
+    /**
+     * Short display name, e.g. "Hardcoded" or "LLM".
+     */
+    readonly name?: string;
+
     /**
      * Analyze a Task and produce a TaskBreakdown describing actionable steps.
      * May return TaskBreakdown (sync) or Promise<TaskBreakdown> (async).
      */
-    analyze(task: Task): TaskBreakdown | Promise<TaskBreakdown>;
+    analyze(task: Task, options?: AnalyzeOptions): TaskBreakdown | Promise<TaskBreakdown>;
+
+    /**
+     * Optional streaming variant of analyze: calls onStep with each step as soon as it is known
+     * (a preview; the returned breakdown is the validated result). Strategies without it are
+     * streamed by the Analyzer all at once.
+     */
+    analyzeStream?(task: Task, onStep: (step: Step) => void): Promise<TaskBreakdown>;
 }
\ No newline at end of file
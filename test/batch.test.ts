@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseBatchInput, detectBatchFormat, runBatch, formatBatchSummary, BatchResult } from "../src/core/batch";
+import { Task, TaskBreakdown, TaskType } from "../src/types/analysis";
+
+function plan(task: Task): TaskBreakdown {
+    return { taskDescription: task.description, steps: [{ id: 1, title: "Do it", description: task.description, files: [] }] };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("parseBatchInput", () => {
+    it("reads JSONL objects and strings, taking the first description and id fields", () => {
+        const items = parseBatchInput([
+            "{\"request_id\": \"r-1\", \"title\": \"Fix the login crash\", \"body\": \"ignored\"}",
+            "",
+            "\"Add a CRUD API for posts\"",
+        ].join("\n"), "jsonl");
+
+        assert.deepEqual(items, [
+            { index: 1, id: "r-1", description: "Fix the login crash" },
+            { index: 2, id: "2", description: "Add a CRUD API for posts" },
+        ]);
+    });
+
+    it("names the line that is not JSON or has no description", () => {
+        assert.throws(() => parseBatchInput("{\"task\": \"A\"}\n{oops", "jsonl"), /Invalid JSONL at line 2/);
+        assert.throws(() => parseBatchInput("{\"task\": \"A\"}\n{\"id\": 2}", "jsonl"), /No task description at line 2/);
+    });
+
+    it("reads plain text one task per line, skipping blanks and comments", () => {
+        assert.deepEqual(parseBatchInput("# backlog\nFix the crash\n\nAdd tags\n", "text").map(item => item.description), ["Fix the crash", "Add tags"]);
+        assert.equal(detectBatchFormat("tasks.NDJSON"), "jsonl");
+        assert.equal(detectBatchFormat("tasks.txt"), "text");
+    });
+});
+
+describe("runBatch", () => {
+    const items = ["Fix the login crash", "Add a CRUD API for posts", "Fix the signup error", "Refactor the router"]
+        .map((description, i) => ({ index: i + 1, id: String(i + 1), description }));
+
+    it("keeps at most `concurrency` items in flight and counts results by type", async () => {
+        let inFlight = 0;
+        let peak = 0;
+        const summary = await runBatch(items, {
+            concurrency: 2,
+            plan: async task => {
+                peak = Math.max(peak, ++inFlight);
+                await sleep(10);
+                inFlight--;
+                return plan(task);
+            },
+        });
+
+        assert.equal(peak, 2);
+        assert.equal(summary.succeeded, 4);
+        assert.deepEqual(summary.byType, { [TaskType.BUGFIX]: 2, [TaskType.CRUD]: 1, [TaskType.REFACTOR]: 1 });
+        assert.match(formatBatchSummary(summary), /Planned 4 tasks in [\d.]+s: 4 succeeded, 0 failed\./);
+    });
+
+    it("records failing and timed-out items and carries on with the rest", async () => {
+        const results: BatchResult[] = [];
+        const summary = await runBatch(items, {
+            timeoutMs: 20,
+            plan: task => {
+                if (task.description.includes("login")) throw new Error("provider down");
+                if (task.description.includes("signup")) return new Promise<TaskBreakdown>(() => undefined);
+                return plan(task);
+            },
+            onResult: result => { results.push(result); },
+        });
+
+        assert.equal(summary.failed, 2);
+        assert.equal(summary.succeeded, 2);
+        assert.deepEqual(results.filter(result => !result.ok).map(result => [result.id, result.error]).sort(), [
+            ["1", "provider down"],
+            ["3", "timed out after 20ms"],
+        ]);
+    });
+
+    it("counts an item as failed when its result cannot be handled", async () => {
+        const reported: BatchResult[] = [];
+        const summary = await runBatch(items.slice(0, 1), {
+            plan,
+            onResult: result => {
+                reported.push(result);
+                if (result.ok) throw new Error("disk full");
+            },
+        });
+
+        assert.equal(summary.failed, 1);
+        assert.deepEqual(reported.map(result => [result.ok, result.error]), [[true, undefined], [false, "disk full"]]);
+    });
+});
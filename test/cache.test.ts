@@ -0,0 +1,78 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PlanCache, CacheKeyParts } from "../src/core/cache";
+import { parseTask } from "../src/core/parser";
+import { LLMStrategy } from "../src/strategies/LLMStrategy";
+import { ScriptedProvider } from "./helpers/scriptedProvider";
+
+const PARTS: CacheKeyParts = { task: "Add a login page", promptVersion: "1", provider: "Groq", model: "m" };
+
+const REPLY = JSON.stringify({ steps: [{ id: 1, title: "Add page", description: "Add the login page", files: [], dependsOn: [] }] });
+
+describe("PlanCache", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "cache-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("shares a key between phrasings that differ only in case, spacing and trailing punctuation", () => {
+        assert.equal(PlanCache.keyFor(PARTS), PlanCache.keyFor({ ...PARTS, task: "  add a LOGIN   page. ", provider: "groq" }));
+    });
+
+    it("changes the key when the prompt version, provider, model or task changes", () => {
+        const key = PlanCache.keyFor(PARTS);
+
+        for (const change of [{ promptVersion: "2" }, { provider: "OpenAI" }, { model: "other" }, { task: "Add a signup page" }]) {
+            assert.notEqual(PlanCache.keyFor({ ...PARTS, ...change }), key, JSON.stringify(change));
+        }
+    });
+
+    it("returns stored content and misses once the prompt version changes", () => {
+        const cache = new PlanCache({ dir });
+        cache.set(PARTS, REPLY);
+
+        assert.equal(cache.get(PARTS)?.content, REPLY);
+        assert.equal(cache.get({ ...PARTS, promptVersion: "2" }), undefined);
+    });
+
+    it("treats expired and corrupt entries as misses", () => {
+        const expired = new PlanCache({ dir, ttlMs: -1 });
+        expired.set(PARTS, REPLY);
+        assert.equal(expired.get(PARTS), undefined);
+        assert.equal(expired.stats().entries, 0);
+
+        const cache = new PlanCache({ dir });
+        writeFileSync(join(dir, `${PlanCache.keyFor(PARTS)}.json`), "{ not json");
+        assert.equal(cache.get(PARTS), undefined);
+    });
+
+    it("prunes the oldest entries beyond the entry limit", async () => {
+        const cache = new PlanCache({ dir, maxEntries: 2 });
+        for (const task of ["first", "second", "third"]) {
+            cache.set({ ...PARTS, task }, REPLY);
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+
+        assert.deepEqual(cache.list().map(entry => entry.task), ["third", "second"]);
+        assert.equal(cache.clear(), 2);
+    });
+
+    it("lets LLMStrategy answer a repeated task without calling the provider", async () => {
+        const provider = new ScriptedProvider([REPLY]);
+        const strategy = new LLMStrategy({ provider, cache: new PlanCache({ dir }), stream: false });
+
+        const fresh = await strategy.analyze(parseTask("Add a login page"));
+        const cached = await strategy.analyze(parseTask("add a login page."));
+
+        assert.equal(provider.requests.length, 1);
+        assert.deepEqual(cached.steps, fresh.steps);
+    });
+});
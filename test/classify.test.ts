@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classifyTask, parseTask, secondaryTypes } from "../src/core/parser";
+import { HardcodedStrategy } from "../src/strategies/HardcodedStrategy";
+import { TaskType } from "../src/types/analysis";
+
+describe("classifyTask", () => {
+    it("ranks every matching type with confidences summing to 1 and the words that matched", () => {
+        assert.deepEqual(classifyTask("Add a CRUD API for products"), [
+            { type: TaskType.CRUD, confidence: 0.6, evidence: ["crud"] },
+            { type: TaskType.FEATURE, confidence: 0.4, evidence: ["add"] },
+        ]);
+    });
+
+    it("weighs the leading verb, so fixing a create button is a bug fix", () => {
+        assert.deepEqual(classifyTask("fix the create button").map(c => [c.type, c.confidence]), [
+            [TaskType.BUGFIX, 0.8],
+            [TaskType.CRUD, 0.2],
+        ]);
+    });
+
+    it("falls back to OTHER with full confidence when nothing matches", () => {
+        assert.deepEqual(classifyTask("Make it nicer"), [{ type: TaskType.OTHER, confidence: 1, evidence: [] }]);
+    });
+});
+
+describe("secondaryTypes", () => {
+    it("keeps the types scoring close to the primary one", () => {
+        assert.deepEqual(secondaryTypes(parseTask("Add login with JWT and a CRUD endpoint for users")), [TaskType.AUTHENTICATION]);
+        assert.deepEqual(secondaryTypes(parseTask("Fix the login crash")), []);
+    });
+});
+
+describe("HardcodedStrategy with a multi-label task", () => {
+    it("appends the secondary template as its own branch, numbered on without gaps", async () => {
+        const { steps } = await new HardcodedStrategy().analyze(parseTask("Add login with JWT and a CRUD endpoint for users"));
+        const ids = steps.map(step => step.id);
+
+        assert.deepEqual(ids, steps.map((_, index) => index + 1));
+        assert.ok(steps.some(step => /JWT/.test(step.title)), "the authentication template is mixed in");
+        assert.ok(steps.every(step => (step.dependsOn ?? []).every(dep => ids.includes(dep) && dep !== step.id)));
+        assert.deepEqual(steps.find(step => step.title === "Create User model with password field")?.dependsOn, []);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CompositeStrategy } from "../src/strategies/CompositeStrategy";
+import { HardcodedStrategy } from "../src/strategies/HardcodedStrategy";
+import { parseTask } from "../src/core/parser";
+import { AnalyzerStrategy, Step } from "../src/types/analysis";
+
+function strategy(name: string, steps: Step[]): AnalyzerStrategy {
+    return { name, analyze: task => ({ taskDescription: task.description, steps }) };
+}
+
+const BROKEN_GRAPH: Step[] = [
+    { id: 1, title: "Model", description: "Add the model", files: [], dependsOn: [] },
+    { id: 2, title: "Routes", description: "Add the routes", files: [], dependsOn: [5] },
+];
+
+describe("CompositeStrategy", () => {
+    it("falls back when a plan's step graph is broken", async () => {
+        const composite = new CompositeStrategy([strategy("Broken", BROKEN_GRAPH), new HardcodedStrategy()]);
+
+        const breakdown = await composite.analyze(parseTask("Add a login page"));
+
+        assert.equal(breakdown.strategy, "Hardcoded");
+        assert.ok(breakdown.steps.every(step => step.source === "Hardcoded"));
+    });
+
+    it("leaves a plan with a broken graph out of the ensemble", async () => {
+        const composite = new CompositeStrategy([strategy("Broken", BROKEN_GRAPH), new HardcodedStrategy()], { mode: "ensemble" });
+
+        const breakdown = await composite.analyze(parseTask("Add a login page"));
+
+        assert.equal(breakdown.strategy, "Ensemble(Hardcoded)");
+    });
+
+    it("cancels a strategy that times out and uses the next one", async () => {
+        let aborted = false;
+        const slow: AnalyzerStrategy = {
+            name: "Slow",
+            analyze: (_task, options) => new Promise(() => options?.signal?.addEventListener("abort", () => aborted = true)),
+        };
+
+        const breakdown = await new CompositeStrategy([slow, new HardcodedStrategy()], { timeoutMs: 20 }).analyze(parseTask("Add a login page"));
+
+        assert.equal(breakdown.strategy, "Hardcoded");
+        assert.equal(aborted, true);
+    });
+
+    it("keeps the file statuses a merged step brings along", async () => {
+        const base = strategy("Base", [
+            { id: 1, title: "Create tag model", description: "Model", files: ["src/models/tag.ts"], fileStatus: { "src/models/tag.ts": "new" } },
+        ]);
+        const extra = strategy("Extra", [
+            { id: 1, title: "Create tag model", description: "Model", files: ["src/db/schema.ts"], fileStatus: { "src/db/schema.ts": "existing" } },
+        ]);
+
+        const breakdown = await new CompositeStrategy([base, extra], { mode: "ensemble" }).analyze(parseTask("Add tags"));
+
+        assert.deepEqual(breakdown.steps[0].files, ["src/models/tag.ts", "src/db/schema.ts"]);
+        assert.deepEqual(breakdown.steps[0].fileStatus, { "src/models/tag.ts": "new", "src/db/schema.ts": "existing" });
+    });
+});
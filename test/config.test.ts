@@ -0,0 +1,94 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resolveConfig, formatConfig, ConfigError, PROJECT_CONFIG_FILE } from "../src/core/config";
+
+describe("resolveConfig", () => {
+    let root: string;
+    let userFile: string;
+
+    before(() => {
+        root = mkdtempSync(join(tmpdir(), "config-"));
+        mkdirSync(join(root, ".traycer"));
+        writeFileSync(join(root, `${PROJECT_CONFIG_FILE}.yaml`), [
+            "strategy: llm",
+            "llm:",
+            "  provider: openai",
+            "  timeout: 20000",
+            "  maxRetries: 1",
+            "profiles:",
+            "  ci:",
+            "    llm:",
+            "      maxRetries: 0",
+            "    cache:",
+            "      enabled: false",
+        ].join("\n"));
+
+        userFile = join(root, "user.json");
+        writeFileSync(userFile, JSON.stringify({ llm: { timeout: 25000 } }));
+    });
+
+    after(() => {
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    // Resolve in the temporary project, with only the given environment variables.
+    function resolveIn(env: NodeJS.ProcessEnv = {}, flags: Record<string, string | undefined> = {}) {
+        return resolveConfig({ cwd: root, env: { ANALYZER_USER_CONFIG: userFile, ...env }, flags });
+    }
+
+    it("layers defaults, the project file and the user file, remembering where each value came from", () => {
+        const { config, sources, files } = resolveIn();
+
+        assert.equal(config.strategy, "LLM");
+        assert.equal(config.llm.provider, "openai");
+        assert.equal(config.llm.timeout, 25000);
+        assert.equal(config.batch.concurrency, 4);
+        assert.match(sources["llm.provider"], /^project .*config\.yaml$/);
+        assert.match(sources["llm.timeout"], /^user .*user\.json$/);
+        assert.equal(sources["batch.concurrency"], "default");
+        assert.equal(files.length, 3);
+    });
+
+    it("applies a profile above the files, and the environment and flags above the profile", () => {
+        const { config, sources } = resolveIn({ ANALYZER_PROFILE: "ci", LLM_TIMEOUT: "5000" }, { "llm.maxRetries": "2" });
+
+        assert.equal(config.cache.enabled, false);
+        assert.equal(sources["cache.enabled"], "profile ci");
+        assert.equal(config.llm.timeout, 5000);
+        assert.equal(sources["llm.timeout"], "env LLM_TIMEOUT");
+        assert.equal(config.llm.maxRetries, 2);
+        assert.equal(sources["llm.maxRetries"], "command line");
+    });
+
+    it("knows the built-in profiles", () => {
+        const { config } = resolveIn({}, { profile: "fast" });
+
+        assert.equal(config.strategy, "Fallback");
+        assert.equal(config.llm.maxRepairs, 0);
+    });
+
+    it("reads the variables of the selected provider", () => {
+        const { config, sources } = resolveIn({ OPENAI_MODEL: "gpt-4o", GROQ_MODEL: "ignored", OPENAI_API_KEY: "sk-secret-value" });
+
+        assert.equal(config.llm.model, "gpt-4o");
+        assert.equal(sources["llm.model"], "env OPENAI_MODEL");
+        assert.doesNotMatch(formatConfig(resolveIn({ OPENAI_API_KEY: "sk-secret-value" })), /sk-secret-value/);
+    });
+
+    it("names the source and setting of an invalid value", () => {
+        assert.throws(() => resolveIn({ LLM_TIMEOUT: "soon" }), (error: any) =>
+            error instanceof ConfigError && error.message === "Invalid config in env LLM_TIMEOUT: \"llm.timeout\" must be a number (got \"soon\")");
+        assert.throws(() => resolveIn({}, { profile: "nope" }), /Unknown config profile "nope"/);
+        assert.throws(() => resolveIn({}, { "llm.timeot": "1" }), /Unknown setting "llm.timeot"/);
+    });
+
+    it("suggests the setting a config file probably meant", () => {
+        const file = join(root, "typo.json");
+        writeFileSync(file, JSON.stringify({ llm: { timeot: 1 } }));
+
+        assert.throws(() => resolveConfig({ cwd: root, env: { ANALYZER_CONFIG: file, ANALYZER_USER_CONFIG: userFile } }), /unknown setting "llm.timeot".*llm\.timeout/);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCSV, parseCSVRecords, formatCSV } from "../src/core/csv";
+import { parseJiraCSV } from "../src/core/issues";
+import { TaskType } from "../src/types/analysis";
+
+describe("parseCSV", () => {
+    it("splits rows and fields, skipping blank lines", () => {
+        assert.deepEqual(parseCSV("a,b,c\n1,2,3\n\n4,,6\n"), [["a", "b", "c"], ["1", "2", "3"], ["4", "", "6"]]);
+    });
+
+    it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+        assert.deepEqual(parseCSV("title,body\r\n\"Fix, then test\",\"Say \"\"hi\"\"\r\nnext line\"\r\n"), [
+            ["title", "body"],
+            ["Fix, then test", "Say \"hi\"\r\nnext line"],
+        ]);
+    });
+
+    it("strips a byte order mark and reads a last row without a line break", () => {
+        assert.deepEqual(parseCSV("\uFEFFid,name\n1,x"), [["id", "name"], ["1", "x"]]);
+    });
+
+    it("throws on an unterminated quoted field", () => {
+        assert.throws(() => parseCSV("a,\"b\n"), /unterminated quoted field/);
+    });
+});
+
+describe("parseCSVRecords", () => {
+    it("keys rows by the trimmed header, filling missing fields with empty strings", () => {
+        assert.deepEqual(parseCSVRecords(" id , task\n1,Add login\n2\n"), [
+            { id: "1", task: "Add login" },
+            { id: "2", task: "" },
+        ]);
+        assert.deepEqual(parseCSVRecords(""), []);
+    });
+});
+
+describe("formatCSV", () => {
+    it("quotes only the fields that need it and round-trips through parseCSV", () => {
+        const rows = [["key", "summary"], ["step-1", "Plain"], ["step-2", "Comma, \"quote\"\nand break"]];
+        const text = formatCSV(rows);
+
+        assert.equal(text, "key,summary\r\nstep-1,Plain\r\nstep-2,\"Comma, \"\"quote\"\"\nand break\"\r\n");
+        assert.deepEqual(parseCSV(text), rows);
+    });
+});
+
+describe("parseJiraCSV", () => {
+    const EXPORT = [
+        "Summary,Issue key,Issue id,Issue Type,Description,Labels,Labels,Custom field (Acceptance Criteria)",
+        "Checkout crashes on empty cart,SHOP-17,10017,Bug,\"Fails in {{src/cart/service.ts}}.\",checkout,,\"# Empty cart shows a message\n# No error is logged\"",
+        "Add wishlist,SHOP-18,10018,Story,Let users save items,,ui,",
+        ",SHOP-19,10019,Task,No summary means no issue,,,",
+    ].join("\n");
+
+    it("turns every row with a summary into a task", () => {
+        const tasks = parseJiraCSV(EXPORT);
+
+        assert.deepEqual(tasks.map(task => [task.source?.id, task.title, task.type]), [
+            ["SHOP-17", "Checkout crashes on empty cart", TaskType.BUGFIX],
+            ["SHOP-18", "Add wishlist", TaskType.FEATURE],
+        ]);
+    });
+
+    it("reads the issue type and every Labels column as labels", () => {
+        const [bug, story] = parseJiraCSV(EXPORT);
+
+        assert.deepEqual(bug.labels, ["Bug", "checkout"]);
+        assert.deepEqual(story.labels, ["Story", "ui"]);
+    });
+
+    it("reads the acceptance criteria field as a Jira numbered list and links the files in the description", () => {
+        const [bug] = parseJiraCSV(EXPORT);
+
+        assert.deepEqual(bug.acceptanceCriteria, ["Empty cart shows a message", "No error is logged"]);
+        assert.deepEqual(bug.files, ["src/cart/service.ts"]);
+        assert.equal(bug.source?.tracker, "jira");
+    });
+
+    it("falls back to the issue id, then the row number", () => {
+        assert.deepEqual(parseJiraCSV("Summary,Issue id\nA,42\nB,\n").map(task => task.source?.id), ["42", "2"]);
+    });
+
+    it("needs a Summary column", () => {
+        assert.throws(() => parseJiraCSV("Title,Key\nA,B\n"), /no "Summary" column/);
+    });
+});
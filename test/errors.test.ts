@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EXIT_CODES, UsageError, InputError, exitCodeFor } from "../src/cli/errors";
+import { ConfigError, LLMSettings } from "../src/core/config";
+import { AuthenticationError, RateLimitError, createProvider, loadLLMConfig } from "../src/providers";
+import { CompositeStrategy } from "../src/strategies/CompositeStrategy";
+import { parseTask } from "../src/core/parser";
+
+const SETTINGS: LLMSettings = {
+    provider: "groq", apiKey: "", model: "", baseUrl: "",
+    maxRetries: 0, timeout: 1000, maxRepairs: 0, requestsPerMinute: 0, circuitThreshold: 0, circuitCooldown: 0, stream: false,
+};
+
+describe("loadLLMConfig and createProvider", () => {
+    it("throw an AuthenticationError for a missing API key", () => {
+        assert.throws(() => loadLLMConfig({ settings: SETTINGS }), AuthenticationError);
+        assert.equal(loadLLMConfig({ settings: SETTINGS, requireApiKey: false }).model, "openai/gpt-oss-20b");
+    });
+
+    it("throw a ConfigError for an unknown provider", () => {
+        const settings = { ...SETTINGS, provider: "mistral" } as unknown as LLMSettings;
+
+        assert.throws(() => loadLLMConfig({ settings }), ConfigError);
+        assert.throws(() => createProvider({ provider: "mistral" } as any), /Unknown LLM provider "mistral"/);
+    });
+});
+
+describe("exitCodeFor", () => {
+    it("maps errors by class, not by message", () => {
+        assert.equal(exitCodeFor(new UsageError("Unknown option --x")), EXIT_CODES.usage);
+        assert.equal(exitCodeFor(new ConfigError("Unknown LLM provider \"x\"")), EXIT_CODES.config);
+        assert.equal(exitCodeFor(new InputError("Task file is empty")), EXIT_CODES.input);
+        assert.equal(exitCodeFor(new AuthenticationError("Groq", "groq API key is required")), EXIT_CODES.provider);
+        assert.equal(exitCodeFor(new Error("Could not reach the LLM API key store")), EXIT_CODES.failure);
+    });
+
+    it("uses the first specific code among the failures of a composite strategy", async () => {
+        const composite = new CompositeStrategy([
+            { name: "Broken", analyze: () => { throw new Error("boom"); } },
+            { name: "LLM", analyze: () => { throw new RateLimitError("Groq", "Rate limited"); } },
+        ]);
+
+        const error = await composite.analyze(parseTask("Add tags")).catch(error => error);
+
+        assert.ok(error instanceof AggregateError);
+        assert.match(error.message, /All strategies failed\. Broken: boom; LLM: Rate limited/);
+        assert.equal(exitCodeFor(error), EXIT_CODES.provider);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveDependencies, findGraphProblems, computeWaves } from "../src/core/graph";
+import { parseTask } from "../src/core/parser";
+import { LLMStrategy } from "../src/strategies/LLMStrategy";
+import { InvalidResponseError } from "../src/providers";
+import { Step } from "../src/types/analysis";
+import { ScriptedProvider } from "./helpers/scriptedProvider";
+
+function step(id: number, dependsOn?: number[]): Step {
+    return { id, title: `Step ${id}`, description: "", files: [], ...(dependsOn ? { dependsOn } : {}) };
+}
+
+describe("resolveDependencies", () => {
+    it("makes a step without dependsOn depend on the one before it", () => {
+        assert.deepEqual([...resolveDependencies([step(1), step(2), step(3, [1, 1])])], [[1, []], [2, [1]], [3, [1]]]);
+    });
+});
+
+describe("computeWaves", () => {
+    it("groups steps whose prerequisites are done into the same wave", () => {
+        const steps = [step(1, []), step(2, [1]), step(3, [1]), step(4, [2, 3]), step(5, [])];
+
+        assert.deepEqual(computeWaves(steps), [[1, 5], [2, 3], [4]]);
+    });
+
+    it("keeps a plan without dependencies a straight line", () => {
+        assert.deepEqual(computeWaves([step(1), step(2), step(3)]), [[1], [2], [3]]);
+    });
+
+    it("throws on a cycle, naming the steps that can never start", () => {
+        assert.throws(
+            () => computeWaves([step(1, []), step(2, [3]), step(3, [2])]),
+            /Invalid step dependency graph: Steps 2, 3 can never start because of a dependency cycle/,
+        );
+    });
+});
+
+describe("findGraphProblems", () => {
+    it("reports duplicate ids, unknown steps and self-dependencies", () => {
+        assert.deepEqual(findGraphProblems([step(1, []), step(1, [1]), step(2, [7])]), [
+            "Duplicate step id 1",
+            "Step 1 depends on itself",
+            "Step 2 depends on unknown step 7",
+        ]);
+    });
+
+    it("finds nothing wrong with a sound graph", () => {
+        assert.deepEqual(findGraphProblems([step(1, []), step(2, [1]), step(3, [1, 2])]), []);
+    });
+});
+
+describe("LLMStrategy", () => {
+    it("rejects a reply whose steps depend on unknown steps", async () => {
+        const reply = JSON.stringify({
+            steps: [
+                { id: 1, title: "Model", description: "Add the model", files: [], dependsOn: [] },
+                { id: 2, title: "Routes", description: "Add the routes", files: [], dependsOn: [5] },
+            ],
+        });
+
+        await assert.rejects(
+            new LLMStrategy({ provider: new ScriptedProvider([reply]), maxRepairs: 0 }).analyze(parseTask("Add tags")),
+            (error: any) => error instanceof InvalidResponseError && /Step 2 depends on unknown step 5/.test(error.message),
+        );
+    });
+});
@@ -0,0 +1,64 @@
+import { createServer, IncomingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+
+/**
+ * A local HTTP server that stands in for an LLM API in tests.
+ * It records every request and answers with the given replies in order, repeating the last one.
+ */
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: any;
+}
+
+export interface MockReply {
+    status?: number;
+    headers?: Record<string, string>;
+
+    // Sent as JSON.
+    body?: unknown;
+
+    // Sent as a streamed body instead, one write per chunk.
+    chunks?: string[];
+}
+
+export interface MockServer {
+    url: string;
+    requests: RecordedRequest[];
+    close(): Promise<void>;
+}
+
+export function startMockServer(replies: MockReply[]): Promise<MockServer> {
+    const requests: RecordedRequest[] = [];
+
+    const server = createServer((req, res) => {
+        let text = "";
+        req.on("data", chunk => text += chunk);
+        req.on("end", () => {
+            requests.push({ method: req.method ?? "", path: req.url ?? "", headers: req.headers, body: text ? JSON.parse(text) : undefined });
+            const reply = replies[Math.min(requests.length, replies.length) - 1];
+
+            if (reply.chunks) {
+                res.writeHead(reply.status ?? 200, { "content-type": "text/event-stream", ...reply.headers });
+                for (const chunk of reply.chunks) res.write(chunk);
+                res.end();
+                return;
+            }
+            res.writeHead(reply.status ?? 200, { "content-type": "application/json", ...reply.headers });
+            res.end(JSON.stringify(reply.body ?? {}));
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, "127.0.0.1", () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                requests,
+                close: () => new Promise<void>(done => server.close(() => done())),
+            });
+        });
+    });
+}
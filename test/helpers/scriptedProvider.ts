@@ -0,0 +1,18 @@
+import { LLMProvider, LLMRequest, LLMResponse } from "../../src/providers";
+
+/**
+ * A provider that answers with the given replies in order (repeating the last one) and records the requests.
+ */
+export class ScriptedProvider implements LLMProvider {
+    readonly name = "Scripted";
+    readonly model = "scripted-model";
+    readonly requests: LLMRequest[] = [];
+
+    constructor(private replies: string[]) {}
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        this.requests.push(request);
+        const content = this.replies[this.requests.length - 1] ?? this.replies[this.replies.length - 1];
+        return { content, model: this.model, usage: { promptTokens: 10, completionTokens: 5 } };
+    }
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractJSON } from "../src/core/json";
+import { parseTask } from "../src/core/parser";
+import { LLMStrategy } from "../src/strategies/LLMStrategy";
+import { InvalidResponseError } from "../src/providers";
+import { ScriptedProvider } from "./helpers/scriptedProvider";
+
+describe("extractJSON", () => {
+    it("parses plain JSON", () => {
+        assert.deepEqual(extractJSON("{\"steps\": []}"), { steps: [] });
+    });
+
+    it("takes the object out of a Markdown fence", () => {
+        assert.deepEqual(extractJSON("Here is the plan:\n```json\n{\"steps\": [1]}\n```\nGood luck!"), { steps: [1] });
+    });
+
+    it("finds the first balanced object in surrounding prose, ignoring braces in strings", () => {
+        const reply = "Sure! {\"title\": \"Use {braces} and \\\"quotes\\\"\", \"n\": {\"m\": 1}} Anything else? {\"not\": \"this\"}";
+
+        assert.deepEqual(extractJSON(reply), { title: "Use {braces} and \"quotes\"", n: { m: 1 } });
+    });
+
+    it("drops trailing commas outside strings", () => {
+        assert.deepEqual(extractJSON("{\"files\": [\"a,]\", \"b\",], \"x\": 1,}"), { files: ["a,]", "b"], x: 1 });
+    });
+
+    it("throws a SyntaxError when there is no JSON object", () => {
+        assert.throws(() => extractJSON("I cannot help with that."), SyntaxError);
+        assert.throws(() => extractJSON("{\"unterminated\": "), SyntaxError);
+    });
+});
+
+const VALID = JSON.stringify({
+    steps: [
+        { id: 1, title: "Create tag model", description: "Add the model", files: ["src/models/tag.ts"], dependsOn: [] },
+        { id: 2, title: "Write tests", description: "Cover the model", files: ["tests/tag.test.ts"], dependsOn: [1] },
+    ],
+});
+
+describe("LLMStrategy repairs", () => {
+    it("uses a valid reply without asking for a repair", async () => {
+        const provider = new ScriptedProvider([`\`\`\`json\n${VALID}\n\`\`\``]);
+
+        const breakdown = await new LLMStrategy({ provider }).analyze(parseTask("Add tags"));
+
+        assert.equal(provider.requests.length, 1);
+        assert.equal(breakdown.steps.length, 2);
+        assert.equal(breakdown.repairs, undefined);
+    });
+
+    it("sends the validation errors back and uses the corrected reply", async () => {
+        const provider = new ScriptedProvider(["{\"steps\": []}", VALID]);
+
+        const breakdown = await new LLMStrategy({ provider }).analyze(parseTask("Add tags"));
+
+        assert.equal(provider.requests.length, 2);
+        const [, reply, feedback] = provider.requests[1].messages;
+        assert.deepEqual(reply, { role: "assistant", content: "{\"steps\": []}" });
+        assert.match(feedback.content, /^Your response could not be used:\n- /);
+        assert.equal(breakdown.steps.length, 2);
+        assert.equal(breakdown.repairs?.length, 1);
+        assert.equal(breakdown.repairs?.[0].succeeded, true);
+        assert.equal(breakdown.repairs?.[0].usage?.promptTokens, 10);
+    });
+
+    it("sends dependency graph problems back for repair", async () => {
+        const broken = JSON.stringify({
+            steps: [
+                { id: 1, title: "Create tag model", description: "Add the model", files: [], dependsOn: [2] },
+                { id: 2, title: "Write tests", description: "Cover the model", files: [], dependsOn: [1] },
+            ],
+        });
+        const provider = new ScriptedProvider([broken, VALID]);
+
+        const breakdown = await new LLMStrategy({ provider }).analyze(parseTask("Add tags"));
+
+        assert.equal(provider.requests.length, 2);
+        assert.match(provider.requests[1].messages[2].content, /- Steps 1, 2 can never start because of a dependency cycle/);
+        assert.deepEqual(breakdown.repairs?.[0].errors, ["Steps 1, 2 can never start because of a dependency cycle"]);
+        assert.deepEqual(breakdown.steps.map(step => step.dependsOn), [[], [1]]);
+    });
+
+    it("gives up with an InvalidResponseError after maxRepairs attempts", async () => {
+        const provider = new ScriptedProvider(["not json at all"]);
+
+        await assert.rejects(
+            new LLMStrategy({ provider, maxRepairs: 1 }).analyze(parseTask("Add tags")),
+            (error: any) => error instanceof InvalidResponseError && /after 1 repair attempt\)$/.test(error.message),
+        );
+        assert.equal(provider.requests.length, 2);
+    });
+});
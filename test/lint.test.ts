@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PlanLinter } from "../src/core/lint";
+import { Analyzer } from "../src/core/analyzer";
+import { parseTask } from "../src/core/parser";
+import { AnalyzerStrategy, Step, TaskBreakdown } from "../src/types/analysis";
+
+function step(id: number, title: string, files: string[] = [], dependsOn?: number[]): Step {
+    return { id, title, description: title, files, ...(dependsOn ? { dependsOn } : {}) };
+}
+
+function plan(...steps: Step[]): TaskBreakdown {
+    return { taskDescription: "Add a tags endpoint", steps };
+}
+
+const GOOD = plan(
+    step(1, "Create tag model", ["src/models/tag.ts"]),
+    step(2, "Add tag routes", ["src/routes/tags.ts"], [1]),
+    step(3, "Write tests for tag routes", ["tests/tags.test.ts"], [2]),
+);
+
+function rules(breakdown: TaskBreakdown, linter = new PlanLinter(), task = parseTask("Add a tags feature")): string[] {
+    return linter.lint(breakdown, task).issues.map(issue => issue.rule);
+}
+
+describe("PlanLinter", () => {
+    it("finds nothing wrong with a well-formed plan", () => {
+        assert.deepEqual(new PlanLinter().lint(GOOD, parseTask("Add a tags feature")).issues, []);
+    });
+
+    it("reports duplicate and out-of-order ids, errors first", () => {
+        const { issues } = new PlanLinter().lint(plan(
+            step(1, "Model", ["src/a.ts"], []),
+            step(3, "Routes", ["src/b.ts"], [1]),
+            step(3, "Tests", ["tests/b.test.ts"], [1]),
+        ));
+
+        assert.deepEqual(issues.map(issue => [issue.severity, issue.rule]), [
+            ["error", "duplicate-id"],
+            ["warning", "sequential-ids"],
+        ]);
+        assert.equal(issues[0].stepId, 3);
+        assert.equal(issues[0].fixable, true);
+    });
+
+    it("reports dependencies on missing steps and cycles", () => {
+        assert.deepEqual(rules(plan(step(1, "Model", [], [9]), step(2, "Routes"), step(3, "Tests for routes"))), ["dependency-graph"]);
+        assert.deepEqual(rules(plan(step(1, "Model", [], [2]), step(2, "Routes", [], [1]), step(3, "Tests for routes"))), ["dependency-graph"]);
+    });
+
+    it("reports near-duplicate steps", () => {
+        assert.deepEqual(rules(plan(step(1, "Create tag model"), step(2, "Create the tag model"), step(3, "Write tests"))), ["near-duplicate"]);
+    });
+
+    it("reports absolute and parent-directory paths but does not fix them", () => {
+        const linter = new PlanLinter({ fix: true });
+        const result = linter.lint(plan(step(1, "Model", ["/etc/passwd"]), step(2, "Routes", ["../outside.ts"]), step(3, "Tests", ["tests/a.test.ts"])));
+
+        assert.deepEqual(result.issues.map(issue => issue.rule), ["unsafe-path", "unsafe-path"]);
+        assert.deepEqual(result.fixed, []);
+    });
+
+    it("reports a missing tests step only for task types that need one", () => {
+        const noTests = plan(step(1, "Model"), step(2, "Routes"), step(3, "Docs"));
+
+        assert.deepEqual(rules(noTests, new PlanLinter(), parseTask("Add a tags feature")), ["missing-tests"]);
+        assert.deepEqual(rules(noTests, new PlanLinter(), parseTask("Refactor the tag module")), []);
+    });
+
+    it("checks the step count against the configured limits", () => {
+        assert.deepEqual(rules(plan(step(1, "Write tests"))), ["step-count"]);
+        assert.deepEqual(rules(GOOD, new PlanLinter({ minSteps: 1, maxSteps: 2 })), ["step-count"]);
+    });
+
+    it("skips disabled rules and rejects unknown ones", () => {
+        assert.deepEqual(rules(plan(step(1, "Write tests")), new PlanLinter({ disabled: ["step-count"] })), []);
+        assert.throws(() => new PlanLinter({ disabled: ["no-such-rule"] }), /Unknown lint rule "no-such-rule"/);
+        assert.throws(() => new PlanLinter({ minSteps: 5, maxSteps: 3 }), /inconsistent/);
+    });
+
+    describe("fix mode", () => {
+        it("renumbers steps and maps their dependencies along", () => {
+            const result = new PlanLinter({ fix: true }).lint(plan(
+                step(2, "Model", ["src/a.ts"], []),
+                step(5, "Routes", ["src/b.ts"], [2]),
+                step(7, "Tests", ["tests/b.test.ts"], [5]),
+            ));
+
+            assert.deepEqual(result.breakdown.steps.map(s => [s.id, s.dependsOn]), [[1, []], [2, [1]], [3, [2]]]);
+            assert.deepEqual(result.fixed, ["sequential-ids"]);
+            assert.deepEqual(result.issues, []);
+        });
+
+        it("normalizes file paths and their statuses, dropping duplicates", () => {
+            const messy = { ...step(1, "Model", ["./src//a.ts", "src\\a.ts", "src/b/"]), fileStatus: { "./src//a.ts": "new" as const } };
+            const result = new PlanLinter({ fix: true }).lint(plan(messy, step(2, "Routes"), step(3, "Tests")));
+
+            assert.deepEqual(result.breakdown.steps[0].files, ["src/a.ts", "src/b"]);
+            assert.deepEqual(result.breakdown.steps[0].fileStatus, { "src/a.ts": "new" });
+            assert.deepEqual(result.fixed, ["path-format"]);
+        });
+
+        it("leaves the plan alone when not in fix mode", () => {
+            const messy = plan(step(1, "Model", ["./src/a.ts"]), step(2, "Routes"), step(3, "Tests"));
+            const result = new PlanLinter().lint(messy);
+
+            assert.equal(result.breakdown, messy);
+            assert.deepEqual(result.issues.map(issue => [issue.rule, issue.message]), [
+                ["path-format", "Step 1 file \"./src/a.ts\" should be written \"src/a.ts\""],
+            ]);
+        });
+    });
+});
+
+describe("Analyzer with a linter", () => {
+    const DUPLICATE_IDS: AnalyzerStrategy = {
+        name: "Test",
+        analyze: () => plan(step(1, "Model", ["src/a.ts"], []), step(1, "Routes", ["src/b.ts"], [1]), step(3, "Tests", ["tests/b.test.ts"], [1])),
+    };
+
+    it("reports a broken step graph as lint findings instead of failing", () => {
+        const breakdown = new Analyzer(DUPLICATE_IDS, { linter: new PlanLinter() }).run(parseTask("Add tags")) as TaskBreakdown;
+
+        assert.ok(breakdown.lint?.some(issue => issue.rule === "duplicate-id"));
+        assert.equal(breakdown.waves, undefined);
+    });
+
+    it("computes the waves once fix mode has renumbered the steps", () => {
+        const breakdown = new Analyzer(DUPLICATE_IDS, { linter: new PlanLinter({ fix: true }) }).run(parseTask("Add tags")) as TaskBreakdown;
+
+        assert.deepEqual(breakdown.steps.map(s => s.id), [1, 2, 3]);
+        assert.deepEqual(breakdown.waves, [[1], [2, 3]]);
+    });
+
+    it("rejects a broken step graph nothing reported", () => {
+        assert.throws(() => new Analyzer(DUPLICATE_IDS).run(parseTask("Add tags")), /Duplicate step id 1/);
+        assert.throws(
+            () => new Analyzer(DUPLICATE_IDS, { linter: new PlanLinter({ disabled: ["duplicate-id", "dependency-graph"] }) }).run(parseTask("Add tags")),
+            /Duplicate step id 1/,
+        );
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FilePlanRepository, StoredPlan } from "../src/core/plans";
+import { parseTask } from "../src/core/parser";
+import { TaskBreakdown } from "../src/types/analysis";
+
+const TASK = parseTask("Add a login page");
+
+const BREAKDOWN: TaskBreakdown = {
+    taskDescription: TASK.description,
+    strategy: "Hardcoded",
+    steps: [
+        { id: 1, title: "Add page", description: "Add the login page", files: [] },
+        { id: 2, title: "Add tests", description: "Test the page", files: [] },
+    ],
+};
+
+describe("FilePlanRepository", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "plans-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Store a plan under a chosen id, bypassing the random ids save assigns.
+    function write(id: string, createdAt: string): void {
+        const plan: StoredPlan = { id, createdAt, strategy: "Hardcoded", task: TASK, breakdown: BREAKDOWN };
+        writeFileSync(join(dir, `${id}.json`), JSON.stringify(plan));
+    }
+
+    it("saves a plan and finds it by its full id or a unique prefix", () => {
+        const repository = new FilePlanRepository(dir);
+        const saved = repository.save({ task: TASK, breakdown: BREAKDOWN });
+
+        assert.match(saved.id, /^[0-9a-f]{8}$/);
+        assert.equal(saved.strategy, "Hardcoded");
+        assert.deepEqual(repository.get(saved.id)?.breakdown, BREAKDOWN);
+        assert.equal(repository.get(saved.id.slice(0, 3))?.id, saved.id);
+        assert.equal(repository.get("zzzz"), undefined);
+    });
+
+    it("refuses an id prefix that matches several plans", () => {
+        write("ab12cd34", "2026-10-01T00:00:00.000Z");
+        write("ab99ef00", "2026-10-02T00:00:00.000Z");
+        const repository = new FilePlanRepository(dir);
+
+        assert.throws(() => repository.get("ab"), (error: any) => /Plan id "ab" is ambiguous/.test(error.message) && /ab12cd34/.test(error.message) && /ab99ef00/.test(error.message));
+        assert.equal(repository.get("ab1")?.id, "ab12cd34");
+        assert.throws(() => repository.delete("ab"), /ambiguous/);
+    });
+
+    it("lists plans newest first, skipping files that are not plans", () => {
+        write("00000001", "2026-10-01T00:00:00.000Z");
+        write("00000002", "2026-10-02T00:00:00.000Z");
+        writeFileSync(join(dir, "broken.json"), "{");
+
+        assert.deepEqual(new FilePlanRepository(dir).list().map(plan => [plan.id, plan.steps, plan.taskDescription]), [
+            ["00000002", 2, "Add a login page"],
+            ["00000001", 2, "Add a login page"],
+        ]);
+    });
+
+    it("checks that a refined plan's parent exists", () => {
+        const repository = new FilePlanRepository(dir);
+        const parent = repository.save({ task: TASK, breakdown: BREAKDOWN });
+
+        assert.equal(repository.save({ task: TASK, breakdown: BREAKDOWN, parentId: parent.id }).parentId, parent.id);
+        assert.throws(() => repository.save({ task: TASK, breakdown: BREAKDOWN, parentId: "ffffffff" }), /Parent plan "ffffffff" does not exist/);
+    });
+
+    it("updates and deletes stored plans", () => {
+        const repository = new FilePlanRepository(dir);
+        const saved = repository.save({ task: TASK, breakdown: BREAKDOWN });
+
+        const updated = repository.update(saved.id, { ...BREAKDOWN, steps: BREAKDOWN.steps.slice(0, 1) });
+        assert.ok(updated.updatedAt);
+        assert.equal(repository.get(saved.id)?.breakdown.steps.length, 1);
+
+        assert.equal(repository.delete(saved.id), true);
+        assert.equal(repository.delete(saved.id), false);
+        assert.throws(() => repository.update(saved.id, BREAKDOWN), /No saved plan with id/);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setStepStatus, addStepNote, readySteps, computeProgress, describeProgress, isTracked } from "../src/core/progress";
+import { TaskBreakdown } from "../src/types/analysis";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const PLAN: TaskBreakdown = {
+    taskDescription: "Add tags",
+    steps: [
+        { id: 1, title: "Model", description: "Add the model", files: [], dependsOn: [] },
+        { id: 2, title: "Routes", description: "Add the routes", files: [], dependsOn: [1] },
+        { id: 3, title: "Docs", description: "Document tags", files: [], dependsOn: [] },
+        { id: 4, title: "Tests", description: "Test tags", files: [], dependsOn: [2, 3] },
+    ],
+};
+
+describe("setStepStatus", () => {
+    it("refuses to start a step whose prerequisites are unfinished", () => {
+        assert.throws(() => setStepStatus(PLAN, 2, "in-progress"), /Step 2 cannot start: step 1 is not done yet/);
+        assert.throws(() => setStepStatus(PLAN, 4, "done"), /Step 4 cannot start: step 2, step 3 are not done yet/);
+    });
+
+    it("starts such a step anyway when forced, or once the prerequisites are done or skipped", () => {
+        assert.equal(setStepStatus(PLAN, 2, "in-progress", { force: true }).steps[1].status, "in-progress");
+
+        let plan = setStepStatus(PLAN, 1, "done", { now: NOW });
+        plan = setStepStatus(plan, 3, "skipped", { now: NOW });
+        plan = setStepStatus(plan, 2, "done", { now: NOW });
+
+        assert.equal(setStepStatus(plan, 4, "in-progress").steps[3].status, "in-progress");
+    });
+
+    it("records timestamps and notes, and leaves the input untouched", () => {
+        const started = setStepStatus(PLAN, 1, "in-progress", { now: NOW, note: "On it" });
+        const blocked = setStepStatus(started, 1, "blocked", { note: "Waiting for the schema review" });
+
+        assert.equal(started.steps[0].startedAt, NOW.toISOString());
+        assert.deepEqual(blocked.steps[0].notes?.map(note => note.text), ["On it", "Waiting for the schema review"]);
+        assert.equal(blocked.steps[0].startedAt, NOW.toISOString());
+        assert.equal(PLAN.steps[0].status, undefined);
+    });
+
+    it("rejects unknown steps and statuses", () => {
+        assert.throws(() => setStepStatus(PLAN, 9, "done"), /Step 9 does not exist/);
+        assert.throws(() => setStepStatus(PLAN, 1, "finished" as any), /Unknown step status "finished"/);
+        assert.throws(() => addStepNote(PLAN, 1, "  "), /Note text cannot be empty/);
+    });
+});
+
+describe("readySteps and computeProgress", () => {
+    it("report what can be picked up next and how far the plan is", () => {
+        assert.equal(isTracked(PLAN), false);
+        assert.deepEqual(readySteps(PLAN).map(step => step.id), [1, 3]);
+
+        let plan = setStepStatus(PLAN, 1, "done", { now: NOW });
+        plan = setStepStatus(plan, 3, "blocked", { now: NOW });
+
+        assert.equal(isTracked(plan), true);
+        assert.deepEqual(readySteps(plan).map(step => step.id), [2]);
+        assert.equal(describeProgress(computeProgress(plan)), "1/4 steps finished (25%), 1 blocked");
+    });
+});
@@ -0,0 +1,232 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { OpenAICompatibleProvider, OllamaProvider, AnthropicProvider, AuthenticationError, RateLimitError, ProviderError, LLMProviderConfig } from "../src/providers";
+import { startMockServer, MockServer, MockReply } from "./helpers/mockServer";
+
+const MESSAGES = [
+    { role: "system", content: "You plan tasks." },
+    { role: "user", content: "Add login" },
+];
+
+let server: MockServer | undefined;
+
+afterEach(async () => {
+    await server?.close();
+    server = undefined;
+});
+
+async function serve(...replies: MockReply[]): Promise<MockServer> {
+    server = await startMockServer(replies);
+    return server;
+}
+
+function config(url: string, overrides: Partial<LLMProviderConfig> = {}): LLMProviderConfig {
+    return { provider: "openai", apiKey: "test-key", model: "test-model", baseUrl: url, maxRetries: 2, timeout: 5000, ...overrides };
+}
+
+// Server-sent events, one "data:" line per event.
+function sse(events: unknown[], end?: string): string[] {
+    return [...events.map(event => `data: ${JSON.stringify(event)}\n\n`), ...(end ? [`data: ${end}\n\n`] : [])];
+}
+
+describe("OpenAICompatibleProvider", () => {
+    it("posts the messages with the key and JSON mode and reads the completion", async () => {
+        const { url, requests } = await serve({
+            body: { model: "served-model", choices: [{ message: { content: "{\"steps\":[]}" } }], usage: { prompt_tokens: 12, completion_tokens: 3 } },
+        });
+
+        const response = await new OpenAICompatibleProvider(config(url), "Groq").complete({ messages: MESSAGES, json: true });
+
+        assert.equal(requests.length, 1);
+        assert.equal(requests[0].method, "POST");
+        assert.equal(requests[0].path, "/chat/completions");
+        assert.equal(requests[0].headers.authorization, "Bearer test-key");
+        assert.deepEqual(requests[0].body, { model: "test-model", messages: MESSAGES, response_format: { type: "json_object" } });
+        assert.deepEqual(response, { content: "{\"steps\":[]}", model: "served-model", usage: { promptTokens: 12, completionTokens: 3 }, retries: 0 });
+    });
+
+    it("streams server-sent events and takes the usage from the last chunk", async () => {
+        const { url, requests } = await serve({
+            chunks: sse([
+                { model: "m", choices: [{ delta: { content: "{\"st" } }] },
+                { model: "m", choices: [{ delta: { content: "eps\":[]}" } }] },
+                { model: "m", choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } },
+            ], "[DONE]"),
+        });
+        const pieces: string[] = [];
+
+        const response = await new OpenAICompatibleProvider(config(url)).stream({ messages: MESSAGES }, text => pieces.push(text));
+
+        assert.equal(requests[0].body.stream, true);
+        assert.deepEqual(requests[0].body.stream_options, { include_usage: true });
+        assert.deepEqual(pieces, ["{\"st", "eps\":[]}"]);
+        assert.equal(response.content, "{\"steps\":[]}");
+        assert.deepEqual(response.usage, { promptTokens: 5, completionTokens: 2 });
+    });
+
+    it("retries a 429 after the Retry-After wait", async () => {
+        const { url, requests } = await serve(
+            { status: 429, headers: { "retry-after": "0" }, body: { error: { message: "slow down" } } },
+            { body: { choices: [{ message: { content: "ok" } }] } },
+        );
+
+        const response = await new OpenAICompatibleProvider(config(url)).complete({ messages: MESSAGES });
+
+        assert.equal(requests.length, 2);
+        assert.equal(response.content, "ok");
+        assert.equal(response.retries, 1);
+    });
+
+    it("gives up with a RateLimitError once the retries are used up", async () => {
+        const { url, requests } = await serve({ status: 429, headers: { "retry-after": "0" }, body: { error: { message: "slow down" } } });
+
+        await assert.rejects(
+            new OpenAICompatibleProvider(config(url, { maxRetries: 1 })).complete({ messages: MESSAGES }),
+            (error: any) => error instanceof RateLimitError && /rate limit exceeded \(429\): slow down/.test(error.message),
+        );
+        assert.equal(requests.length, 2);
+    });
+
+    it("maps 401 to an AuthenticationError without retrying", async () => {
+        const { url, requests } = await serve({ status: 401, body: { error: { message: "Invalid API Key" } } });
+
+        await assert.rejects(
+            new OpenAICompatibleProvider(config(url), "Groq").complete({ messages: MESSAGES }),
+            (error: any) => error instanceof AuthenticationError && error.message === "Groq API authentication failed (401): Invalid API Key. Check your API key.",
+        );
+        assert.equal(requests.length, 1);
+    });
+
+    it("cancels the request when the signal is aborted", async () => {
+        const { url } = await serve({ body: { choices: [{ message: { content: "too late" } }] } });
+        const controller = new AbortController();
+        controller.abort();
+
+        await assert.rejects(
+            new OpenAICompatibleProvider(config(url)).complete({ messages: MESSAGES, signal: controller.signal }),
+            (error: any) => error instanceof ProviderError && /cancelled/.test(error.message),
+        );
+    });
+});
+
+describe("OllamaProvider", () => {
+    it("posts to /api/chat without a key and reads the token counts", async () => {
+        const { url, requests } = await serve({
+            body: { model: "llama3.1", message: { content: "{}" }, done: true, prompt_eval_count: 20, eval_count: 4 },
+        });
+
+        const response = await new OllamaProvider(config(url, { provider: "ollama", apiKey: "" })).complete({ messages: MESSAGES, json: true });
+
+        assert.equal(requests[0].path, "/api/chat");
+        assert.equal(requests[0].headers.authorization, undefined);
+        assert.deepEqual(requests[0].body, { model: "test-model", messages: MESSAGES, stream: false, format: "json" });
+        assert.deepEqual(response, { content: "{}", model: "llama3.1", usage: { promptTokens: 20, completionTokens: 4 }, retries: 0 });
+    });
+
+    it("streams one JSON object per line, split across chunks", async () => {
+        const lines = [
+            { model: "llama3.1", message: { content: "{\"a\"" }, done: false },
+            { model: "llama3.1", message: { content: ":1}" }, done: false },
+            { model: "llama3.1", message: { content: "" }, done: true, prompt_eval_count: 7, eval_count: 2 },
+        ].map(line => JSON.stringify(line) + "\n").join("");
+        const { url, requests } = await serve({ chunks: [lines.slice(0, 30), lines.slice(30)] });
+        const pieces: string[] = [];
+
+        const response = await new OllamaProvider(config(url, { provider: "ollama", apiKey: "" })).stream({ messages: MESSAGES }, text => pieces.push(text));
+
+        assert.equal(requests[0].body.stream, true);
+        assert.deepEqual(pieces, ["{\"a\"", ":1}"]);
+        assert.deepEqual(response.usage, { promptTokens: 7, completionTokens: 2 });
+    });
+
+    it("retries a 429 after the Retry-After wait", async () => {
+        const { url, requests } = await serve(
+            { status: 429, headers: { "retry-after": "0" }, body: { error: "busy" } },
+            { body: { message: { content: "ok" }, done: true } },
+        );
+
+        const response = await new OllamaProvider(config(url, { provider: "ollama", apiKey: "" })).complete({ messages: MESSAGES });
+
+        assert.equal(requests.length, 2);
+        assert.equal(response.retries, 1);
+    });
+
+    it("maps 403 from a proxy to an AuthenticationError", async () => {
+        const { url } = await serve({ status: 403, body: { error: "forbidden" } });
+
+        await assert.rejects(
+            new OllamaProvider(config(url, { provider: "ollama", apiKey: "" })).complete({ messages: MESSAGES }),
+            (error: any) => error instanceof AuthenticationError && /authentication failed \(403\): forbidden/.test(error.message),
+        );
+    });
+});
+
+describe("AnthropicProvider", () => {
+    it("lifts system prompts into the system field and sends the version header", async () => {
+        const { url, requests } = await serve({
+            body: { model: "claude", content: [{ type: "text", text: "{}" }], usage: { input_tokens: 9, output_tokens: 1 } },
+        });
+
+        const response = await new AnthropicProvider(config(url, { provider: "anthropic" })).complete({ messages: MESSAGES, json: true });
+
+        assert.equal(requests[0].path, "/messages");
+        assert.equal(requests[0].headers["x-api-key"], "test-key");
+        assert.equal(requests[0].headers["anthropic-version"], "2023-06-01");
+        assert.deepEqual(requests[0].body, {
+            model: "test-model",
+            max_tokens: 4096,
+            system: "You plan tasks.\n\nRespond with a single JSON object and nothing else.",
+            messages: [{ role: "user", content: "Add login" }],
+        });
+        assert.deepEqual(response, { content: "{}", model: "claude", usage: { promptTokens: 9, completionTokens: 1 }, retries: 0 });
+    });
+
+    it("streams text deltas and reads the usage from message_start and message_delta", async () => {
+        const { url } = await serve({
+            chunks: sse([
+                { type: "message_start", message: { model: "claude", usage: { input_tokens: 11 } } },
+                { type: "content_block_delta", delta: { type: "text_delta", text: "{\"a\":" } },
+                { type: "content_block_delta", delta: { type: "text_delta", text: "1}" } },
+                { type: "message_delta", usage: { output_tokens: 3 } },
+                { type: "message_stop" },
+            ]),
+        });
+        const pieces: string[] = [];
+
+        const response = await new AnthropicProvider(config(url, { provider: "anthropic" })).stream({ messages: MESSAGES }, text => pieces.push(text));
+
+        assert.deepEqual(pieces, ["{\"a\":", "1}"]);
+        assert.deepEqual(response, { content: "{\"a\":1}", model: "claude", usage: { promptTokens: 11, completionTokens: 3 }, retries: 0 });
+    });
+
+    it("turns a streamed rate_limit_error event into a RateLimitError", async () => {
+        const { url } = await serve({ chunks: sse([{ type: "error", error: { type: "rate_limit_error", message: "Too many requests" } }]) });
+
+        await assert.rejects(
+            new AnthropicProvider(config(url, { provider: "anthropic" })).stream({ messages: MESSAGES }, () => undefined),
+            RateLimitError,
+        );
+    });
+
+    it("retries a 429 after the Retry-After wait", async () => {
+        const { url, requests } = await serve(
+            { status: 429, headers: { "retry-after": "0" }, body: { type: "error", error: { type: "rate_limit_error", message: "slow down" } } },
+            { body: { content: [{ type: "text", text: "ok" }] } },
+        );
+
+        const response = await new AnthropicProvider(config(url, { provider: "anthropic" })).complete({ messages: MESSAGES });
+
+        assert.equal(requests.length, 2);
+        assert.equal(response.retries, 1);
+    });
+
+    it("maps 401 to an AuthenticationError", async () => {
+        const { url, requests } = await serve({ status: 401, body: { type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } } });
+
+        await assert.rejects(
+            new AnthropicProvider(config(url, { provider: "anthropic" })).complete({ messages: MESSAGES }),
+            (error: any) => error instanceof AuthenticationError && /authentication failed \(401\): invalid x-api-key/.test(error.message),
+        );
+        assert.equal(requests.length, 1);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, retryAfterMs, rateLimitResetMs, backoffDelay } from "../src/providers/resilience";
+import { OpenAICompatibleProvider, CircuitOpenError } from "../src/providers";
+import { startMockServer } from "./helpers/mockServer";
+
+describe("retryAfterMs", () => {
+    it("reads retry-after-ms, Retry-After seconds and dates", () => {
+        const now = Date.parse("2026-10-19T12:00:00Z");
+
+        assert.equal(retryAfterMs({ "retry-after-ms": "250" }), 250);
+        assert.equal(retryAfterMs({ "retry-after": "3" }), 3000);
+        assert.equal(retryAfterMs({ "retry-after": "Mon, 19 Oct 2026 12:00:05 GMT" }, now), 5000);
+        assert.equal(retryAfterMs({}), undefined);
+    });
+
+    it("falls back to an exhausted rate limit's reset time", () => {
+        assert.equal(rateLimitResetMs({ "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "1m30s" }), 90_000);
+        assert.equal(retryAfterMs({ "x-ratelimit-remaining-requests": "5", "x-ratelimit-reset-requests": "1m30s" }), undefined);
+    });
+});
+
+describe("backoffDelay", () => {
+    it("doubles per attempt, with jitter, up to the maximum", () => {
+        for (const attempt of [1, 2, 3]) {
+            const delay = backoffDelay(attempt, 100, 10_000);
+            assert.ok(delay >= 100 * 2 ** (attempt - 1) * 0.5 && delay <= 100 * 2 ** (attempt - 1) * 1.5, `attempt ${attempt}: ${delay}ms`);
+        }
+        assert.ok(backoffDelay(20, 100, 1000) <= 1000);
+    });
+});
+
+describe("CircuitBreaker", () => {
+    it("opens after the threshold and lets one trial through after the cooldown", () => {
+        const circuit = new CircuitBreaker({ threshold: 2, cooldownMs: 0 });
+
+        circuit.recordFailure();
+        assert.equal(circuit.state, "closed");
+        circuit.recordFailure();
+        assert.equal(circuit.state, "half-open");
+
+        assert.equal(circuit.acquire(), 0);
+        assert.ok(circuit.acquire() > 0, "a second request waits for the trial");
+        circuit.recordSuccess();
+        assert.equal(circuit.state, "closed");
+    });
+
+    it("frees the trial slot when the trial is released", () => {
+        const circuit = new CircuitBreaker({ threshold: 1, cooldownMs: 0 });
+        circuit.recordFailure();
+
+        assert.equal(circuit.acquire(), 0);
+        circuit.release();
+        assert.equal(circuit.acquire(), 0);
+    });
+
+    it("does not stay open when the trial request is cancelled", async () => {
+        const server = await startMockServer([
+            { status: 500, body: { error: { message: "down" } } },
+            { body: { choices: [{ message: { content: "ok" } }] } },
+        ]);
+        try {
+            const provider = new OpenAICompatibleProvider({
+                provider: "openai", apiKey: "k", model: "m", baseUrl: server.url, maxRetries: 0, circuitThreshold: 1, circuitCooldown: 0,
+            });
+            await assert.rejects(provider.complete({ messages: [] }));
+
+            // The half-open trial is cancelled before it is sent.
+            const controller = new AbortController();
+            controller.abort();
+            await assert.rejects(provider.complete({ messages: [], signal: controller.signal }), (error: any) => !(error instanceof CircuitOpenError));
+
+            const response = await provider.complete({ messages: [] });
+            assert.equal(response.content, "ok");
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findMarkers, scanMarkers, markerToTask, groupMarkers, prefillMarkerFile } from "../src/core/scan";
+import { TaskType } from "../src/types/analysis";
+
+const SOURCE = [
+    "export class PlanStore {",
+    "    save(plan: Plan): void {",
+    "        // TODO(alice): write atomically",
+    "        writeFileSync(this.file, plan);",
+    "    }",
+    "}",
+    "",
+    "// FIXME: crashes on an empty list",
+    "export function first(items: string[]) {",
+    "    return items[0].trim();",
+    "}",
+    "/* HACK - skip the cache for now */",
+].join("\n");
+
+describe("findMarkers", () => {
+    it("reads the marker word, author and text with the enclosing symbol and context", () => {
+        const [todo, fixme, hack] = findMarkers(SOURCE, "src/store.ts", { contextLines: 1 });
+
+        assert.deepEqual(
+            { kind: todo.kind, author: todo.author, text: todo.text, line: todo.line, symbol: todo.symbol },
+            { kind: "TODO", author: "alice", text: "write atomically", line: 3, symbol: { kind: "method", name: "PlanStore.save", line: 2 } },
+        );
+        assert.deepEqual(todo.context, [SOURCE.split("\n")[1], SOURCE.split("\n")[2], SOURCE.split("\n")[3]]);
+        assert.equal(todo.contextStart, 2);
+
+        assert.equal(fixme.text, "crashes on an empty list");
+        assert.deepEqual(fixme.symbol, { kind: "function", name: "first", line: 9 });
+
+        assert.equal(hack.text, "skip the cache for now");
+        assert.equal(hack.symbol, undefined);
+    });
+
+    it("looks only for the given marker words", () => {
+        assert.deepEqual(findMarkers(SOURCE, "src/store.ts", { markers: ["FIXME"] }).map(marker => marker.line), [8]);
+        assert.deepEqual(findMarkers("const todo = 'TODO: not a comment';", "a.ts"), []);
+    });
+});
+
+describe("markerToTask", () => {
+    it("takes the type from a TODO's text, else from the marker word, and the module as scope", () => {
+        const [todo, fixme, hack] = findMarkers(SOURCE, "src/store.ts");
+
+        assert.equal(markerToTask(fixme).type, TaskType.BUGFIX);
+        assert.equal(markerToTask(hack).type, TaskType.REFACTOR);
+        assert.equal(markerToTask(todo).type, TaskType.FEATURE);
+        assert.equal(markerToTask({ ...todo, text: "refactor the writer" }).type, TaskType.REFACTOR);
+        assert.equal(markerToTask(todo).description, "Write atomically (TODO in method PlanStore.save in src/store.ts, line 3)");
+        assert.equal(markerToTask(todo).scope, "store");
+    });
+});
+
+describe("groupMarkers and prefillMarkerFile", () => {
+    it("group a file's markers into one task and make its plan name the file", () => {
+        const markers = [...findMarkers(SOURCE, "src/store.ts"), ...findMarkers("# TODO: add retries", "jobs/sync.py")];
+
+        assert.deepEqual(groupMarkers(markers).map(group => group.id), ["src/store.ts:3", "src/store.ts:8", "src/store.ts:12", "jobs/sync.py:1"]);
+
+        const [store] = groupMarkers(markers, "file");
+        assert.equal(store.markers.length, 3);
+        assert.match(store.task.description, /^Resolve 3 code comments in src\/store\.ts: write atomically \(TODO, line 3\);/);
+
+        const plan = prefillMarkerFile({
+            taskDescription: store.task.description,
+            steps: [
+                { id: 1, title: "Plan", description: "", files: [] },
+                { id: 2, title: "Fix", description: "", files: ["src/other.ts"] },
+            ],
+        }, store);
+        assert.deepEqual(plan.steps.map(step => step.files), [[], ["src/store.ts", "src/other.ts"]]);
+    });
+});
+
+describe("scanMarkers", () => {
+    it("scans source files, respecting .gitignore", () => {
+        const root = mkdtempSync(join(tmpdir(), "scan-"));
+        try {
+            mkdirSync(join(root, "src"));
+            mkdirSync(join(root, "build"));
+            writeFileSync(join(root, ".gitignore"), "build/\n");
+            writeFileSync(join(root, "src", "store.ts"), SOURCE);
+            writeFileSync(join(root, "build", "store.js"), "// TODO: generated");
+            writeFileSync(join(root, "notes.txt"), "TODO: not source");
+
+            assert.deepEqual(scanMarkers(root).map(marker => `${marker.file}:${marker.line}`), ["src/store.ts:3", "src/store.ts:8", "src/store.ts:12"]);
+        } finally {
+            rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
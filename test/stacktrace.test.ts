@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseStackTrace, splitStackTrace, suspectFiles, failingFrame } from "../src/core/stacktrace";
+
+const NODE_TRACE = [
+    "TypeError: Cannot read properties of undefined (reading 'price')",
+    "    at CartService.checkout (/app/src/cart/service.ts:42:13)",
+    "    at async Router.handle (/app/node_modules/express/lib/router.js:10:5)",
+    "    at /app/src/index.ts:3:4",
+].join("\n");
+
+const PYTHON_TRACE = [
+    "Traceback (most recent call last):",
+    "  File \"/app/main.py\", line 5, in <module>",
+    "    run()",
+    "  File \"/usr/lib/python3.11/json/__init__.py\", line 346, in loads",
+    "    return _default_decoder.decode(s)",
+    "  File \"/app/cart/service.py\", line 42, in checkout",
+    "    total += item[\"price\"]",
+    "KeyError: 'price'",
+].join("\n");
+
+const PYTHON_CHAINED = [
+    "Traceback (most recent call last):",
+    "  File \"/app/db.py\", line 10, in connect",
+    "    sock.connect()",
+    "ConnectionRefusedError: [Errno 111] Connection refused",
+    "",
+    "The above exception was the direct cause of the following exception:",
+    "",
+    "Traceback (most recent call last):",
+    "  File \"/app/main.py\", line 5, in main",
+    "    db.connect()",
+    "  File \"/app/db.py\", line 12, in connect",
+    "    raise DatabaseError(\"down\") from e",
+    "app.DatabaseError: down",
+].join("\n");
+
+const JAVA_TRACE = [
+    "Exception in thread \"main\" java.lang.RuntimeException: checkout failed",
+    "\tat com.acme.cart.CartController.post(CartController.java:30)",
+    "\tat org.springframework.web.Dispatcher.run(Dispatcher.java:100)",
+    "Caused by: java.lang.IllegalStateException: no price",
+    "\tat com.acme.cart.CartService.checkout(CartService.java:42)",
+    "\t... 2 more",
+].join("\n");
+
+describe("parseStackTrace", () => {
+    it("reads a Node trace, innermost frame first, and flags library frames", () => {
+        const report = parseStackTrace(NODE_TRACE)!;
+
+        assert.equal(report.language, "node");
+        assert.equal(report.errorType, "TypeError");
+        assert.equal(report.message, "Cannot read properties of undefined (reading 'price')");
+        assert.deepEqual(report.frames.map(frame => [frame.function, frame.file, frame.line, frame.library]), [
+            ["CartService.checkout", "/app/src/cart/service.ts", 42, false],
+            ["Router.handle", "/app/node_modules/express/lib/router.js", 10, true],
+            [undefined, "/app/src/index.ts", 3, false],
+        ]);
+        assert.equal(report.frames[0].column, 13);
+    });
+
+    it("reverses Python frames so the innermost comes first", () => {
+        const report = parseStackTrace(PYTHON_TRACE)!;
+
+        assert.equal(report.language, "python");
+        assert.equal(report.errorType, "KeyError");
+        assert.equal(report.message, "'price'");
+        assert.deepEqual(report.frames.map(frame => `${frame.file}:${frame.line}`), [
+            "/app/cart/service.py:42",
+            "/usr/lib/python3.11/json/__init__.py:346",
+            "/app/main.py:5",
+        ]);
+        assert.equal(report.frames[1].library, true);
+    });
+
+    it("reports the first traceback of a chained Python error as the root cause", () => {
+        const report = parseStackTrace(PYTHON_CHAINED)!;
+
+        assert.equal(report.errorType, "ConnectionRefusedError");
+        assert.equal(report.message, "[Errno 111] Connection refused");
+        assert.deepEqual(report.frames.map(frame => `${frame.file}:${frame.line}`), ["/app/db.py:10", "/app/db.py:12", "/app/main.py:5"]);
+    });
+
+    it("reports the last Java \"Caused by\" as the root cause, its frames first", () => {
+        const report = parseStackTrace(JAVA_TRACE)!;
+
+        assert.equal(report.language, "java");
+        assert.equal(report.errorType, "java.lang.IllegalStateException");
+        assert.equal(report.message, "no price");
+        assert.deepEqual(report.frames.map(frame => [frame.function, frame.library]), [
+            ["com.acme.cart.CartService.checkout", false],
+            ["com.acme.cart.CartController.post", false],
+            ["org.springframework.web.Dispatcher.run", true],
+        ]);
+    });
+
+    it("finds the error in a log line without frames", () => {
+        const report = parseStackTrace("2026-10-19 12:00:01 ERROR worker: RedisTimeoutError: timed out after 5000ms")!;
+
+        assert.equal(report.errorType, "RedisTimeoutError");
+        assert.equal(report.message, "timed out after 5000ms");
+        assert.deepEqual(report.frames, []);
+    });
+
+    it("returns undefined for text without frames or an error", () => {
+        assert.equal(parseStackTrace("The checkout page is slow."), undefined);
+    });
+});
+
+describe("splitStackTrace", () => {
+    it("separates the prose of a bug report from the pasted trace", () => {
+        const { prose, trace } = splitStackTrace(`Checkout crashes for guests.\n\n${NODE_TRACE}\n\nHappens since Monday.`);
+
+        assert.equal(prose, "Checkout crashes for guests.\n\nHappens since Monday.");
+        assert.equal(trace, NODE_TRACE);
+    });
+
+    it("leaves text without frames alone", () => {
+        assert.deepEqual(splitStackTrace("TypeError in the cart"), { prose: "TypeError in the cart" });
+    });
+});
+
+describe("suspectFiles and failingFrame", () => {
+    it("skip library frames", () => {
+        const report = parseStackTrace(PYTHON_TRACE)!;
+
+        assert.equal(failingFrame(report)?.file, "/app/cart/service.py");
+        assert.deepEqual(suspectFiles(parseStackTrace("Error: x\n    at f (src/a.ts:1:1)\n    at g (node_modules/b/index.js:2:2)\n    at h (./src//c.ts:3:3)")!), ["src/a.ts", "src/c.ts"]);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StepStreamParser } from "../src/core/stream";
+import { parseTask } from "../src/core/parser";
+import { LLMStrategy } from "../src/strategies/LLMStrategy";
+import { LLMRequest, LLMResponse } from "../src/providers";
+import { Step } from "../src/types/analysis";
+import { ScriptedProvider } from "./helpers/scriptedProvider";
+
+const REPLY = JSON.stringify({
+    notes: [{ id: 99 }],
+    steps: [
+        { id: 1, title: "Parse \"{braces}\" and [brackets]", description: "Escaped \\\" quote", files: ["src/a.ts"], dependsOn: [] },
+        { id: 2, title: "Nested", description: "Has an object inside", files: [], dependsOn: [1], meta: { steps: [{ id: 7 }] } },
+    ],
+    summary: { steps: [{ id: 8 }] },
+});
+
+// Feed the text in pieces of the given size and collect the steps in the order they complete.
+function feedInPieces(text: string, size: number): unknown[][] {
+    const parser = new StepStreamParser();
+    const completed: unknown[][] = [];
+    for (let i = 0; i < text.length; i += size) {
+        completed.push(parser.feed(text.slice(i, i + size)));
+    }
+    return completed;
+}
+
+describe("StepStreamParser", () => {
+    it("picks out the steps of the top-level array, however the text is split", () => {
+        const expected = JSON.parse(REPLY).steps;
+
+        for (const size of [1, 2, 7, 50, REPLY.length]) {
+            assert.deepEqual(feedInPieces(REPLY, size).flat(), expected, `pieces of ${size}`);
+        }
+    });
+
+    it("returns each step with the piece that closes it", () => {
+        const first = REPLY.indexOf("}", REPLY.indexOf("\"src/a.ts\"")) + 1;
+        const parser = new StepStreamParser();
+
+        assert.deepEqual(parser.feed(REPLY.slice(0, first - 1)), []);
+        assert.deepEqual(parser.feed(REPLY.slice(first - 1, first)).map((step: any) => step.id), [1]);
+        assert.deepEqual(parser.feed(REPLY.slice(first)).map((step: any) => step.id), [2]);
+    });
+
+    it("skips a malformed step and keeps going", () => {
+        const parser = new StepStreamParser();
+
+        assert.deepEqual(parser.feed("```json\n{\"steps\": [{\"id\": 1, oops}, {\"id\": 2}]}\n```"), [{ id: 2 }]);
+    });
+});
+
+// A provider that streams its reply a few characters at a time.
+class StreamingProvider extends ScriptedProvider {
+    async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+        const response = await this.complete(request);
+        for (let i = 0; i < response.content.length; i += 5) {
+            onText(response.content.slice(i, i + 5));
+        }
+        return response;
+    }
+}
+
+describe("LLMStrategy.analyzeStream", () => {
+    it("reports each step as soon as it has arrived, then the whole plan", async () => {
+        const reported: Step[] = [];
+        const strategy = new LLMStrategy({ provider: new StreamingProvider([REPLY]) });
+
+        const breakdown = await strategy.analyzeStream(parseTask("Add tags"), step => reported.push(step));
+
+        assert.deepEqual(reported.map(step => step.id), [1, 2]);
+        assert.deepEqual(breakdown.steps.map(step => step.title), reported.map(step => step.title));
+    });
+
+    it("reports nothing early when streaming is off", async () => {
+        const reported: Step[] = [];
+        const strategy = new LLMStrategy({ provider: new StreamingProvider([REPLY]), stream: false });
+
+        const breakdown = await strategy.analyzeStream(parseTask("Add tags"), step => reported.push(step));
+
+        assert.deepEqual(reported, []);
+        assert.equal(breakdown.steps.length, 2);
+    });
+});
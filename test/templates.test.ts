@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadTemplates, validateTemplate, selectTemplate, renderTemplate, PROJECT_TEMPLATES_DIR } from "../src/core/templates";
+import { parseTask } from "../src/core/parser";
+import { PlanTemplate, TaskType } from "../src/types/analysis";
+
+const TEMPLATE: PlanTemplate = validateTemplate({
+    name: "api",
+    match: { types: ["CRUD"] },
+    steps: [
+        { id: 1, title: "Create {{scope}} model", description: "Model for {{type}}", files: ["src/models/{{scopeSlug}}.ts"] },
+        { id: 2, title: "Add caching", description: "Cache reads", files: [], when: { keywords: ["cache"] } },
+        { id: 3, title: "Add {{scope}} routes", description: "Routes", files: ["src/routes/{{scopeSlug}}.ts"] },
+    ],
+}, "api.yaml");
+
+describe("renderTemplate", () => {
+    it("fills in placeholders", () => {
+        const [model] = renderTemplate(TEMPLATE, parseTask("Build CRUD endpoints for Blog Posts"));
+
+        assert.equal(model.title, "Create Blog Posts model");
+        assert.equal(model.description, "Model for CRUD");
+        assert.deepEqual(model.files, ["src/models/blog-posts.ts"]);
+    });
+
+    it("drops steps whose condition fails and passes their dependencies through", () => {
+        const steps = renderTemplate(TEMPLATE, parseTask("Build CRUD endpoints for posts"));
+
+        assert.deepEqual(steps.map(step => [step.id, step.title, step.dependsOn]), [
+            [1, "Create posts model", []],
+            [2, "Add posts routes", [1]],
+        ]);
+    });
+
+    it("keeps conditional steps whose condition holds", () => {
+        const steps = renderTemplate(TEMPLATE, parseTask("Build CRUD endpoints with a cache for posts"));
+
+        assert.deepEqual(steps.map(step => step.dependsOn), [[], [1], [2]]);
+    });
+});
+
+describe("selectTemplate", () => {
+    it("prefers keyword matches over type-only matches, then priority", () => {
+        const keyword = { ...TEMPLATE, name: "graphql", match: { types: [TaskType.CRUD], keywords: ["graphql"] } };
+        const urgent = { ...TEMPLATE, name: "urgent", priority: 5 };
+
+        assert.equal(selectTemplate([TEMPLATE, keyword, urgent], TaskType.CRUD, parseTask("Add a GraphQL CRUD API"))?.name, "graphql");
+        assert.equal(selectTemplate([TEMPLATE, keyword, urgent], TaskType.CRUD, parseTask("Add a CRUD API"))?.name, "urgent");
+        assert.equal(selectTemplate([TEMPLATE], TaskType.BUGFIX, parseTask("Fix the crash")), undefined);
+    });
+});
+
+describe("validateTemplate", () => {
+    it("names the file and field that is wrong", () => {
+        assert.throws(
+            () => validateTemplate({ name: "x", steps: [{ id: 1, title: "A", description: "B", dependsOn: [3] }] }, "x.json"),
+            /Invalid template file x\.json: field "steps\[0\]\.dependsOn" references unknown step id 3/,
+        );
+        assert.throws(
+            () => validateTemplate({ name: "x", steps: [{ id: 1, title: "{{scop}}", description: "B" }] }, "x.json"),
+            /steps\[0\]\.title/,
+        );
+    });
+});
+
+describe("loadTemplates", () => {
+    it("lets a project template replace a built-in one with the same name", () => {
+        const builtIn = loadTemplates();
+        const name = builtIn[0].name;
+
+        const root = mkdtempSync(join(tmpdir(), "templates-"));
+        try {
+            mkdirSync(join(root, PROJECT_TEMPLATES_DIR), { recursive: true });
+            writeFileSync(join(root, PROJECT_TEMPLATES_DIR, "override.json"), JSON.stringify({
+                name,
+                steps: [{ id: 1, title: "Project step", description: "From the project" }],
+            }));
+
+            const templates = loadTemplates({ projectRoot: root });
+
+            assert.equal(templates.length, builtIn.length);
+            assert.equal(templates.find(template => template.name === name)?.steps[0].title, "Project step");
+        } finally {
+            rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    it("rejects an unknown pack", () => {
+        assert.throws(() => loadTemplates({ packs: ["nope"] }), /Unknown template pack "nope"/);
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { exportGitHubIssues, exportJiraCSV, exportLinearIssues, writeTickets } from "../src/core/tickets";
+import { parseCSV } from "../src/core/csv";
+import { parseTask } from "../src/core/parser";
+import { TaskBreakdown } from "../src/types/analysis";
+
+const PLAN: TaskBreakdown = {
+    taskDescription: "Add tags to posts",
+    strategy: "Hardcoded",
+    steps: [
+        { id: 1, title: "Create tag model", description: "Model", files: ["src/models/tag.ts"], fileStatus: { "src/models/tag.ts": "new" }, dependsOn: [], status: "done" },
+        { id: 2, title: "Add tag routes", description: "Routes", files: [], dependsOn: [1] },
+        { id: 3, title: "Test tags", description: "Tests", files: [], dependsOn: [1, 2] },
+    ],
+};
+
+const TASK = {
+    ...parseTask("Add tags to posts"),
+    title: "Add tags to posts",
+    labels: ["enhancement"],
+    source: { tracker: "github" as const, id: "#42", url: "https://example.com/issues/42" },
+};
+
+describe("exportGitHubIssues", () => {
+    it("makes a parent with a task list and one child per step that names its files and prerequisites", () => {
+        const { parent, children } = exportGitHubIssues(PLAN, { task: TASK, planId: "ab12cd34", labels: ["planned", "enhancement"] });
+
+        assert.equal(parent.title, "Add tags to posts");
+        assert.deepEqual(parent.labels, ["enhancement", "planned"]);
+        assert.match(parent.body, /Imported from github issue #42 \(https:\/\/example\.com\/issues\/42\)\. Plan ab12cd34, made with the Hardcoded strategy\./);
+        assert.match(parent.body, /### Steps\n- \[x\] Step 1: Create tag model\n- \[ \] Step 2: Add tag routes\n- \[ \] Step 3: Test tags$/);
+
+        assert.deepEqual(children.map(child => [child.key, child.dependsOn]), [["step-1", []], ["step-2", ["step-1"]], ["step-3", ["step-1", "step-2"]]]);
+        assert.match(children[0].body, /### Files\n- `src\/models\/tag\.ts` \(new\)/);
+        assert.match(children[2].body, /### Depends on\n- Step 1: Create tag model\n- Step 2: Add tag routes/);
+        assert.match(children[2].body, /Part of: Add tags to posts \(step 3 of 3\)$/);
+    });
+
+    it("shortens a long description to a title", () => {
+        const long = { ...PLAN, taskDescription: "x".repeat(200) };
+
+        assert.equal(exportGitHubIssues(long).parent.title, `${"x".repeat(117)}...`);
+        assert.match(exportGitHubIssues(long).parent.body, /^x{200}\n\n/);
+    });
+});
+
+describe("exportJiraCSV", () => {
+    it("writes a Task row and Sub-task rows, repeating the label and link columns as needed", () => {
+        const [header, task, ...steps] = parseCSV(exportJiraCSV(PLAN, { labels: ["needs review"] }));
+
+        assert.deepEqual(header, ["Issue Id", "Parent Id", "Issue Type", "Summary", "Description", "Labels", "Inward issue link (Blocks)", "Inward issue link (Blocks)"]);
+        assert.deepEqual(task.slice(0, 4), ["task", "", "Task", "Add tags to posts"]);
+        assert.match(task[4], /h3\. Steps\n# Step 1: Create tag model \(done\)/);
+        assert.deepEqual(steps.map(row => [row[0], row[1], row[2], row[5], row[6], row[7]]), [
+            ["step-1", "task", "Sub-task", "needs-review", "", ""],
+            ["step-2", "task", "Sub-task", "needs-review", "step-1", ""],
+            ["step-3", "task", "Sub-task", "needs-review", "step-1", "step-2"],
+        ]);
+        assert.match(steps[0][4], /h3\. Files\n\* \{\{src\/models\/tag\.ts\}\} \(new\)/);
+    });
+});
+
+describe("exportLinearIssues", () => {
+    it("makes the steps sub-issues of the task, with a blocks relation per dependency", () => {
+        const { issues, relations } = exportLinearIssues(PLAN);
+
+        assert.deepEqual(issues.map(issue => [issue.id, issue.parentId]), [["task", undefined], ["step-1", "task"], ["step-2", "task"], ["step-3", "task"]]);
+        assert.deepEqual(relations.map(relation => `${relation.issueId} blocks ${relation.relatedIssueId}`), [
+            "step-1 blocks step-2",
+            "step-1 blocks step-3",
+            "step-2 blocks step-3",
+        ]);
+    });
+});
+
+describe("writeTickets", () => {
+    it("writes the export to a file, creating its directory", () => {
+        const dir = mkdtempSync(join(tmpdir(), "tickets-"));
+        try {
+            const file = join(dir, "out", "linear-issues.json");
+
+            assert.equal(writeTickets(PLAN, "linear", file), 4);
+            assert.equal(JSON.parse(readFileSync(file, "utf-8")).issues.length, 4);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { UsageLog, UsageRecord, BudgetExceededError, estimateCost, summarizeUsage, DEFAULT_PRICES } from "../src/core/usage";
+import { parseTask } from "../src/core/parser";
+import { LLMStrategy } from "../src/strategies/LLMStrategy";
+import { ScriptedProvider } from "./helpers/scriptedProvider";
+
+function record(timestamp: string, model: string, cost: number | undefined, strategy: string = "LLM"): UsageRecord {
+    return {
+        timestamp, strategy, operation: "plan", provider: "Groq", model,
+        promptTokens: 1000, completionTokens: 500, latencyMs: 200, retries: 0, ...(cost !== undefined ? { cost } : {}),
+    };
+}
+
+const REPLY = JSON.stringify({ steps: [{ id: 1, title: "Add page", description: "Add the page", files: [], dependsOn: [] }] });
+
+describe("estimateCost", () => {
+    it("prices a call per million tokens, by model or else by provider", () => {
+        assert.equal(estimateCost(DEFAULT_PRICES, "OpenAI", "gpt-4o-mini", 1_000_000, 500_000), 0.45);
+        assert.equal(estimateCost(DEFAULT_PRICES, "Ollama", "llama3.1", 1000, 1000), 0);
+        assert.equal(estimateCost(DEFAULT_PRICES, "OpenAI", "unknown-model", 1000, 1000), undefined);
+    });
+});
+
+describe("summarizeUsage", () => {
+    it("totals records per group and averages their latency", () => {
+        const records = [
+            record("2026-10-18T10:00:00Z", "a", 0.01),
+            { ...record("2026-10-19T10:00:00Z", "a", 0.02), latencyMs: 400 },
+            record("2026-10-19T11:00:00Z", "b", undefined),
+        ];
+
+        assert.deepEqual(summarizeUsage(records, ["model"]).map(s => [s.group.model, s.calls, s.promptTokens, s.cost, s.latencyMs]), [
+            ["a", 2, 2000, 0.03, 300],
+            ["b", 1, 1000, 0, 200],
+        ]);
+        assert.deepEqual(summarizeUsage(records, ["day"]).map(s => s.group.day), ["2026-10-18", "2026-10-19"]);
+    });
+});
+
+describe("UsageLog", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "usage-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("appends records and skips lines that are not records", () => {
+        const log = new UsageLog({ file: join(dir, "nested", "usage.jsonl") });
+        log.record(record("2026-10-19T10:00:00Z", "a", 0.01));
+        appendFileSync(log.file, "{\"timestamp\": \"2026-10-19T1\n");
+
+        assert.deepEqual(log.read(), [record("2026-10-19T10:00:00Z", "a", 0.01)]);
+    });
+
+    it("refuses calls once today's spending reaches the daily budget", () => {
+        const log = new UsageLog({ file: join(dir, "usage.jsonl"), dailyBudget: 0.05 });
+        const today = new Date().toISOString();
+
+        log.record(record("2000-01-01T00:00:00Z", "a", 1));
+        log.record(record(today, "a", 0.04));
+        assert.doesNotThrow(() => log.checkBudget());
+
+        log.record(record(today, "a", 0.01));
+        assert.throws(() => log.checkBudget(), (error: any) =>
+            error instanceof BudgetExceededError && /Daily LLM budget of \$0\.05 reached \(\$0\.0500 spent today\)/.test(error.message));
+        assert.doesNotThrow(() => new UsageLog({ file: log.file }).checkBudget());
+    });
+
+    it("lets LLMStrategy log each call with its cost and stop at the budget", async () => {
+        const provider = new ScriptedProvider([REPLY]);
+        const usageLog = new UsageLog({ file: join(dir, "usage.jsonl"), dailyBudget: 0.0001 });
+        const strategy = new LLMStrategy({ provider, usageLog, prices: { "scripted-model": { prompt: 5, completion: 10 } } });
+
+        await strategy.analyze(parseTask("Add a login page"));
+        const [logged] = usageLog.read();
+        assert.equal(logged.operation, "plan");
+        assert.equal(logged.cost, (10 * 5 + 5 * 10) / 1_000_000);
+
+        await assert.rejects(strategy.analyze(parseTask("Add a signup page")), BudgetExceededError);
+        assert.equal(provider.requests.length, 1);
+    });
+});
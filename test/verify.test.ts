@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { verifyPlan, formatVerificationReport } from "../src/core/verify";
+import { getChangedFiles, getDiff } from "../src/core/git";
+import { TaskBreakdown } from "../src/types/analysis";
+
+const PLAN: TaskBreakdown = {
+    taskDescription: "Add tags",
+    steps: [
+        { id: 1, title: "Model", description: "Add the model", files: ["src/models/tag.ts", "./src/db/schema.ts"] },
+        { id: 2, title: "Routes", description: "Add the routes", files: ["src/routes/tags.ts"] },
+        { id: 3, title: "Docs", description: "Document tags", files: ["docs/tags.md"], status: "skipped" },
+    ],
+};
+
+describe("verifyPlan", () => {
+    it("splits planned files into touched and untouched, and lists unplanned changes", () => {
+        const report = verifyPlan(PLAN, [
+            { path: "src/models/tag.ts", kind: "added" },
+            { path: "src/db/schema.ts", kind: "modified" },
+            { path: "src/util.ts", kind: "modified" },
+            { path: ".traycer/plans/1234abcd.json", kind: "added" },
+        ]);
+
+        assert.deepEqual(report.steps.map(step => [step.stepId, step.touched, step.untouched, step.skipped]), [
+            [1, ["src/models/tag.ts", "src/db/schema.ts"], [], false],
+            [2, [], ["src/routes/tags.ts"], false],
+            [3, [], ["docs/tags.md"], true],
+        ]);
+        assert.deepEqual(report.unaccounted, ["src/util.ts"]);
+        assert.equal(report.complete, false);
+        assert.match(formatVerificationReport(report), /Step 2: Routes \(0\/1 planned files touched\)\n  ✗ src\/routes\/tags\.ts \(not touched\)/);
+    });
+
+    it("counts a renamed file under its old and new names, and ignores untouched skipped steps", () => {
+        const report = verifyPlan(PLAN, [
+            { path: "src/models/tag.ts", kind: "added" },
+            { path: "src/db/schema.ts", kind: "modified" },
+            { path: "src/routes/tag-routes.ts", kind: "renamed", oldPath: "src/routes/tags.ts" },
+        ]);
+
+        assert.deepEqual(report.unaccounted, []);
+        assert.equal(report.complete, true);
+    });
+});
+
+describe("getChangedFiles and getDiff", () => {
+    it("read the working tree changes of a repository, untracked files included", () => {
+        const root = mkdtempSync(join(tmpdir(), "verify-"));
+        const git = (...args: string[]) => execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: root, stdio: "ignore" });
+        try {
+            git("init", "-q");
+            mkdirSync(join(root, "src"));
+            writeFileSync(join(root, "src/a.ts"), "export const a = 1;\n");
+            writeFileSync(join(root, "src/b.ts"), "export const b = 1;\n");
+            git("add", ".");
+            git("commit", "-qm", "Initial");
+
+            writeFileSync(join(root, "src/a.ts"), "export const a = 2;\n");
+            writeFileSync(join(root, "src/c.ts"), "export const c = 3;\n");
+            git("rm", "-q", "src/b.ts");
+
+            const changes = getChangedFiles(root).sort((x, y) => x.path.localeCompare(y.path));
+            assert.deepEqual(changes, [
+                { path: "src/a.ts", kind: "modified" },
+                { path: "src/b.ts", kind: "deleted" },
+                { path: "src/c.ts", kind: "added" },
+            ]);
+
+            const diff = getDiff(root, ["src/a.ts", "src/c.ts"]);
+            assert.match(diff, /-export const a = 1;\n\+export const a = 2;/);
+            assert.match(diff, /\+\+\+ b\/src\/c\.ts\n\+export const c = 3;/);
+        } finally {
+            rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
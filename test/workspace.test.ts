@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveFilePath } from "../src/core/workspace";
+import { WorkspaceIndex, WorkspaceConventions } from "../src/types/analysis";
+
+function workspace(paths: string[], conventions: Partial<WorkspaceConventions> = {}): WorkspaceIndex {
+    return {
+        root: "/repo",
+        files: paths.map(path => ({ path, exports: [] })),
+        directories: [],
+        conventions: { sourceRoot: "src", extension: ".ts", testSuffix: ".test", roles: {}, ...conventions },
+    };
+}
+
+describe("resolveFilePath", () => {
+    it("matches an existing file by name, ignoring articles in the planned name", () => {
+        const index = workspace(["lib/parser.ts", "lib/users.ts"], { sourceRoot: "lib" });
+
+        assert.deepEqual(resolveFilePath("src/the-parser.ts", index), { path: "lib/parser.ts", status: "existing" });
+        assert.deepEqual(resolveFilePath("src/TheUser.ts", index), { path: "lib/users.ts", status: "existing" });
+    });
+
+    it("does not match a name made only of stopwords", () => {
+        assert.deepEqual(resolveFilePath("src/the.ts", workspace(["src/a.ts"])), { path: "src/the.ts", status: "new" });
+    });
+
+    it("moves new sources into the detected source root", () => {
+        const index = workspace(["lib/index.ts"], { sourceRoot: "lib" });
+
+        assert.deepEqual(resolveFilePath("src/models/Tag.ts", index), { path: "lib/models/Tag.ts", status: "new" });
+    });
+
+    it("leaves planned paths alone when no source root was detected", () => {
+        const index = workspace(["index.ts"], { sourceRoot: "" });
+
+        assert.deepEqual(resolveFilePath("src/models/User.ts", index), { path: "src/models/User.ts", status: "new" });
+    });
+});